@@ -0,0 +1,62 @@
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Sets Paper.analysisStatus for papers analyzed before the status existed.
+ *
+ * Back then a failed analysis left its error text ("Error ...", "Failed ...") or the
+ * model's unparsed reply in `summary`. Error text is cleared and marked provider_error;
+ * replies that look like JSON are marked invalid_output; other summaries are ok.
+ *
+ * Pass --dry-run to only print what would change.
+ */
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+
+type LegacyStatus = 'ok' | 'invalid_output' | 'provider_error';
+
+function classify(summary: string): LegacyStatus {
+    const text = summary.trim();
+    if (text.startsWith('Error') || text.startsWith('Failed')) return 'provider_error';
+    if (text.startsWith('{') || text.startsWith('```')) return 'invalid_output';
+    return 'ok';
+}
+
+async function main() {
+    console.log(`--- Backfilling analysis status${dryRun ? ' (dry run)' : ''} ---`);
+
+    const papers: { id: string; summary: string | null }[] = await prisma.paper.findMany({
+        where: { analysisStatus: null, summary: { not: null } },
+        select: { id: true, summary: true },
+    });
+
+    const counts: Record<LegacyStatus, number> = { ok: 0, invalid_output: 0, provider_error: 0 };
+    for (const paper of papers) {
+        if (!paper.summary?.trim()) continue;
+        const status = classify(paper.summary);
+        counts[status]++;
+        if (status !== 'ok') console.log(`   ${status.padEnd(14)} ${paper.id}`);
+
+        if (!dryRun) {
+            await prisma.paper.update({
+                where: { id: paper.id },
+                data: {
+                    analysisStatus: status,
+                    // The old failure text isn't a summary; keep it as the error instead
+                    ...(status === 'ok' ? {} : { summary: null, analysisError: paper.summary.slice(0, 1000) }),
+                },
+            });
+        }
+    }
+
+    console.log(`ok ${counts.ok}, invalid_output ${counts.invalid_output}, provider_error ${counts.provider_error}.`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,28 @@
+import { prisma } from '../src/lib/db';
+import { refreshCatalogClusters } from '../src/lib/clustering';
+
+/**
+ * Clusters the whole catalog.
+ *
+ * Usage: cluster-catalog.ts [--if-due]
+ *
+ * With --if-due, the clusters are only rebuilt when the catalog has none yet or
+ * enough papers were saved into them since they were built, as the cron route does.
+ */
+
+const ifDue = process.argv.includes('--if-due');
+
+async function main() {
+    console.log('--- Clustering the catalog ---');
+    const rebuilt = await refreshCatalogClusters({ force: !ifDue });
+    console.log(rebuilt ? 'Done: catalog clusters rebuilt.' : 'Catalog clusters are up to date.');
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
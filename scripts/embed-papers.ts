@@ -0,0 +1,31 @@
+import { prisma } from '../src/lib/db';
+import { embedAllPapers } from '../src/lib/embeddings';
+import { getEmbeddingConfig } from '../src/lib/llm';
+
+/**
+ * Embeds catalog papers for semantic search.
+ *
+ * Usage: embed-papers.ts
+ *
+ * Papers whose title, abstract and summary are already embedded by the configured
+ * model (LLM_EMBEDDING_PROVIDER / LLM_EMBEDDING_MODEL) are skipped, so the script can
+ * run after every harvest, and again after switching models.
+ */
+
+async function main() {
+    const { provider, model } = getEmbeddingConfig();
+    console.log(`--- Embedding papers with ${provider}/${model} ---`);
+    const embedded = await embedAllPapers((embeddedSoFar, checked) => {
+        console.log(`   ${checked} papers checked, ${embeddedSoFar} embedded`);
+    });
+    console.log(`Done: ${embedded} papers embedded`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
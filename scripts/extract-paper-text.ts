@@ -0,0 +1,73 @@
+import fs from 'fs';
+import axios from 'axios';
+import { prisma } from '../src/lib/db';
+import { parseArxivId } from '../src/lib/arxivId';
+import { savePaperContent } from '../src/lib/paperContent';
+import { storeReferences } from '../src/lib/references';
+import { ExtractedPaper, extractPdfText } from '../src/lib/pdfText';
+
+/**
+ * Extracts the text and references of paper PDFs locally and stores them per paper.
+ *
+ * Usage: extract-paper-text.ts [--all] [--dry-run]
+ *        extract-paper-text.ts path/to/paper.pdf
+ *
+ * Without arguments, papers that have a PDF but no extracted text are processed;
+ * --all re-extracts every paper. Given a file, prints what would be extracted from it
+ * (e.g. test/data/05-versions-space.pdf) without touching the database.
+ */
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const all = args.includes('--all');
+const file = args.find(arg => !arg.startsWith('--'));
+
+function describe(paper: ExtractedPaper): string {
+    return [
+        `   ${paper.pageCount} pages, ${paper.charCount} characters`,
+        `   Title: ${paper.title ?? '(not found)'}`,
+        `   Abstract: ${paper.abstract ? `${paper.abstract.slice(0, 120)}...` : '(not found)'}`,
+        ...paper.sections.map(section => `   ${'  '.repeat(section.level)}${section.heading} (${section.text.length} chars)`),
+        `   ${paper.references.length} references`,
+    ].join('\n');
+}
+
+async function main() {
+    if (file) {
+        console.log(`--- Extracting ${file} ---`);
+        console.log(describe(await extractPdfText(fs.readFileSync(file))));
+        return;
+    }
+
+    console.log(`--- Extracting paper text${dryRun ? ' (dry run)' : ''} ---`);
+    const papers: { id: string; filePath: string; arxivVersion: number | null }[] = await prisma.paper.findMany({
+        where: { filePath: { not: null }, ...(all ? {} : { content: null }) },
+        select: { id: true, filePath: true, arxivVersion: true },
+    });
+
+    let extracted = 0;
+    for (const paper of papers) {
+        try {
+            const response = await axios.get(paper.filePath.replace(/^http:\/\//, 'https://'), { responseType: 'arraybuffer' });
+            const content = await extractPdfText(response.data);
+            console.log(`${paper.id}:\n${describe(content)}`);
+            if (!dryRun) {
+                await savePaperContent(paper.id, content, parseArxivId(paper.filePath)?.version ?? paper.arxivVersion);
+                await storeReferences(paper.id, content.references);
+            }
+            extracted++;
+        } catch (error) {
+            console.log(`${paper.id}: failed - ${(error as Error).message}`);
+        }
+    }
+    console.log(`\nExtracted ${extracted} of ${papers.length} papers.`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,41 @@
+import { prisma } from '../src/lib/db';
+import { DuplicateReason, findDuplicates, mergeDuplicates } from '../src/lib/duplicates';
+
+/**
+ * Lists papers the catalog holds more than once.
+ *
+ * Usage: find-duplicates.ts [--merge]
+ *
+ * With --merge, groups matched only by arXiv ID or DOI are merged into the suggested
+ * record. Groups matched by title or content are listed for review in the app.
+ */
+
+const merge = process.argv.includes('--merge');
+const EXACT: DuplicateReason[] = ['same_id', 'same_doi'];
+
+async function main() {
+    console.log('--- Looking for duplicate papers ---');
+    const groups = await findDuplicates();
+
+    let merged = 0;
+    for (const group of groups) {
+        const [keep, ...others] = group.papers;
+        const exact = group.reasons.every(reason => EXACT.includes(reason));
+        console.log(`   ${exact && merge ? 'merge ' : 'review'} ${keep.id} <- ${others.map(paper => paper.id).join(', ')} (${group.reasons.join(', ')})`);
+        if (exact && merge) {
+            await mergeDuplicates(keep.id, others.map(paper => paper.id));
+            merged++;
+        }
+    }
+
+    console.log(`Found ${groups.length} groups of duplicates${merge ? `, merged ${merged}` : ''}.`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -0,0 +1,45 @@
+import { prisma } from '../src/lib/db';
+import { DEFAULT_HARVEST_CATEGORIES, harvestCategories } from '../src/lib/oai';
+
+/**
+ * Syncs arXiv categories into the shared catalog over OAI-PMH.
+ *
+ * Usage: harvest-arxiv.ts [category ...] [--from=YYYY-MM-DD] [--max-pages=N]
+ *
+ * Without categories the HARVEST_CATEGORIES list is used. Runs are incremental: each
+ * category continues from its last complete harvest, or from an interrupted run's
+ * resumption token. Pass --from on the first run to skip older history.
+ */
+
+const args = process.argv.slice(2);
+const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+
+async function main() {
+    const categories = args.filter(arg => !arg.startsWith('--'));
+    const from = option('from');
+    const maxPages = option('max-pages');
+
+    console.log(`--- Harvesting ${(categories.length > 0 ? categories : DEFAULT_HARVEST_CATEGORIES).join(', ')} ---`);
+
+    const { results, errors } = await harvestCategories(categories.length > 0 ? categories : undefined, {
+        from: from ? new Date(from) : undefined,
+        maxPages: maxPages ? Number(maxPages) : undefined,
+    });
+
+    for (const result of results) {
+        console.log(`   ${result.category}: ${result.records} records in ${result.pages} pages${result.complete ? '' : ' (more pending)'}`);
+    }
+    for (const [category, message] of Object.entries(errors)) {
+        console.log(`   ${category}: failed - ${message}`);
+    }
+    if (Object.keys(errors).length > 0) process.exitCode = 1;
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
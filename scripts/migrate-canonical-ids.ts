@@ -0,0 +1,69 @@
+import { PrismaClient } from '@prisma/client';
+import { parseArxivId, arxivAbsUrl } from '../src/lib/arxivId';
+import { mergePaperInto } from '../src/lib/catalog';
+
+/**
+ * Rewrites Paper.id values saved as full URLs or versioned IDs
+ * (e.g. 'http://arxiv.org/abs/2106.09685v2') to canonical unversioned arXiv IDs.
+ *
+ * When the canonical row already exists the two rows are merged, so users who saved
+ * both forms end up with a single library entry.
+ *
+ * Pass --dry-run to only print what would change.
+ */
+
+const prisma = new PrismaClient();
+const dryRun = process.argv.includes('--dry-run');
+
+async function main() {
+    console.log(`--- Migrating paper IDs to canonical arXiv IDs${dryRun ? ' (dry run)' : ''} ---`);
+
+    const papers = await prisma.paper.findMany({
+        select: { id: true, url: true, arxivVersion: true },
+    });
+
+    let renamed = 0;
+    let merged = 0;
+    let skipped = 0;
+
+    for (const paper of papers) {
+        const parsed = parseArxivId(paper.id);
+        if (!parsed) {
+            skipped++;
+            continue;
+        }
+        if (parsed.base === paper.id) continue;
+
+        const existing = await prisma.paper.findUnique({ where: { id: parsed.base } });
+        if (existing) {
+            console.log(`   merge  ${paper.id} -> ${parsed.base}`);
+            if (!dryRun) await mergePaperInto(paper.id, parsed.base);
+            merged++;
+        } else {
+            console.log(`   rename ${paper.id} -> ${parsed.base}`);
+            if (!dryRun) {
+                // SavedPaper, Reference and topic links follow via ON UPDATE CASCADE
+                await prisma.paper.update({
+                    where: { id: paper.id },
+                    data: {
+                        id: parsed.base,
+                        url: paper.url ?? arxivAbsUrl(parsed.base, parsed.version),
+                        arxivVersion: paper.arxivVersion ?? parsed.version,
+                    },
+                });
+            }
+            renamed++;
+        }
+    }
+
+    console.log(`Renamed ${renamed}, merged ${merged}, left ${skipped} non-arXiv IDs untouched.`);
+}
+
+main()
+    .catch(e => {
+        console.error(e);
+        process.exit(1);
+    })
+    .finally(async () => {
+        await prisma.$disconnect();
+    });
@@ -1,6 +1,7 @@
 
 import { PrismaClient } from '@prisma/client';
 import { savePaperAction, getSavedPapersAction, deletePaperAction } from '../src/app/actions';
+import { normalizeArxivId } from '../src/lib/arxivId';
 
 const prisma = new PrismaClient();
 
@@ -10,7 +11,7 @@ async function main() {
     // 1. Verify User Creation (implicitly via actions)
     console.log('1. Testing savePaperAction (should create default user)...');
     const mockPaper = {
-        id: 'http://arxiv.org/abs/2106.09685v2', // LoRA paper
+        id: 'http://arxiv.org/abs/2106.09685v2', // LoRA paper, deliberately in URL form
         title: 'LoRA: Low-Rank Adaptation of Large Language Models',
         summary: 'We propose LoRA...',
         authors: ['Edward Hu', 'Yelong Shen'],
@@ -22,6 +23,9 @@ async function main() {
     await savePaperAction(mockPaper);
     console.log('   Paper saved.');
 
+    // Saved papers are keyed by canonical (unversioned) arXiv ID
+    const canonicalId = normalizeArxivId(mockPaper.id)!;
+
     // 2. Verify User exists
     const user = await prisma.user.findUnique({ where: { email: 'demo@infrared-zenith.com' } });
     if (!user) throw new Error('Default user not created!');
@@ -32,7 +36,7 @@ async function main() {
         where: {
             userId_paperId: {
                 userId: user.id,
-                paperId: mockPaper.id
+                paperId: canonicalId
             }
         }
     });
@@ -43,25 +47,25 @@ async function main() {
     console.log('2. Testing getSavedPapersAction...');
     const papers = await getSavedPapersAction();
     if (papers.length === 0) throw new Error('No papers returned!');
-    if (papers[0].id !== mockPaper.id) throw new Error('Returned paper ID mismatch!');
+    if (papers[0].id !== canonicalId) throw new Error('Returned paper ID mismatch!');
     console.log(`   Got ${papers.length} papers. First: ${papers[0].title}`);
 
     // 5. Verify Delete
     console.log('3. Testing deletePaperAction...');
-    await deletePaperAction(mockPaper.id);
+    await deletePaperAction(canonicalId);
 
     const savedLinkAfter = await prisma.savedPaper.findUnique({
         where: {
             userId_paperId: {
                 userId: user.id,
-                paperId: mockPaper.id
+                paperId: canonicalId
             }
         }
     });
     if (savedLinkAfter) throw new Error('SavedPaper link still exists after delete!');
 
     // Check if paper still exists in global catalog (it should, based on our logic)
-    const paperGlobal = await prisma.paper.findUnique({ where: { id: mockPaper.id } });
+    const paperGlobal = await prisma.paper.findUnique({ where: { id: canonicalId } });
     if (!paperGlobal) console.log('   Note: Global paper was also deleted (cascade?) or logic differs.');
     else console.log('   Global paper still exists (correct behavior).');
 
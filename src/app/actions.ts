@@ -1,13 +1,37 @@
 'use server';
 
-import { searchArxiv, ArxivPaper } from '@/lib/arxiv';
+import { searchArxiv, getArxivPaperById, ArxivPaper } from '@/lib/arxiv';
+import { arxivPdfUrl, normalizeArxivId, parseArxivId } from '@/lib/arxivId';
+import { checkForNewVersions } from '@/lib/versions';
+import { getLatestCatalogPapers, mergeExternalIds } from '@/lib/catalog';
+import { SearchScope, SemanticSearchResponse, searchPapers } from '@/lib/semanticSearch';
+import { refreshEmbeddings } from '@/lib/embeddings';
+import { ClusteringError, clusterSavedPaper, rebuildClusters, removeFromLibraryClusters } from '@/lib/clustering';
+import { ResearchMap, getResearchMap } from '@/lib/researchMap';
+import { CollectionError, PaperCollection, createCollection, deleteCollection, listCollections } from '@/lib/collections';
+import { DuplicateError, DuplicateGroup, findDuplicatesOf, mergeDuplicates } from '@/lib/duplicates';
+import { searchSources, ExternalIds, SourceId, SourcePaper } from '@/lib/sources';
+import { ArxivQuery, compileArxivQuery } from '@/lib/arxivQuery';
 import { analyzePdfBuffer } from '@/lib/analyzer';
-import { PrismaClient } from '@prisma/client';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { StructuredAnalysisColumns, decodeStructuredAnalysis } from '@/lib/analysisFields';
+import { getPaperContent } from '@/lib/paperContent';
+import { getCitingPaperIds, getReferences } from '@/lib/references';
+import { CitationGraph, getCitationGraph, getCitationNeighborhood } from '@/lib/citationGraph';
+import { paperDigest } from '@/lib/pdfText';
+import { TaxonomyError, TaxonomyTopic, TopicChangeAction, addTopicAlias, createTopic, formatTopicsForPrompt, getTaxonomy, isTaxonomyCurator, mergeTopics, recordTopicChange, removeTopicAlias, resolveTopic, setTopicArchived, updateTopic } from '@/lib/taxonomy';
+import { AnalysisInProgressError, AnalysisState, enqueueAnalysis, hasCurrentAnalysis, scheduleAnalysisJobs } from '@/lib/analysisJobs';
+import { AnalysisRevisionEntry, AnalysisTrigger, getAnalysisRevisions, setCurrentRevision, unpinAnalysis } from '@/lib/analysisRevisions';
+import { EditableField, EditableValues, FieldLockColumns, decodeFieldLocks } from '@/lib/fieldLocks';
+import { FieldEditError, LockablePaper, editPaperFields, lockAwareUpdate, lockField, reviewSuggestion, unlockField } from '@/lib/paperOverrides';
+import { PromptTemplate, PromptTemplateError, PromptTemplateInput, createPromptTemplate, deletePromptTemplate, getPromptTemplate, listPromptTemplates, updatePromptTemplate } from '@/lib/promptTemplates';
+import { SOURCE_LANGUAGE, SummaryLanguage, isSummaryLanguage } from '@/lib/languages';
+import { PaperTranslationEntry, TranslationError, getPaperTranslations, getTopicTranslations, getTranslatedSummaries, translateForUser, translatePaper, translateTopics } from '@/lib/translations';
+import { ChatMessage, PaperChatError, askPaper, clearPaperChat, getPaperChat } from '@/lib/paperChat';
+import { LibraryChatError, LibraryChatMessage, LibraryChatScope, LibraryChatSummary, askLibrary, deleteLibraryChat, getLibraryChat, listLibraryChats } from '@/lib/libraryChat';
+import { JsonSchema, generateStructured, isLlmConfigured } from '@/lib/llm';
+import { prisma } from '@/lib/db';
 import axios from 'axios';
-
-const prisma = new PrismaClient();
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { after } from 'next/server';
 
 import { currentUser } from '@clerk/nextjs/server';
 
@@ -44,18 +68,75 @@ async function getCurrentUser() {
     });
 }
 
-export async function searchPapersAction(query: string, start: number = 0, sortBy: 'relevance' | 'submittedDate' = 'submittedDate'): Promise<ArxivPaper[]> {
-    if (!query.trim()) return [];
-    return await searchArxiv(query, 10, start, sortBy, 'descending');
+// The language a user reads summaries in
+function summaryLanguageOf(user: { summaryLanguage: string | null }): SummaryLanguage {
+    return user.summaryLanguage && isSummaryLanguage(user.summaryLanguage) ? user.summaryLanguage : SOURCE_LANGUAGE;
+}
+
+// Decodes the Paper columns stored as JSON strings into the shape SourcePaper uses
+function decodePaperMetadata(p: StructuredAnalysisColumns & FieldLockColumns & { categories: string | null; affiliations: string | null; externalIds: string | null; updatedDate: Date | null }) {
+    const locks = decodeFieldLocks(p);
+    return {
+        ...decodeStructuredAnalysis(p),
+        lockedFields: locks.locked,
+        fieldSuggestions: locks.suggestions,
+        categories: p.categories ? JSON.parse(p.categories) as string[] : [],
+        affiliations: p.affiliations ? JSON.parse(p.affiliations) as Record<string, string[]> : undefined,
+        externalIds: p.externalIds ? JSON.parse(p.externalIds) as ExternalIds : undefined,
+        updated: p.updatedDate?.toISOString() || '',
+    };
+}
+
+export async function searchPapersAction(
+    query: string | ArxivQuery,
+    start: number = 0,
+    sortBy: 'relevance' | 'submittedDate' = 'submittedDate',
+    sources: SourceId[] = ['arxiv']
+): Promise<{ papers: SourcePaper[]; error?: string; sourceErrors?: Partial<Record<SourceId, string>> }> {
+    try {
+        // Compile here so malformed structured queries surface as errors instead of an empty result
+        const searchQuery = typeof query === 'string' ? query : compileArxivQuery(query);
+        if (!searchQuery.trim() || sources.length === 0) return { papers: [] };
+
+        const result = await searchSources(searchQuery, sources, { maxResults: 10, start, sortBy });
+        const failed = Object.entries(result.errors);
+        if (failed.length === sources.length) {
+            return { papers: [], error: failed.map(([source, message]) => `${source}: ${message}`).join('; ') };
+        }
+        return { papers: result.papers, sourceErrors: failed.length > 0 ? result.errors : undefined };
+    } catch (error) {
+        console.error('Error searching papers:', error);
+        return { papers: [], error: (error as Error).message };
+    }
 }
 
-export async function getLatestPapersAction(category: string = 'cs.AI'): Promise<ArxivPaper[]> {
-    // Search for recent papers in the specific category
-    // ArXiv search query for category: cat:cs.AI
-    return await searchArxiv(`cat:${category}`, 10);
+// Hybrid keyword and semantic search over the user's library or the shared catalog
+export async function semanticSearchAction(query: string, scope: SearchScope): Promise<SemanticSearchResponse & { error?: string }> {
+    const user = await getCurrentUser();
+    try {
+        return await searchPapers(user.id, query, scope);
+    } catch (error) {
+        console.error('Semantic search failed:', error);
+        return { results: [], semantic: false, error: (error as Error).message };
+    }
 }
 
+export async function getLatestPapersAction(category: string = 'cs.AI'): Promise<{ papers: ArxivPaper[]; error?: string }> {
+    try {
+        // Serve harvested categories from the local catalog
+        const harvest = await prisma.harvestState.findUnique({ where: { category } });
+        if (harvest && harvest.recordsHarvested > 0) {
+            const papers = await getLatestCatalogPapers(category, 10);
+            if (papers.length > 0) return { papers };
+        }
 
+        // Otherwise search for recent papers in the category on ArXiv (cat:cs.AI)
+        return { papers: await searchArxiv(`cat:${category}`, 10) };
+    } catch (error) {
+        console.error('Error fetching latest papers from ArXiv:', error);
+        return { papers: [], error: (error as Error).message };
+    }
+}
 
 export async function analyzePaperFromUrlAction(url: string): Promise<string> {
     try {
@@ -71,7 +152,7 @@ export async function analyzePaperFromUrlAction(url: string): Promise<string> {
 
         // Use Gemini to analyze the PDF buffer directly
         const result = await analyzePdfBuffer(response.data);
-        return result.summary;
+        return result.analysis.summary;
     } catch (error) {
         console.error('Error analyzing paper from URL:', error);
         return `Failed to analyze paper. ${(error as Error).message}\n\nStack: ${(error as Error).stack}`;
@@ -79,13 +160,16 @@ export async function analyzePaperFromUrlAction(url: string): Promise<string> {
 }
 
 export async function getPaperByIdAction(id: string) {
+    // Saved papers are keyed by canonical arXiv ID; anything else is looked up verbatim
+    const paperId = normalizeArxivId(id) ?? id;
+
     // First try to find in saved papers for the current user
     const user = await getCurrentUser();
     const savedPaperEntry = await prisma.savedPaper.findUnique({
         where: {
             userId_paperId: {
                 userId: user.id,
-                paperId: String(id),
+                paperId: paperId,
             },
         },
         include: {
@@ -103,6 +187,7 @@ export async function getPaperByIdAction(id: string) {
             published: savedPaper.publishedDate?.toISOString() || '',
             link: savedPaper.url || '',
             pdfLink: savedPaper.filePath || '',
+            ...decodePaperMetadata(savedPaper),
             // Ensure abstract is returned (fallback to summary if abstract is missing for old records)
             abstract: savedPaper.abstract || savedPaper.summary || '',
             // summary is the AI summary
@@ -112,18 +197,28 @@ export async function getPaperByIdAction(id: string) {
         };
     }
 
-    // If not found in database, fetch from ArXiv
-    try {
-        // Extract ArXiv ID from URL format (e.g., 'http://arxiv.org/abs/2309.12307v3' -> '2309.12307v3')
-        const arxivId = id.includes('arxiv.org%2Fabs%2F')
-            ? id.split('arxiv.org%2Fabs%2F')[1]
-            : id;
-
-        console.log(arxivId);
+    // Papers from other sources can only be resolved through the shared catalog
+    if (!parseArxivId(paperId)) {
+        const cataloged = await prisma.paper.findUnique({ where: { id: paperId } });
+        if (!cataloged) return null;
+        return {
+            ...cataloged,
+            authors: JSON.parse(cataloged.authors),
+            published: cataloged.publishedDate?.toISOString() || '',
+            link: cataloged.url || '',
+            pdfLink: cataloged.filePath || '',
+            ...decodePaperMetadata(cataloged),
+            abstract: cataloged.abstract || '',
+            summary: cataloged.summary,
+            institution: cataloged.institution,
+            isSaved: false,
+        };
+    }
 
-        const papers = await searchArxiv(arxivId, 1);
-        if (papers.length > 0) {
-            const paper = papers[0];
+    // If not found in database, resolve the exact ID on ArXiv
+    try {
+        const paper = await getArxivPaperById(id);
+        if (paper) {
             return {
                 ...paper,
                 // Map ArXiv summary to abstract
@@ -141,22 +236,50 @@ export async function getPaperByIdAction(id: string) {
     return null;
 }
 
-export async function savePaperAction(paper: ArxivPaper): Promise<void> {
+export async function savePaperAction(paper: ArxivPaper | SourcePaper): Promise<void> {
     const user = await getCurrentUser();
 
-    // 1. Ensure paper exists in shared catalog
-    await prisma.paper.upsert({
-        where: { id: paper.id },
+    // Older clients (and the detail page) may still hand us URL or versioned IDs
+    const parsedId = parseArxivId(paper.id);
+    const paperId = parsedId?.base ?? paper.id;
+    const arxivVersion = paper.version ?? parsedId?.version ?? null;
+
+    // Fields this snapshot lacks are left as stored
+    const metadata = {
+        primaryCategory: paper.primaryCategory ?? undefined,
+        categories: paper.categories ? JSON.stringify(paper.categories) : undefined,
+        comment: paper.comment ?? undefined,
+        journalRef: paper.journalRef ?? undefined,
+        doi: paper.doi ?? undefined,
+        affiliations: paper.affiliations ? JSON.stringify(paper.affiliations) : undefined,
+    };
+    const updatedDate = paper.updated ? new Date(paper.updated) : undefined;
+    const externalIds = 'externalIds' in paper && paper.externalIds ? JSON.stringify(paper.externalIds) : null;
+
+    // 1. Ensure paper exists in shared catalog; a title a user corrected is only suggested.
+    // IDs already stored (from other sources, or merged duplicates) are kept
+    const existing: (LockablePaper & { externalIds: string | null; arxivVersion: number | null; updatedDate: Date | null }) | null =
+        await prisma.paper.findUnique({ where: { id: paperId } });
+    // A stale cached search result doesn't take the stored version, or its PDF, back
+    const isNewerVersion = arxivVersion != null && (existing?.arxivVersion == null || arxivVersion > existing.arxivVersion);
+    const isOlderVersion = arxivVersion != null && existing?.arxivVersion != null && arxivVersion < existing.arxivVersion;
+    const isLaterUpdate = !existing?.updatedDate || (!!updatedDate && updatedDate > existing.updatedDate);
+    const stored: AnalysisState & { filePath: string | null } = await prisma.paper.upsert({
+        where: { id: paperId },
         update: {
-            title: paper.title,
+            ...(existing ? await lockAwareUpdate(existing, { title: paper.title }) : { title: paper.title }),
             authors: JSON.stringify(paper.authors),
             abstract: paper.summary, // Original abstract from ArXiv
             url: paper.link,
             publishedDate: new Date(paper.published),
-            filePath: paper.pdfLink,
+            filePath: isOlderVersion ? undefined : paper.pdfLink,
+            arxivVersion: isNewerVersion ? arxivVersion : undefined,
+            updatedDate: isLaterUpdate ? updatedDate : undefined,
+            ...metadata,
+            externalIds: mergeExternalIds(existing?.externalIds ?? null, externalIds),
         },
         create: {
-            id: paper.id,
+            id: paperId,
             title: paper.title,
             authors: JSON.stringify(paper.authors),
             abstract: paper.summary, // Original abstract from ArXiv
@@ -165,6 +288,11 @@ export async function savePaperAction(paper: ArxivPaper): Promise<void> {
             url: paper.link,
             publishedDate: new Date(paper.published),
             filePath: paper.pdfLink,
+            arxivVersion,
+            updatedDate,
+            ...metadata,
+            source: 'source' in paper ? paper.source : 'arxiv',
+            externalIds,
         },
     });
 
@@ -173,54 +301,42 @@ export async function savePaperAction(paper: ArxivPaper): Promise<void> {
         where: {
             userId_paperId: {
                 userId: user.id,
-                paperId: paper.id,
+                paperId: paperId,
             },
         },
         update: {}, // Already saved
         create: {
             userId: user.id,
-            paperId: paper.id,
+            paperId: paperId,
+            seenVersion: stored.arxivVersion,
         },
     });
 
-    // 2. Trigger AI analysis in background (fire and forget)
-    if (paper.pdfLink) {
-        // We don't await this promise, allowing the action to return immediately
-        (async () => {
-            try {
-                const result = await analyzePdfBuffer(
-                    (await axios.get(paper.pdfLink!.replace(/^http:\/\//, 'https://'), {
-                        responseType: 'arraybuffer',
-                        headers: {
-                            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
-                        }
-                    })).data
-                );
-
-                // Update the paper with the generated summary, institution, and topics
-                await prisma.paper.update({
-                    where: { id: paper.id },
-                    data: {
-                        summary: result.summary,
-                        institution: result.institution,
-                        topics: {
-                            connectOrCreate: result.topics?.map((topic: string) => ({
-                                where: { name: topic },
-                                create: { name: topic },
-                            })) || [],
-                        },
-                    },
-                });
-                console.log(`Background analysis completed for paper ${paper.id}`);
-            } catch (error) {
-                console.error(`Background analysis failed for paper ${paper.id}:`, error);
-            }
-        })();
+    // 3. Queue the AI analysis unless the shared one is current; the job table keeps it across restarts
+    if (stored.filePath && !hasCurrentAnalysis(stored)) {
+        await enqueueAnalysis(paperId, { trigger: 'save', requestedBy: user.id });
+        scheduleAnalysisJobs();
     }
+
+    // 4. Place it in the library's and the catalog's clusters
+    after(() => clusterSavedPaper(paperId, user.id));
+}
+
+export async function regenerateSummaryAction(paperId: string, templateId?: string): Promise<{ success: boolean; error?: string }> {
+    // An explicit request, so a run with another template isn't mistaken for it; '' is the default
+    return requestAnalysis(paperId, 'regenerate', templateId ?? '');
 }
 
-export async function regenerateSummaryAction(paperId: string): Promise<{ success: boolean; error?: string }> {
+// Queues a fresh analysis; the previous one stays in the paper's revision history. It
+// replaces the summary everyone reads, so like changeSharedPaper it needs the paper saved
+async function requestAnalysis(paperId: string, trigger: AnalysisTrigger, templateId?: string): Promise<{ success: boolean; error?: string }> {
     try {
+        const user = await getCurrentUser();
+        if (!await hasSaved(user.id, paperId)) return { success: false, error: 'Save the paper to your library first' };
+        if (templateId && !await getPromptTemplate(templateId, user.id)) {
+            return { success: false, error: 'Prompt template not found' };
+        }
+
         // 1. Fetch the paper from database
         const paper = await prisma.paper.findUnique({
             where: { id: paperId },
@@ -234,53 +350,197 @@ export async function regenerateSummaryAction(paperId: string): Promise<{ succes
             return { success: false, error: 'No PDF available for this paper' };
         }
 
-        // 2. Fetch and analyze the PDF
-        const secureUrl = paper.filePath.replace(/^http:\/\//, 'https://');
-        const response = await axios.get(secureUrl, {
-            responseType: 'arraybuffer',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-            }
-        });
+        // 2. Queue the analysis; the Library shows its progress
+        await enqueueAnalysis(paperId, { trigger, requestedBy: user.id, templateId });
+        scheduleAnalysisJobs();
 
-        const result = await analyzePdfBuffer(response.data);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof AnalysisInProgressError) return { success: false, error: error.message };
+        console.error('Error regenerating summary:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
 
-        // 3. Update the paper with new summary and institution
-        await prisma.paper.update({
-            where: { id: paperId },
-            data: {
-                summary: result.summary,
-                institution: result.institution,
-                topics: {
-                    connectOrCreate: result.topics?.map((topic: string) => ({
-                        where: { name: topic },
-                        create: { name: topic },
-                    })) || [],
-                },
-            },
+export async function reanalyzeLatestVersionAction(paperId: string): Promise<{ success: boolean; error?: string }> {
+    const user = await getCurrentUser();
+    // Like changeSharedPaper: the PDF and analysis are everyone's
+    if (!await hasSaved(user.id, paperId)) return { success: false, error: 'Save the paper to your library first' };
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } });
+    if (!paper) {
+        return { success: false, error: 'Paper not found' };
+    }
+    if (!parseArxivId(paperId) || !paper.arxivVersion) {
+        return { success: false, error: 'Only arXiv papers can be re-analyzed against a new version' };
+    }
+
+    // Point the paper at the latest PDF before analyzing it
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: { filePath: arxivPdfUrl(paperId, paper.arxivVersion) },
+    });
+
+    const result = await requestAnalysis(paperId, 'new_version');
+    if (result.success) {
+        await markVersionSeenAction(paperId);
+    }
+    return result;
+}
+
+export async function markVersionSeenAction(paperId: string): Promise<void> {
+    const user = await getCurrentUser();
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } });
+    if (!paper) return;
+
+    // Nothing to mark for a paper the user hasn't saved
+    await prisma.savedPaper.updateMany({
+        where: { userId: user.id, paperId },
+        data: { seenVersion: paper.arxivVersion },
+    });
+}
+
+export async function checkPaperUpdatesAction(): Promise<{ success: boolean; updated: string[]; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        const savedPapers = await prisma.savedPaper.findMany({
+            where: { userId: user.id },
+            select: { paperId: true },
         });
+        const result = await checkForNewVersions(savedPapers.map((entry: { paperId: string }) => entry.paperId));
+        return { success: true, updated: result.updated };
+    } catch (error) {
+        console.error('Error checking for new versions:', error);
+        return { success: false, updated: [], error: (error as Error).message };
+    }
+}
+
+export async function getPaperVersionsAction(paperId: string) {
+    return await prisma.paperVersion.findMany({
+        where: { paperId },
+        orderBy: { version: 'desc' },
+    });
+}
+
+export async function getAnalysisRevisionsAction(paperId: string): Promise<{ revisions: AnalysisRevisionEntry[]; pinned: boolean }> {
+    await getCurrentUser();
+    return getAnalysisRevisions(paperId);
+}
 
+async function hasSaved(userId: string, paperId: string): Promise<boolean> {
+    return !!await prisma.savedPaper.findUnique({ where: { userId_paperId: { userId, paperId } } });
+}
+
+// Papers are shared by everyone who saved them; only they can change the summary or correct fields
+async function changeSharedPaper(paperId: string, change: () => Promise<void>): Promise<{ success: boolean; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        if (!await hasSaved(user.id, paperId)) return { success: false, error: 'Save the paper to your library first' };
+        await change();
+        // Edits and reverts can change the summary or title the paper is found by
+        after(() => refreshEmbeddings([paperId]));
         return { success: true };
     } catch (error) {
-        console.error('Error regenerating summary:', error);
+        if (error instanceof FieldEditError) return { success: false, error: error.message };
+        console.error('Error updating paper:', error);
         return { success: false, error: (error as Error).message };
     }
 }
 
+export async function revertAnalysisAction(paperId: string, revisionId: string) {
+    return changeSharedPaper(paperId, () => setCurrentRevision(paperId, revisionId, { pinned: false }));
+}
+
+export async function pinAnalysisAction(paperId: string, revisionId: string) {
+    return changeSharedPaper(paperId, () => setCurrentRevision(paperId, revisionId, { pinned: true }));
+}
+
+export async function unpinAnalysisAction(paperId: string) {
+    return changeSharedPaper(paperId, () => unpinAnalysis(paperId));
+}
+
+export async function editPaperFieldsAction(paperId: string, edits: EditableValues) {
+    return changeSharedPaper(paperId, () => editPaperFields(paperId, edits));
+}
+
+export async function reviewSuggestionAction(paperId: string, field: EditableField, accept: boolean) {
+    return changeSharedPaper(paperId, () => reviewSuggestion(paperId, field, accept));
+}
+
+export async function unlockFieldAction(paperId: string, field: EditableField) {
+    return changeSharedPaper(paperId, () => unlockField(paperId, field));
+}
+
+export async function getSummaryLanguageAction(): Promise<SummaryLanguage> {
+    const user = await getCurrentUser();
+    return summaryLanguageOf(user);
+}
+
+export async function setSummaryLanguageAction(language: string): Promise<{ success: boolean; error?: string }> {
+    if (!isSummaryLanguage(language)) return { success: false, error: `Unsupported language "${language}"` };
+    const user = await getCurrentUser();
+    await prisma.user.update({ where: { id: user.id }, data: { summaryLanguage: language === SOURCE_LANGUAGE ? null : language } });
+    if (language === SOURCE_LANGUAGE) return { success: true };
+
+    // Translate the topics and the library in the background; the Library picks them up as they finish
+    const savedPapers: { paperId: string }[] = await prisma.savedPaper.findMany({ where: { userId: user.id }, select: { paperId: true } });
+    after(async () => {
+        try {
+            await translateTopics(language);
+        } catch (error) {
+            console.error(`Translating topics into ${language} failed:`, error);
+        }
+        await translateForUser(user.id, savedPapers.map(saved => saved.paperId));
+    });
+    return { success: true };
+}
+
+export async function getPaperTranslationsAction(paperId: string): Promise<PaperTranslationEntry[]> {
+    await getCurrentUser();
+    return getPaperTranslations(paperId);
+}
+
+export async function getTopicTranslationsAction(language: string): Promise<Record<string, string>> {
+    await getCurrentUser();
+    return isSummaryLanguage(language) ? getTopicTranslations(language) : {};
+}
+
+// Translations don't change the paper itself, so anyone who can read it can ask for one
+export async function translatePaperAction(paperId: string, language: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        await getCurrentUser();
+        await translatePaper(paperId, language);
+        if (isSummaryLanguage(language)) await translateTopics(language);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof TranslationError) return { success: false, error: error.message };
+        console.error('Error translating paper:', error);
+        return { success: false, error: 'Failed to translate the analysis' };
+    }
+}
+
 export async function getSavedPapersAction() {
     const user = await getCurrentUser();
     const savedPapers = await prisma.savedPaper.findMany({
         where: { userId: user.id },
         include: {
             paper: {
-                include: { topics: true },
+                include: {
+                    topics: true,
+                    analysisJobs: { orderBy: { createdAt: 'desc' }, take: 1 },
+                },
             },
         },
         orderBy: { savedAt: 'desc' },
     });
 
+    // Summaries and topic names in the user's language, where they have been translated
+    const language = summaryLanguageOf(user);
+    const translatedSummaries = await getTranslatedSummaries(savedPapers.map((entry: { paperId: string }) => entry.paperId), language);
+    const topicNames = await getTopicTranslations(language);
+
     return savedPapers.map(entry => {
-        const p = entry.paper;
+        const { analysisJobs, ...p } = entry.paper;
+        const latestJob = analysisJobs[0];
         return {
             ...p,
             authors: JSON.parse(p.authors),
@@ -288,75 +548,385 @@ export async function getSavedPapersAction() {
             link: p.url || '',
             pdfLink: p.filePath || '',
             institution: p.institution,
+            ...decodePaperMetadata(p),
+            topics: p.topics.map((topic: { id: string; name: string }) => ({ ...topic, translatedName: topicNames[topic.id] ?? null })),
+            translatedSummary: translatedSummaries.get(p.id) ?? null,
             isRead: entry.isRead,
             isStarred: entry.isStarred,
+            // Papers saved before version tracking have no seenVersion; treat what was analyzed as seen
+            hasNewVersion: (p.arxivVersion ?? 0) > (entry.seenVersion ?? p.analyzedVersion ?? p.arxivVersion ?? 0),
+            analysisJob: latestJob
+                ? { status: latestJob.status, attempts: latestJob.attempts, lastError: latestJob.lastError }
+                : null,
         };
     });
 }
 
-export async function suggestTopicsAction(text: string): Promise<string[]> {
-    if (!process.env.GEMINI_API_KEY) return [];
+export async function getPaperChatAction(paperId: string): Promise<ChatMessage[]> {
+    const user = await getCurrentUser();
+    return getPaperChat(user.id, paperId);
+}
+
+export async function askPaperAction(paperId: string, question: string): Promise<{ success: boolean; messages?: ChatMessage[]; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        return { success: true, messages: await askPaper(user.id, paperId, question) };
+    } catch (error) {
+        if (error instanceof PaperChatError) return { success: false, error: error.message };
+        console.error('Error answering question about paper:', error);
+        return { success: false, error: 'Failed to answer the question' };
+    }
+}
+
+export async function clearPaperChatAction(paperId: string): Promise<void> {
+    const user = await getCurrentUser();
+    await clearPaperChat(user.id, paperId);
+}
+
+export async function listLibraryChatsAction(): Promise<LibraryChatSummary[]> {
+    const user = await getCurrentUser();
+    return listLibraryChats(user.id);
+}
+
+export async function getLibraryChatAction(chatId: string): Promise<{ chat: LibraryChatSummary; messages: LibraryChatMessage[] } | null> {
+    const user = await getCurrentUser();
     try {
-        const model = genAI.getGenerativeModel({ model: "gemini-flash-latest" });
-        const allowedTopics = [
-            "Distributed Machine Learning",
-            "Model Performance Optimization",
-            "Personalized Advertising",
-            "Recommendation System",
-            "Generative Recommendation",
-            "Reinforcement Learning",
-            "Agent",
-            "Large Language Models",
-            "Model Architecture"
-        ];
+        return await getLibraryChat(user.id, chatId);
+    } catch (error) {
+        if (error instanceof LibraryChatError) return null;
+        throw error;
+    }
+}
+
+export async function askLibraryAction(
+    target: { chatId: string } | { scope: LibraryChatScope },
+    question: string
+): Promise<{ success: boolean; chat?: LibraryChatSummary; messages?: LibraryChatMessage[]; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        return { success: true, ...await askLibrary(user.id, target, question) };
+    } catch (error) {
+        if (error instanceof LibraryChatError) return { success: false, error: error.message };
+        console.error('Error answering question about library:', error);
+        return { success: false, error: 'Failed to answer the question' };
+    }
+}
+
+export async function deleteLibraryChatAction(chatId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        await deleteLibraryChat(user.id, chatId);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof LibraryChatError) return { success: false, error: error.message };
+        throw error;
+    }
+}
+
+export async function rebuildClustersAction(): Promise<{ success: boolean; error?: string }> {
+    const user = await getCurrentUser();
+    try {
+        await rebuildClusters(user.id);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof ClusteringError) return { success: false, error: error.message };
+        console.error('Clustering failed:', error);
+        return { success: false, error: 'Failed to cluster the library' };
+    }
+}
+
+export async function getResearchMapAction(): Promise<ResearchMap> {
+    const user = await getCurrentUser();
+    return getResearchMap(user.id);
+}
+
+export async function listCollectionsAction(): Promise<PaperCollection[]> {
+    const user = await getCurrentUser();
+    return listCollections(user.id);
+}
+
+export async function createCollectionAction(name: string, paperIds: string[]): Promise<{ success: boolean; collection?: PaperCollection; error?: string }> {
+    const user = await getCurrentUser();
+    try {
+        return { success: true, collection: await createCollection(user.id, name, paperIds) };
+    } catch (error) {
+        if (error instanceof CollectionError) return { success: false, error: error.message };
+        throw error;
+    }
+}
+
+export async function deleteCollectionAction(collectionId: string): Promise<{ success: boolean; error?: string }> {
+    const user = await getCurrentUser();
+    try {
+        await deleteCollection(user.id, collectionId);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof CollectionError) return { success: false, error: error.message };
+        throw error;
+    }
+}
+
+// Duplicates in the shared catalog of papers in the user's library
+export async function findDuplicatesAction(): Promise<DuplicateGroup[]> {
+    const user = await getCurrentUser();
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({ where: { userId: user.id }, select: { paperId: true } });
+    return findDuplicatesOf(saved.map(entry => entry.paperId));
+}
+
+// Like changeSharedPaper: only someone who saved the paper to keep may merge others into it
+export async function mergeDuplicatesAction(keepId: string, duplicateIds: string[]): Promise<{ success: boolean; error?: string }> {
+    const user = await getCurrentUser();
+    const saved = await prisma.savedPaper.findUnique({ where: { userId_paperId: { userId: user.id, paperId: keepId } } });
+    if (!saved) return { success: false, error: 'Save the paper to keep to your library first' };
+    try {
+        await mergeDuplicates(keepId, duplicateIds);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof DuplicateError) return { success: false, error: error.message };
+        console.error('Merging duplicates failed:', error);
+        return { success: false, error: 'Failed to merge the papers' };
+    }
+}
+
+export async function getPaperReferencesAction(paperId: string) {
+    const user = await getCurrentUser();
+    const references = await getReferences(paperId);
+    const citingIds = await getCitingPaperIds(paperId);
+
+    const linkedIds = [...references.flatMap(ref => ref.paperId ? [ref.paperId] : []), ...citingIds];
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({
+        where: { userId: user.id, paperId: { in: linkedIds } },
+        select: { paperId: true },
+    });
+    const savedIds = new Set(saved.map(entry => entry.paperId));
+
+    const citing: { id: string; title: string; publishedDate: Date | null }[] = await prisma.paper.findMany({
+        where: { id: { in: citingIds } },
+        select: { id: true, title: true, publishedDate: true },
+        orderBy: { publishedDate: 'desc' },
+    });
+
+    return {
+        references: references.map(ref => ({ ...ref, isSaved: !!ref.paperId && savedIds.has(ref.paperId) })),
+        citedBy: citing.map(paper => ({
+            id: paper.id,
+            title: paper.title,
+            published: paper.publishedDate?.toISOString() || '',
+            isSaved: savedIds.has(paper.id),
+        })),
+    };
+}
+
+// Saves a paper known only by ID: arXiv papers with fresh metadata, others from the catalog
+async function savePaperById(paperId: string): Promise<{ success: boolean; paperId?: string; error?: string }> {
+    if (parseArxivId(paperId)) {
+        const paper = await getArxivPaperById(paperId);
+        if (!paper) return { success: false, error: `arXiv has no paper ${paperId}` };
+        await savePaperAction(paper);
+        return { success: true, paperId };
+    }
+
+    const user = await getCurrentUser();
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } });
+    if (!paper) return { success: false, error: 'Paper not found' };
+    await prisma.savedPaper.upsert({
+        where: { userId_paperId: { userId: user.id, paperId } },
+        update: {},
+        create: { userId: user.id, paperId, seenVersion: paper.arxivVersion },
+    });
+    if (paper.filePath && !hasCurrentAnalysis(paper)) {
+        await enqueueAnalysis(paperId, { trigger: 'save', requestedBy: user.id });
+        scheduleAnalysisJobs();
+    }
+    return { success: true, paperId };
+}
+
+export async function saveReferenceAction(referenceId: string): Promise<{ success: boolean; paperId?: string; error?: string }> {
+    try {
+        const reference = await prisma.reference.findUnique({ where: { id: referenceId } });
+        const paperId: string | null = reference?.targetPaperId ?? reference?.arxivId ?? null;
+        if (!paperId) return { success: false, error: 'This reference could not be matched to a paper' };
+        return await savePaperById(paperId);
+    } catch (error) {
+        console.error('Error saving reference:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+export async function savePaperByIdAction(paperId: string): Promise<{ success: boolean; paperId?: string; error?: string }> {
+    try {
+        return await savePaperById(paperId);
+    } catch (error) {
+        console.error('Error saving paper:', error);
+        return { success: false, error: (error as Error).message };
+    }
+}
+
+export async function getCitationGraphAction(): Promise<CitationGraph> {
+    const user = await getCurrentUser();
+    return await getCitationGraph(user.id);
+}
+
+export async function getCitationNeighborhoodAction(paperId: string): Promise<CitationGraph> {
+    const user = await getCurrentUser();
+    return await getCitationNeighborhood(user.id, paperId);
+}
+
+export async function suggestTopicsAction(paperId: string): Promise<string[]> {
+    if (!isLlmConfigured('topics')) return [];
+    try {
+        // The extracted paper when we have it; otherwise what the catalog knows
+        const content = await getPaperContent(paperId);
+        const paper = await prisma.paper.findUnique({ where: { id: paperId } });
+        if (!paper) return [];
+        const text = content
+            ? paperDigest({ ...content, title: paper.title })
+            : [paper.title, paper.abstract, paper.summary].filter(Boolean).join('\n\n');
+
+        const topics = await getTaxonomy();
+        if (topics.length === 0) return [];
+
         const prompt = `Analyze the following research paper text and select exactly 3 most relevant topics from the provided list.
         
         Allowed Topics:
-        ${allowedTopics.map(t => `- ${t}`).join('\n')}
+        ${formatTopicsForPrompt(topics)}
         
-        Return ONLY a JSON array of strings containing the selected topics, e.g., ["Agent", "Large Language Models", "Reinforcement Learning"].
+        Return ONLY a JSON object whose "topics" array holds the selected topics, e.g., {"topics": ["Agent", "Large Language Models", "Reinforcement Learning"]}.
         If no topics strongly match, choose the closest ones from the list.
         
-        Text: ${text.substring(0, 5000)}`;
+        Text: ${text}`;
 
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        const jsonString = response.text().replace(/```json|```/g, '').trim();
-        return JSON.parse(jsonString);
+        const schema: JsonSchema = {
+            type: 'object',
+            properties: {
+                topics: { type: 'array', items: { type: 'string', enum: topics.map(topic => topic.name) }, minItems: 1, maxItems: 3 },
+            },
+            required: ['topics'],
+        };
+        const { data } = await generateStructured<{ topics: string[] }>('topics', {
+            parts: [{ type: 'text', text: prompt }],
+        }, schema);
+        return data.topics;
     } catch (error) {
         console.error('Error suggesting topics:', error);
         return [];
     }
 }
 
-export async function addTopicToPaperAction(paperId: string, topicName: string) {
-    const topic = await prisma.topic.upsert({
-        where: { name: topicName },
-        update: {},
-        create: { name: topicName },
-    });
+export async function addTopicToPaperAction(paperId: string, topicName: string): Promise<{ success: boolean; error?: string }> {
+    // Papers can only be tagged with topics from the taxonomy (by name or alias)
+    const topic = await resolveTopic(topicName);
+    if (!topic || topic.archived) {
+        return { success: false, error: `"${topicName}" is not an active topic. Add it on the Topics page first.` };
+    }
 
-    await prisma.paper.update({
-        where: { id: paperId },
-        data: {
-            topics: {
-                connect: { id: topic.id },
+    return changeSharedPaper(paperId, async () => {
+        await prisma.paper.update({
+            where: { id: paperId },
+            data: {
+                topics: {
+                    connect: { id: topic.id },
+                },
             },
-        },
+        });
+        // Hand-picked topics survive re-analysis
+        await lockField(paperId, 'topics');
     });
 }
 
-export async function removeTopicFromPaperAction(paperId: string, topicId: string) {
-    await prisma.paper.update({
-        where: { id: paperId },
-        data: {
-            topics: {
-                disconnect: { id: topicId },
+export async function removeTopicFromPaperAction(paperId: string, topicId: string): Promise<{ success: boolean; error?: string }> {
+    return changeSharedPaper(paperId, async () => {
+        await prisma.paper.update({
+            where: { id: paperId },
+            data: {
+                topics: {
+                    disconnect: { id: topicId },
+                },
             },
-        },
+        });
+        await lockField(paperId, 'topics');
     });
 }
 
+export async function getTaxonomyAction(): Promise<TaxonomyTopic[]> {
+    await getCurrentUser();
+    return await getTaxonomy({ includeArchived: true });
+}
+
+// Runs a taxonomy change for a curator and records it, turning validation failures into an error message for the UI
+async function taxonomyChange(
+    action: TopicChangeAction,
+    topicId: string | null,
+    detail: object,
+    change: () => Promise<void>
+): Promise<{ success: boolean; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        if (!isTaxonomyCurator(user.email)) return { success: false, error: 'Only taxonomy curators can change topics' };
+        await change();
+        await recordTopicChange(user.id, action, topicId, detail);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof TaxonomyError) return { success: false, error: error.message };
+        if ((error as { code?: string }).code === 'P2002') return { success: false, error: 'That name is already taken' };
+        console.error('Error updating taxonomy:', error);
+        return { success: false, error: 'Failed to update the taxonomy' };
+    }
+}
+
+export async function createTopicAction(input: { name: string; description?: string; parentId?: string | null }) {
+    return taxonomyChange('create', null, input, () => createTopic(input));
+}
+
+export async function updateTopicAction(topicId: string, input: { name?: string; description?: string | null; parentId?: string | null }) {
+    return taxonomyChange('update', topicId, input, () => updateTopic(topicId, input));
+}
+
+export async function archiveTopicAction(topicId: string, archived: boolean) {
+    return taxonomyChange(archived ? 'archive' : 'restore', topicId, {}, () => setTopicArchived(topicId, archived));
+}
+
+export async function addTopicAliasAction(topicId: string, alias: string) {
+    return taxonomyChange('add_alias', topicId, { alias }, () => addTopicAlias(topicId, alias));
+}
+
+export async function removeTopicAliasAction(topicId: string, alias: string) {
+    return taxonomyChange('remove_alias', topicId, { alias }, () => removeTopicAlias(topicId, alias));
+}
+
+export async function mergeTopicsAction(sourceId: string, targetId: string) {
+    return taxonomyChange('merge', targetId, { sourceId }, () => mergeTopics(sourceId, targetId));
+}
+
+export async function listPromptTemplatesAction(): Promise<PromptTemplate[]> {
+    const user = await getCurrentUser();
+    return listPromptTemplates(user.id);
+}
+
+async function templateChange(change: (userId: string) => Promise<void>): Promise<{ success: boolean; error?: string }> {
+    try {
+        const user = await getCurrentUser();
+        await change(user.id);
+        return { success: true };
+    } catch (error) {
+        if (error instanceof PromptTemplateError) return { success: false, error: error.message };
+        console.error('Error updating prompt template:', error);
+        return { success: false, error: 'Failed to update the template' };
+    }
+}
+
+export async function createPromptTemplateAction(input: PromptTemplateInput) {
+    return templateChange(userId => createPromptTemplate(userId, input));
+}
+
+export async function updatePromptTemplateAction(templateId: string, input: PromptTemplateInput) {
+    return templateChange(userId => updatePromptTemplate(userId, templateId, input));
+}
+
+export async function deletePromptTemplateAction(templateId: string) {
+    return templateChange(userId => deletePromptTemplate(userId, templateId));
+}
+
 export async function deletePaperAction(paperId: string): Promise<void> {
     const user = await getCurrentUser();
     await prisma.savedPaper.delete({
@@ -367,9 +937,10 @@ export async function deletePaperAction(paperId: string): Promise<void> {
             },
         },
     });
+    await removeFromLibraryClusters(paperId, user.id);
 }
 
-export async function regenerateAllSummariesAction(): Promise<{ success: boolean; count: number; errors: number }> {
+export async function regenerateAllSummariesAction(templateId?: string): Promise<{ success: boolean; queued: number }> {
     try {
         const user = await getCurrentUser();
 
@@ -379,28 +950,14 @@ export async function regenerateAllSummariesAction(): Promise<{ success: boolean
             include: { paper: true },
         });
 
-        let successCount = 0;
-        let errorCount = 0;
-
-        // Process each paper sequentially to avoid overwhelming the API
-        for (const savedPaper of savedPapers) {
-            const result = await regenerateSummaryAction(savedPaper.paper.id);
-            if (result.success) {
-                successCount++;
-            } else {
-                errorCount++;
-                console.error(`Failed to regenerate summary for paper ${savedPaper.paper.id}:`, result.error);
-            }
-        }
-
-        return { success: true, count: successCount, errors: errorCount };
+        return { success: true, queued: await enqueueAnalyses(user.id, templateId, savedPapers.map((savedPaper: { paper: { id: string; filePath: string | null } }) => savedPaper.paper)) };
     } catch (error) {
         console.error('Error in bulk regeneration:', error);
-        return { success: false, count: 0, errors: 0 };
+        return { success: false, queued: 0 };
     }
 }
 
-export async function regenerateEmptySummariesAction(): Promise<{ success: boolean; count: number; errors: number }> {
+export async function regenerateEmptySummariesAction(templateId?: string): Promise<{ success: boolean; queued: number }> {
     try {
         const user = await getCurrentUser();
 
@@ -410,34 +967,35 @@ export async function regenerateEmptySummariesAction(): Promise<{ success: boole
             include: { paper: true },
         });
 
-        // Filter papers with empty or invalid summaries
-        const papersToRegenerate = savedPapers.filter(savedPaper => {
-            const summary = savedPaper.paper.summary;
-            return !summary ||
-                summary.trim() === '' ||
-                summary.startsWith('Error') ||
-                summary.startsWith('Failed');
-        });
-
-        let successCount = 0;
-        let errorCount = 0;
-
-        // Process each paper sequentially to avoid overwhelming the API
-        for (const savedPaper of papersToRegenerate) {
-            const result = await regenerateSummaryAction(savedPaper.paper.id);
-            if (result.success) {
-                successCount++;
-            } else {
-                errorCount++;
-                console.error(`Failed to regenerate summary for paper ${savedPaper.paper.id}:`, result.error);
-            }
-        }
+        // Papers that were never analyzed, or whose last analysis failed
+        const papersToRegenerate = savedPapers
+            .map((savedPaper: { paper: { id: string; filePath: string | null; summary: string | null; analysisStatus: string | null } }) => savedPaper.paper)
+            .filter((paper: { summary: string | null; analysisStatus: string | null }) =>
+                !paper.summary?.trim() || (paper.analysisStatus && paper.analysisStatus !== 'ok'));
 
-        return { success: true, count: successCount, errors: errorCount };
+        return { success: true, queued: await enqueueAnalyses(user.id, templateId, papersToRegenerate) };
     } catch (error) {
         console.error('Error in bulk regeneration:', error);
-        return { success: false, count: 0, errors: 0 };
+        return { success: false, queued: 0 };
+    }
+}
+
+// Jobs run in the background within the concurrency limit; papers already queued aren't queued twice,
+// and those being analyzed with another template are skipped
+async function enqueueAnalyses(userId: string, templateId: string | undefined, papers: { id: string; filePath: string | null }[]): Promise<number> {
+    if (templateId && !await getPromptTemplate(templateId, userId)) throw new Error('Prompt template not found');
+    let queued = 0;
+    for (const paper of papers.filter(entry => entry.filePath)) {
+        try {
+            // Papers already being analyzed aren't counted as queued by this request
+            const { created } = await enqueueAnalysis(paper.id, { trigger: 'bulk', requestedBy: userId, templateId });
+            if (created) queued++;
+        } catch (error) {
+            if (!(error instanceof AnalysisInProgressError)) throw error;
+        }
     }
+    scheduleAnalysisJobs();
+    return queued;
 }
 
 export async function toggleReadStatusAction(paperId: string): Promise<boolean> {
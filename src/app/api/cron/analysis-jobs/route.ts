@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { processAnalysisJobs } from '@/lib/analysisJobs';
+
+// Called by the scheduler (e.g. every few minutes) with `Authorization: Bearer $CRON_SECRET`.
+// Picks up jobs whose retry time has come and anything queued while no request was around to run it.
+export async function GET(request: Request) {
+    if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await processAnalysisJobs();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Processing analysis jobs failed:', error);
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { checkForNewVersions } from '@/lib/versions';
+
+// Called by the scheduler (e.g. a daily Vercel cron) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: Request) {
+    if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await checkForNewVersions();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Version check failed:', error);
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
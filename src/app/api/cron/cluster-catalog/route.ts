@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { ClusteringError, refreshCatalogClusters } from '@/lib/clustering';
+
+// Called by the scheduler (e.g. a daily Vercel cron) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: Request) {
+    if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const rebuilt = await refreshCatalogClusters();
+        return NextResponse.json({ rebuilt });
+    } catch (error) {
+        if (error instanceof ClusteringError) return NextResponse.json({ rebuilt: false, skipped: error.message });
+        console.error('Clustering the catalog failed:', error);
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { harvestCategories } from '@/lib/oai';
+
+// Each run is capped so it fits in a serverless invocation; the next run resumes from the saved token
+const MAX_PAGES_PER_RUN = Number(process.env.HARVEST_MAX_PAGES || 5);
+
+// Called by the scheduler (e.g. a daily Vercel cron) with `Authorization: Bearer $CRON_SECRET`
+export async function GET(request: Request) {
+    if (!process.env.CRON_SECRET || request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await harvestCategories(undefined, { maxPages: MAX_PAGES_PER_RUN });
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error('Harvest failed:', error);
+        return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+    }
+}
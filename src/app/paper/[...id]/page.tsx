@@ -0,0 +1,653 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getPaperByIdAction, analyzePaperFromUrlAction, savePaperAction, getPaperVersionsAction, getPaperReferencesAction, saveReferenceAction, editPaperFieldsAction, reviewSuggestionAction, unlockFieldAction, getSummaryLanguageAction, getPaperTranslationsAction, getTopicTranslationsAction, translatePaperAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, ExternalLink, FileText, Loader2, BookmarkPlus, Check, Languages } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { paperHref, paperIdFromRouteSegments } from '@/lib/arxivId';
+import { ExternalIds, SOURCE_LABELS, SourceId } from '@/lib/sources/types';
+import { ANALYSIS_FIELD_LABELS, StructuredAnalysis } from '@/lib/analysisFields';
+import { AnalysisHistory } from '@/components/AnalysisHistory';
+import { PaperChat } from '@/components/PaperChat';
+import { EditableText, FieldLockStatus } from '@/components/FieldEditor';
+import { EditableField, EditableValues } from '@/lib/fieldLocks';
+import { SOURCE_LANGUAGE, SUMMARY_LANGUAGES, SummaryLanguage } from '@/lib/languages';
+import type { PaperTranslationEntry } from '@/lib/translations';
+
+interface PaperData extends Partial<StructuredAnalysis> {
+    id: string;
+    title: string;
+    authors: string[];
+    abstract: string;
+    summary: string | null;
+    institution: string | null;
+    published: string;
+    link: string;
+    pdfLink?: string;
+    topics?: { id: string; name: string }[];
+    isSaved?: boolean;
+    version?: number;
+    updated?: string;
+    primaryCategory?: string | null;
+    categories?: string[];
+    comment?: string | null;
+    journalRef?: string | null;
+    doi?: string | null;
+    affiliations?: Record<string, string[]>;
+    source?: SourceId;
+    externalIds?: ExternalIds;
+    lockedFields?: EditableField[];
+    fieldSuggestions?: EditableValues;
+}
+
+interface PaperVersionData {
+    id: string;
+    version: number;
+    updatedDate: Date | null;
+    title: string;
+    abstract: string | null;
+    abstractChanged: boolean;
+}
+
+type PaperReferences = Awaited<ReturnType<typeof getPaperReferencesAction>>;
+
+export default function PaperDetailsPage({ params }: { params: Promise<{ id: string[] }> }) {
+    const router = useRouter();
+    // Old-style IDs like hep-th/9901001 arrive as two segments
+    const id = paperIdFromRouteSegments(use(params).id);
+    const [paper, setPaper] = useState<PaperData | null>(null);
+    const [aiSummary, setAiSummary] = useState<string>('');
+    const [loading, setLoading] = useState(true);
+    const [summaryLoading, setSummaryLoading] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string>('');
+    const [versions, setVersions] = useState<PaperVersionData[]>([]);
+    const [references, setReferences] = useState<PaperReferences>({ references: [], citedBy: [] });
+    const [savingReferenceId, setSavingReferenceId] = useState<string | null>(null);
+    const [language, setLanguage] = useState<SummaryLanguage>(SOURCE_LANGUAGE);
+    const [translations, setTranslations] = useState<PaperTranslationEntry[]>([]);
+    const [topicNames, setTopicNames] = useState<Record<string, string>>({});
+    const [translating, setTranslating] = useState(false);
+
+    useEffect(() => {
+        async function loadPaper() {
+            try {
+                const data = await getPaperByIdAction(id);
+                if (!data) {
+                    setError('Paper not found');
+                    setLoading(false);
+                    return;
+                }
+                setPaper(data);
+                setLoading(false);
+
+                if (data.isSaved) {
+                    setVersions(await getPaperVersionsAction(data.id));
+                }
+                setReferences(await getPaperReferencesAction(data.id));
+
+                // Show the analysis in the user's language when it has been translated
+                const preferred = await getSummaryLanguageAction();
+                setLanguage(preferred);
+                setTranslations(await getPaperTranslationsAction(data.id));
+                setTopicNames(await getTopicTranslationsAction(preferred));
+
+                // If we already have an AI summary, use it
+                // If we already have an AI summary, use it
+                if (data.summary) {
+                    setAiSummary(data.summary);
+                }
+            } catch (err) {
+                console.error('Error loading paper:', err);
+                setError('Failed to load paper');
+                setLoading(false);
+            }
+        }
+
+        loadPaper();
+    }, [id]);
+
+    const handleSave = async () => {
+        if (!paper) return;
+        setSaving(true);
+        try {
+            // Convert PaperData to ArxivPaper format
+            const arxivPaper = {
+                id: paper.id,
+                title: paper.title,
+                authors: paper.authors,
+                summary: paper.abstract || '', // Use abstract as summary for ArxivPaper
+                published: paper.published,
+                link: paper.link,
+                pdfLink: paper.pdfLink || '',
+                version: paper.version,
+                updated: paper.updated,
+                primaryCategory: paper.primaryCategory ?? undefined,
+                categories: paper.categories,
+                comment: paper.comment ?? undefined,
+                journalRef: paper.journalRef ?? undefined,
+                doi: paper.doi ?? undefined,
+                affiliations: paper.affiliations,
+                source: paper.source ?? 'arxiv',
+                externalIds: paper.externalIds,
+            };
+            await savePaperAction(arxivPaper);
+            setPaper(prev => prev ? { ...prev, isSaved: true } : null);
+            alert('Paper saved to library!');
+        } catch (err) {
+            console.error('Failed to save paper:', err);
+            alert('Failed to save paper');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // After edits, reverts and reviews that change what the paper shows
+    const reloadPaper = async () => {
+        const data = await getPaperByIdAction(id);
+        if (!data) return;
+        setPaper(data);
+        setAiSummary(data.summary ?? '');
+        setTranslations(await getPaperTranslationsAction(data.id));
+    };
+
+    const handleLanguageChange = async (newLanguage: SummaryLanguage) => {
+        setLanguage(newLanguage);
+        setTopicNames(await getTopicTranslationsAction(newLanguage));
+    };
+
+    const handleTranslate = async () => {
+        if (!paper) return;
+        setTranslating(true);
+        try {
+            const result = await translatePaperAction(paper.id, language);
+            if (!result.success) alert(result.error);
+            setTranslations(await getPaperTranslationsAction(paper.id));
+            setTopicNames(await getTopicTranslationsAction(language));
+        } finally {
+            setTranslating(false);
+        }
+    };
+
+    const handleEdit = async (edits: EditableValues): Promise<boolean> => {
+        if (!paper) return false;
+        const result = await editPaperFieldsAction(paper.id, edits);
+        if (!result.success) {
+            alert(result.error);
+            return false;
+        }
+        await reloadPaper();
+        return true;
+    };
+
+    const handleReview = async (field: EditableField, accept: boolean) => {
+        if (!paper) return;
+        const result = await reviewSuggestionAction(paper.id, field, accept);
+        if (!result.success) alert(result.error);
+        await reloadPaper();
+    };
+
+    const handleUnlock = async (field: EditableField) => {
+        if (!paper) return;
+        const result = await unlockFieldAction(paper.id, field);
+        if (!result.success) alert(result.error);
+        await reloadPaper();
+    };
+
+    // Shared by the editable fields; only users who saved the paper can edit it
+    const lockStatus = (field: EditableField) => (
+        <FieldLockStatus
+            field={field}
+            locked={!!paper?.lockedFields?.includes(field)}
+            suggestion={paper?.fieldSuggestions?.[field]}
+            onReview={handleReview}
+            onUnlock={handleUnlock}
+        />
+    );
+
+    const handleSaveReference = async (referenceId: string) => {
+        if (!paper) return;
+        setSavingReferenceId(referenceId);
+        try {
+            const result = await saveReferenceAction(referenceId);
+            if (!result.success) {
+                alert(result.error);
+                return;
+            }
+            setReferences(await getPaperReferencesAction(paper.id));
+        } finally {
+            setSavingReferenceId(null);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto p-6 max-w-4xl">
+                <div className="flex items-center justify-center min-h-[400px]">
+                    <Loader2 className="animate-spin h-8 w-8 text-gray-400" />
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !paper) {
+        return (
+            <div className="container mx-auto p-6 max-w-4xl">
+                <Button variant="ghost" onClick={() => router.back()} className="mb-4">
+                    <ArrowLeft className="mr-2 h-4 w-4" /> Back
+                </Button>
+                <div className="text-center py-12">
+                    <p className="text-red-500">{error || 'Paper not found'}</p>
+                </div>
+            </div>
+        );
+    }
+
+    // The analysis in the picked language, when it has been translated
+    const translation = language !== SOURCE_LANGUAGE ? translations.find(entry => entry.language === language) : undefined;
+    const analysisText = (field: 'problem' | 'method' | 'results' | 'limitations' | 'compute') =>
+        (field !== 'compute' && translation?.fields[field]) || paper[field];
+
+    return (
+        <div className="container mx-auto p-6 max-w-4xl">
+            <Button variant="ghost" onClick={() => router.back()} className="mb-6">
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+
+            <article className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8">
+                <header className="mb-6">
+                    <div className="mb-4">
+                        <EditableText value={paper.title} onSave={title => handleEdit({ title })} disabled={!paper.isSaved}>
+                            <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+                                {paper.title}
+                            </h1>
+                        </EditableText>
+                        {lockStatus('title')}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 mb-4 justify-start">
+                        <div className="flex flex-wrap gap-2 mb-4 justify-start">
+                            {paper.authors.map((author, i) => (
+                                <Badge
+                                    key={i}
+                                    variant="outline"
+                                    className="rounded-full px-3 py-1 bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200 border-transparent"
+                                    title={paper.affiliations?.[author]?.join('; ')}
+                                >
+                                    {author}
+                                    {paper.affiliations?.[author] && (
+                                        <span className="ml-1 font-normal text-gray-500">({paper.affiliations[author].join('; ')})</span>
+                                    )}
+                                </Badge>
+                            ))}
+                        </div>
+                    </div>
+
+                    {(paper.institution || paper.isSaved) && (
+                        <div className="mb-4 text-sm text-gray-600 dark:text-gray-400 font-medium">
+                            <EditableText
+                                value={paper.institution ?? ''}
+                                onSave={institution => handleEdit({ institution })}
+                                disabled={!paper.isSaved}
+                                placeholder="Institution"
+                            >
+                                From: {paper.institution || <span className="italic font-normal">unknown</span>}
+                            </EditableText>
+                            {lockStatus('institution')}
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-4 text-sm text-gray-500">
+                        <span>Published: {new Date(paper.published).toLocaleDateString()}</span>
+                        {paper.updated && paper.updated !== paper.published && (
+                            <span>Updated: {new Date(paper.updated).toLocaleDateString()}</span>
+                        )}
+                        {paper.version && <span>v{paper.version}</span>}
+                    </div>
+                </header>
+
+                {(paper.primaryCategory || paper.comment || paper.journalRef || paper.doi) && (
+                    <section className="mb-6">
+                        <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-2 text-sm">
+                            {paper.primaryCategory && (
+                                <>
+                                    <dt className="text-gray-500">Categories</dt>
+                                    <dd className="flex flex-wrap gap-1">
+                                        <Badge>{paper.primaryCategory}</Badge>
+                                        {paper.categories?.filter(c => c !== paper.primaryCategory).map(category => (
+                                            <Badge key={category} variant="outline">{category}</Badge>
+                                        ))}
+                                    </dd>
+                                </>
+                            )}
+                            {paper.comment && (
+                                <>
+                                    <dt className="text-gray-500">Comment</dt>
+                                    <dd className="text-gray-700 dark:text-gray-300">{paper.comment}</dd>
+                                </>
+                            )}
+                            {paper.journalRef && (
+                                <>
+                                    <dt className="text-gray-500">Journal ref</dt>
+                                    <dd className="text-gray-700 dark:text-gray-300">{paper.journalRef}</dd>
+                                </>
+                            )}
+                            {paper.doi && (
+                                <>
+                                    <dt className="text-gray-500">DOI</dt>
+                                    <dd>
+                                        <a href={`https://doi.org/${paper.doi}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                            {paper.doi}
+                                        </a>
+                                    </dd>
+                                </>
+                            )}
+                        </dl>
+                    </section>
+                )}
+
+                <section className="mb-6">
+                    <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                        Abstract
+                    </h2>
+                    <p className="text-gray-700 dark:text-gray-300 leading-relaxed">
+                        {paper.abstract || 'No abstract available'}
+                    </p>
+                </section>
+
+                <section className="mb-6">
+                    <div className="flex items-center justify-between gap-2 mb-3">
+                        <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+                            AI-Generated Summary
+                        </h2>
+                        <label className="flex items-center gap-1 text-sm text-gray-500" title="Language the analysis is shown in">
+                            <Languages className="h-4 w-4" />
+                            <select
+                                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                                value={language}
+                                onChange={(e) => handleLanguageChange(e.target.value as SummaryLanguage)}
+                            >
+                                {(Object.keys(SUMMARY_LANGUAGES) as SummaryLanguage[]).map(code => (
+                                    <option key={code} value={code}>
+                                        {SUMMARY_LANGUAGES[code].label}
+                                        {translations.some(entry => entry.language === code) ? ' ✓' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </label>
+                    </div>
+                    {language !== SOURCE_LANGUAGE && aiSummary && (
+                        <div className="flex flex-wrap items-center gap-2 mb-2 text-xs text-gray-500">
+                            {translation ? (
+                                <span>
+                                    Translated from English{translation.model ? ` by ${translation.model}` : ''}, {new Date(translation.updatedAt).toLocaleDateString()}.
+                                    {' '}Switch to English to edit.
+                                </span>
+                            ) : (
+                                <span>Not translated into {SUMMARY_LANGUAGES[language].label} yet.</span>
+                            )}
+                            {translation?.stale && (
+                                <Badge variant="outline" className="text-amber-600 border-amber-300">The analysis changed since</Badge>
+                            )}
+                            {(!translation || translation.stale) && (
+                                <Button variant="outline" size="sm" className="h-7" onClick={handleTranslate} disabled={translating}>
+                                    {translating ? <Loader2 className="animate-spin h-3 w-3 mr-1" /> : <Languages className="h-3 w-3 mr-1" />}
+                                    {translation ? 'Update translation' : 'Translate'}
+                                </Button>
+                            )}
+                        </div>
+                    )}
+                    {translation ? (
+                        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 prose dark:prose-invert max-w-none">
+                            <ReactMarkdown>{translation.summary}</ReactMarkdown>
+                        </div>
+                    ) : summaryLoading ? (
+                        <div className="flex items-center gap-2 text-gray-500">
+                            <Loader2 className="animate-spin h-4 w-4" />
+                            <span>Generating summary...</span>
+                        </div>
+                    ) : aiSummary || paper.isSaved ? (
+                        <EditableText value={aiSummary} onSave={summary => handleEdit({ summary })} multiline disabled={!paper.isSaved}>
+                            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4 prose dark:prose-invert max-w-none">
+                                <ReactMarkdown>{aiSummary || '_No summary yet_'}</ReactMarkdown>
+                            </div>
+                        </EditableText>
+                    ) : (
+                        <p className="text-gray-500">No PDF available for analysis</p>
+                    )}
+                    {lockStatus('summary')}
+                </section>
+
+                {(paper.problem || paper.method || paper.results) && (
+                    <section className="mb-6">
+                        <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                            Analysis
+                        </h2>
+                        <dl className="space-y-4 text-sm">
+                            {(['problem', 'method', 'results'] as const).map(field => paper[field] && (
+                                <div key={field}>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS[field]}</dt>
+                                    <dd className="text-gray-700 dark:text-gray-300 leading-relaxed">{analysisText(field)}</dd>
+                                </div>
+                            ))}
+                            {paper.datasets && paper.datasets.length > 0 && (
+                                <div>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS.datasets}</dt>
+                                    <dd className="flex flex-wrap gap-1 mt-1">
+                                        {paper.datasets.map(dataset => <Badge key={dataset} variant="secondary">{dataset}</Badge>)}
+                                    </dd>
+                                </div>
+                            )}
+                            {paper.metrics && paper.metrics.length > 0 && (
+                                <div>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS.metrics}</dt>
+                                    <dd>
+                                        <table className="mt-1 text-gray-700 dark:text-gray-300">
+                                            <tbody>
+                                                {paper.metrics.map((metric, i) => (
+                                                    <tr key={i}>
+                                                        <td className="pr-4">{metric.name}</td>
+                                                        <td className="pr-4 font-mono">{metric.value}</td>
+                                                        <td className="text-gray-500">{metric.dataset}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </dd>
+                                </div>
+                            )}
+                            {paper.baselines && paper.baselines.length > 0 && (
+                                <div>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS.baselines}</dt>
+                                    <dd className="flex flex-wrap gap-1 mt-1">
+                                        {paper.baselines.map(baseline => <Badge key={baseline} variant="outline">{baseline}</Badge>)}
+                                    </dd>
+                                </div>
+                            )}
+                            {(['limitations', 'compute'] as const).map(field => paper[field] && (
+                                <div key={field}>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS[field]}</dt>
+                                    <dd className="text-gray-700 dark:text-gray-300 leading-relaxed">{analysisText(field)}</dd>
+                                </div>
+                            ))}
+                            {paper.codeAvailable !== null && paper.codeAvailable !== undefined && (
+                                <div>
+                                    <dt className="font-medium text-gray-900 dark:text-white">{ANALYSIS_FIELD_LABELS.codeUrl}</dt>
+                                    <dd className="text-gray-700 dark:text-gray-300">
+                                        {paper.codeUrl ? (
+                                            <a href={paper.codeUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline inline-flex items-center gap-1">
+                                                {paper.codeUrl} <ExternalLink className="h-3 w-3" />
+                                            </a>
+                                        ) : paper.codeAvailable ? 'Available' : 'Not released'}
+                                    </dd>
+                                </div>
+                            )}
+                        </dl>
+                    </section>
+                )}
+
+                {paper.isSaved && <PaperChat paperId={paper.id} />}
+
+                <AnalysisHistory paperId={paper.id} canChange={!!paper.isSaved} onChange={reloadPaper} />
+
+                {versions.length > 1 && (
+                    <section className="mb-6">
+                        <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                            Version History
+                        </h2>
+                        <ul className="space-y-2">
+                            {versions.map(v => (
+                                <li key={v.id} className="text-sm">
+                                    <details>
+                                        <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+                                            <span className="font-medium">v{v.version}</span>
+                                            {v.updatedDate && (
+                                                <span className="ml-2 text-gray-500">{new Date(v.updatedDate).toLocaleDateString()}</span>
+                                            )}
+                                            {v.abstractChanged && (
+                                                <Badge variant="outline" className="ml-2 text-amber-600 border-amber-300">Abstract changed</Badge>
+                                            )}
+                                        </summary>
+                                        <p className="mt-2 pl-4 text-gray-600 dark:text-gray-400 leading-relaxed">
+                                            {v.abstract || 'No abstract recorded'}
+                                        </p>
+                                    </details>
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+
+                {((paper.topics && paper.topics.length > 0) || paper.isSaved) && (
+                    <section className="mb-6">
+                        <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                            Topics
+                        </h2>
+                        <EditableText
+                            value={paper.topics?.map(topic => topic.name).join(', ') ?? ''}
+                            onSave={names => handleEdit({ topics: names.split(',').map(name => name.trim()).filter(Boolean) })}
+                            disabled={!paper.isSaved}
+                            placeholder="Comma-separated topics"
+                        >
+                            <div className="flex flex-wrap gap-2">
+                                {paper.topics?.map(topic => (
+                                    <Badge key={topic.id} variant="outline" title={topicNames[topic.id] ? topic.name : undefined}>
+                                        {topicNames[topic.id] ?? topic.name}
+                                    </Badge>
+                                ))}
+                                {!paper.topics?.length && <span className="text-sm text-gray-500">No topics yet</span>}
+                            </div>
+                        </EditableText>
+                        {lockStatus('topics')}
+                    </section>
+                )}
+
+                {references.references.length > 0 && (
+                    <section className="mb-6">
+                        <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                            References ({references.references.length})
+                        </h2>
+                        <ol className="space-y-2 text-sm list-decimal pl-6">
+                            {references.references.map(ref => {
+                                const target = ref.paperId ?? ref.arxivId;
+                                return (
+                                    <li key={ref.id} className="text-gray-700 dark:text-gray-300">
+                                        <div className="flex items-start justify-between gap-3">
+                                            <div>
+                                                {target ? (
+                                                    <a href={paperHref(target)} className="font-medium text-blue-600 dark:text-blue-400 hover:underline">
+                                                        {ref.title}
+                                                    </a>
+                                                ) : (
+                                                    <span className="font-medium">{ref.title}</span>
+                                                )}
+                                                {ref.year && <span className="ml-2 text-gray-500">{ref.year}</span>}
+                                                <p className="text-xs text-gray-500 line-clamp-2" title={ref.raw}>{ref.raw}</p>
+                                            </div>
+                                            {ref.isSaved ? (
+                                                <Badge variant="secondary" className="shrink-0 gap-1"><Check className="h-3 w-3" /> Saved</Badge>
+                                            ) : target && (
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    className="h-7 shrink-0 gap-1"
+                                                    onClick={() => handleSaveReference(ref.id)}
+                                                    disabled={savingReferenceId === ref.id}
+                                                >
+                                                    {savingReferenceId === ref.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <BookmarkPlus className="h-3 w-3" />}
+                                                    Save
+                                                </Button>
+                                            )}
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ol>
+                    </section>
+                )}
+
+                {references.citedBy.length > 0 && (
+                    <section className="mb-6">
+                        <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                            Cited by (in our catalog)
+                        </h2>
+                        <ul className="space-y-1 text-sm">
+                            {references.citedBy.map(citing => (
+                                <li key={citing.id} className="flex items-center gap-2">
+                                    <a href={paperHref(citing.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                                        {citing.title}
+                                    </a>
+                                    {citing.published && <span className="text-gray-500">{new Date(citing.published).getFullYear()}</span>}
+                                    {citing.isSaved && <Badge variant="secondary">Saved</Badge>}
+                                </li>
+                            ))}
+                        </ul>
+                    </section>
+                )}
+
+                <footer className="flex gap-3 pt-6 border-t border-gray-200 dark:border-gray-700">
+                    {!paper.isSaved ? (
+                        <Button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="gap-2"
+                        >
+                            {saving ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                                <BookmarkPlus className="h-4 w-4" />
+                            )}
+                            {saving ? 'Saving...' : 'Save to Library'}
+                        </Button>
+                    ) : (
+                        <Button variant="secondary" disabled className="gap-2 opacity-100">
+                            <Check className="h-4 w-4" />
+                            Saved to Library
+                        </Button>
+                    )}
+
+                    {paper.link && (
+                        <Button variant="outline" asChild>
+                            <a href={paper.link} target="_blank" rel="noopener noreferrer" className="gap-2">
+                                <ExternalLink className="h-4 w-4" />
+                                View on {SOURCE_LABELS[paper.source ?? 'arxiv']}
+                            </a>
+                        </Button>
+                    )}
+
+                    {paper.pdfLink && (
+                        <Button variant="outline" asChild>
+                            <a href={paper.pdfLink} target="_blank" rel="noopener noreferrer" className="gap-2">
+                                <FileText className="h-4 w-4" />
+                                Download PDF
+                            </a>
+                        </Button>
+                    )}
+                </footer>
+            </article>
+        </div>
+    );
+}
@@ -0,0 +1,172 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+    listPromptTemplatesAction,
+    createPromptTemplateAction,
+    updatePromptTemplateAction,
+    deletePromptTemplateAction,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Loader2, Plus, Trash2, Users } from 'lucide-react';
+import type { PromptTemplate, PromptTemplateInput } from '@/lib/promptTemplates';
+
+type ActionResult = { success: boolean; error?: string };
+
+const VARIABLES_HELP = 'Use {{title}}, {{abstract}} and {{taxonomy}} to refer to the paper and our topics.';
+
+function TemplateForm({
+    initial,
+    submitLabel,
+    onSubmit,
+}: {
+    initial: PromptTemplateInput;
+    submitLabel: string;
+    onSubmit: (input: PromptTemplateInput) => Promise<boolean>;
+}) {
+    const [input, setInput] = useState(initial);
+
+    const dirty = input.name !== initial.name || (input.description ?? '') !== (initial.description ?? '')
+        || input.body !== initial.body || input.shared !== initial.shared;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await onSubmit(input) && !initial.name) setInput(initial);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+                <Input
+                    value={input.name}
+                    onChange={(e) => setInput(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="Name, e.g. What this means for ads ranking"
+                    className="max-w-xs font-medium"
+                />
+                <Input
+                    value={input.description ?? ''}
+                    onChange={(e) => setInput(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="Description"
+                    className="flex-1 min-w-[200px]"
+                />
+            </div>
+            <textarea
+                value={input.body}
+                onChange={(e) => setInput(prev => ({ ...prev, body: e.target.value }))}
+                placeholder={`How the summary should be written. ${VARIABLES_HELP}`}
+                rows={4}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+            />
+            <div className="flex items-center gap-4">
+                <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <input
+                        type="checkbox"
+                        checked={input.shared}
+                        onChange={(e) => setInput(prev => ({ ...prev, shared: e.target.checked }))}
+                    />
+                    Share with the team
+                </label>
+                <Button type="submit" size="sm" className="ml-auto" disabled={!dirty || !input.name.trim() || !input.body.trim()}>
+                    {submitLabel}
+                </Button>
+            </div>
+        </form>
+    );
+}
+
+function TemplateRow({ template, onChange }: { template: PromptTemplate; onChange: (action: () => Promise<ActionResult>) => Promise<boolean> }) {
+    return (
+        <li className="border rounded-lg p-4 bg-white dark:bg-gray-800">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+                {!template.editable && <span className="font-medium">{template.name}</span>}
+                {template.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                {template.shared && !template.builtIn && <Badge variant="outline" className="gap-1"><Users size={12} /> Team</Badge>}
+                {template.owner && !template.editable && <span className="text-xs text-gray-500">by {template.owner}</span>}
+                {template.version > 1 && <span className="text-xs text-gray-500">v{template.version}</span>}
+                {template.editable && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto text-red-500 hover:text-red-600 hover:bg-red-50"
+                        onClick={() => confirm(`Delete "${template.name}"?`) && onChange(() => deletePromptTemplateAction(template.id))}
+                        title="Delete"
+                    >
+                        <Trash2 size={14} />
+                    </Button>
+                )}
+            </div>
+            {template.editable ? (
+                <TemplateForm
+                    initial={{ name: template.name, description: template.description, body: template.body, shared: template.shared }}
+                    submitLabel="Save"
+                    onSubmit={(input) => onChange(() => updatePromptTemplateAction(template.id, input))}
+                />
+            ) : (
+                <>
+                    {template.description && <p className="text-sm text-gray-500 mb-1">{template.description}</p>}
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{template.body}</p>
+                </>
+            )}
+        </li>
+    );
+}
+
+export default function TemplatesPage() {
+    const router = useRouter();
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        // Load the templates on mount
+        const init = async () => {
+            setTemplates(await listPromptTemplatesAction());
+            setLoading(false);
+        };
+        init();
+    }, []);
+
+    const handleChange = async (action: () => Promise<ActionResult>): Promise<boolean> => {
+        const result = await action();
+        if (!result.success) alert(result.error);
+        setTemplates(await listPromptTemplatesAction());
+        return result.success;
+    };
+
+    return (
+        <div className="container mx-auto p-6 max-w-4xl">
+            <Button variant="ghost" onClick={() => router.push('/')} className="mb-6">
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Summary Templates</h1>
+            <p className="text-sm text-gray-500 mb-6">
+                Pick a template when regenerating summaries to change how they are written. {VARIABLES_HELP}
+            </p>
+
+            <div className="mb-8 p-4 border rounded-lg bg-white dark:bg-gray-800">
+                <h2 className="flex items-center gap-1 font-medium mb-2"><Plus size={16} /> New template</h2>
+                <TemplateForm
+                    initial={{ name: '', description: '', body: '', shared: false }}
+                    submitLabel="Add"
+                    onSubmit={(input) => handleChange(() => createPromptTemplateAction(input))}
+                />
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="animate-spin h-8 w-8 text-gray-400" />
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {templates.map(template => (
+                        // Keyed on the saved version so the form resets after a change
+                        <TemplateRow key={`${template.id}:${template.version}:${template.name}:${template.shared}`} template={template} onChange={handleChange} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+    getTaxonomyAction,
+    createTopicAction,
+    updateTopicAction,
+    archiveTopicAction,
+    addTopicAliasAction,
+    removeTopicAliasAction,
+    mergeTopicsAction,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Archive, ArchiveRestore, GitMerge, Loader2, Plus, X } from 'lucide-react';
+import type { TaxonomyTopic } from '@/lib/taxonomy';
+
+type ActionResult = { success: boolean; error?: string };
+
+// Depth-first order so children render under their parent
+function flattenTree(topics: TaxonomyTopic[]): { topic: TaxonomyTopic; depth: number }[] {
+    const ids = new Set(topics.map(t => t.id));
+    const childrenOf = (parentId: string | null) =>
+        topics.filter(t => (t.parentId && ids.has(t.parentId) ? t.parentId : null) === parentId);
+
+    const rows: { topic: TaxonomyTopic; depth: number }[] = [];
+    const visit = (parentId: string | null, depth: number) => {
+        for (const topic of childrenOf(parentId)) {
+            rows.push({ topic, depth });
+            visit(topic.id, depth + 1);
+        }
+    };
+    visit(null, 0);
+    return rows;
+}
+
+function TopicRow({
+    topic,
+    depth,
+    topics,
+    onChange,
+}: {
+    topic: TaxonomyTopic;
+    depth: number;
+    topics: TaxonomyTopic[];
+    onChange: (action: () => Promise<ActionResult>) => Promise<void>;
+}) {
+    const [name, setName] = useState(topic.name);
+    const [description, setDescription] = useState(topic.description ?? '');
+    const [alias, setAlias] = useState('');
+    const [mergeTarget, setMergeTarget] = useState('');
+
+    const dirty = name.trim() !== topic.name || description.trim() !== (topic.description ?? '');
+    const others = topics.filter(t => t.id !== topic.id);
+
+    const handleMerge = async () => {
+        const target = topics.find(t => t.id === mergeTarget);
+        if (!target) return;
+        if (!confirm(`Merge "${topic.name}" into "${target.name}"? Its ${topic.paperCount} paper(s) will be re-labelled and "${topic.name}" becomes an alias.`)) return;
+        await onChange(() => mergeTopicsAction(topic.id, target.id));
+        setMergeTarget('');
+    };
+
+    return (
+        <li
+            className={`border rounded-lg p-4 bg-white dark:bg-gray-800 ${topic.archived ? 'opacity-60' : ''}`}
+            style={{ marginLeft: depth * 24 }}
+        >
+            <div className="flex flex-wrap items-center gap-2">
+                <Input value={name} onChange={(e) => setName(e.target.value)} className="max-w-xs font-medium" />
+                <Badge variant="secondary">{topic.paperCount} paper{topic.paperCount === 1 ? '' : 's'}</Badge>
+                {topic.archived && <Badge variant="outline">Archived</Badge>}
+                <div className="ml-auto flex items-center gap-2">
+                    <select
+                        className="h-9 rounded-md border px-2 text-sm bg-transparent"
+                        value={topic.parentId ?? ''}
+                        onChange={(e) => onChange(() => updateTopicAction(topic.id, { parentId: e.target.value || null }))}
+                        title="Parent topic"
+                    >
+                        <option value="">No parent</option>
+                        {others.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onChange(() => archiveTopicAction(topic.id, !topic.archived))}
+                        title={topic.archived ? 'Restore' : 'Archive'}
+                    >
+                        {topic.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="mt-2 flex gap-2">
+                <Input
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Description (shown to the model)"
+                    className="text-sm"
+                />
+                {dirty && (
+                    <Button size="sm" onClick={() => onChange(() => updateTopicAction(topic.id, { name, description }))}>
+                        Save
+                    </Button>
+                )}
+            </div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-500">Aliases:</span>
+                {topic.aliases.map(a => (
+                    <Badge key={a} variant="outline" className="gap-1">
+                        {a}
+                        <button onClick={() => onChange(() => removeTopicAliasAction(topic.id, a))} title="Remove alias">
+                            <X size={12} />
+                        </button>
+                    </Badge>
+                ))}
+                <form
+                    className="flex items-center gap-1"
+                    onSubmit={async (e) => {
+                        e.preventDefault();
+                        if (!alias.trim()) return;
+                        await onChange(() => addTopicAliasAction(topic.id, alias));
+                        setAlias('');
+                    }}
+                >
+                    <Input value={alias} onChange={(e) => setAlias(e.target.value)} placeholder="Add alias" className="h-8 w-36 text-sm" />
+                </form>
+
+                <div className="ml-auto flex items-center gap-1">
+                    <select
+                        className="h-8 rounded-md border px-2 text-sm bg-transparent"
+                        value={mergeTarget}
+                        onChange={(e) => setMergeTarget(e.target.value)}
+                    >
+                        <option value="">Merge into…</option>
+                        {others.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                    </select>
+                    <Button variant="outline" size="sm" disabled={!mergeTarget} onClick={handleMerge}>
+                        <GitMerge size={14} />
+                    </Button>
+                </div>
+            </div>
+        </li>
+    );
+}
+
+export default function TopicsPage() {
+    const router = useRouter();
+    const [topics, setTopics] = useState<TaxonomyTopic[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [newName, setNewName] = useState('');
+    const [newDescription, setNewDescription] = useState('');
+    const [newParent, setNewParent] = useState('');
+
+    const refresh = async () => {
+        setTopics(await getTaxonomyAction());
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        // Load the taxonomy on mount
+        const init = async () => {
+            setTopics(await getTaxonomyAction());
+            setLoading(false);
+        };
+        init();
+    }, []);
+
+    const handleChange = async (action: () => Promise<ActionResult>) => {
+        const result = await action();
+        if (!result.success) alert(result.error);
+        await refresh();
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim()) return;
+        await handleChange(() => createTopicAction({ name: newName, description: newDescription, parentId: newParent || null }));
+        setNewName('');
+        setNewDescription('');
+        setNewParent('');
+    };
+
+    return (
+        <div className="container mx-auto p-6 max-w-4xl">
+            <Button variant="ghost" onClick={() => router.push('/')} className="mb-6">
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+            </Button>
+
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Topics</h1>
+            <p className="text-sm text-gray-500 mb-6">
+                Papers are labelled with active topics from this list. Renamed and merged topics keep their old names as aliases.
+            </p>
+
+            <form onSubmit={handleCreate} className="flex flex-wrap gap-2 mb-8 p-4 border rounded-lg bg-white dark:bg-gray-800">
+                <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New topic" className="max-w-xs" />
+                <Input value={newDescription} onChange={(e) => setNewDescription(e.target.value)} placeholder="Description" className="flex-1 min-w-[200px]" />
+                <select
+                    className="h-10 rounded-md border px-2 text-sm bg-transparent"
+                    value={newParent}
+                    onChange={(e) => setNewParent(e.target.value)}
+                >
+                    <option value="">No parent</option>
+                    {topics.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                <Button type="submit" disabled={!newName.trim()}>
+                    <Plus size={16} className="mr-1" /> Add
+                </Button>
+            </form>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="animate-spin h-8 w-8 text-gray-400" />
+                </div>
+            ) : (
+                <ul className="space-y-3">
+                    {flattenTree(topics).map(({ topic, depth }) => (
+                        // Keyed on the saved values so the inline edits reset after a change
+                        <TopicRow key={`${topic.id}:${topic.name}:${topic.description}`} topic={topic} depth={depth} topics={topics} onChange={handleChange} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2, Plus, X } from 'lucide-react';
+import {
+    ARXIV_FIELDS,
+    ArxivField,
+    ArxivOperator,
+    ArxivQuery,
+    ArxivQueryError,
+    QueryRow,
+    buildQueryFromRows,
+    compileArxivQuery,
+} from '@/lib/arxivQuery';
+
+interface AdvancedSearchPanelProps {
+    onSearch: (query: ArxivQuery) => void;
+    loading?: boolean;
+}
+
+const selectClassName = "h-9 px-2 bg-white dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-slate-950 dark:focus:ring-slate-300";
+
+const emptyRow = (): QueryRow => ({ operator: 'AND', field: 'all', value: '' });
+
+export function AdvancedSearchPanel({ onSearch, loading = false }: AdvancedSearchPanelProps) {
+    const [rows, setRows] = useState<QueryRow[]>([
+        { operator: 'AND', field: 'ti', value: '' },
+        { operator: 'AND', field: 'cat', value: '' },
+    ]);
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+
+    // Compile on every change so the user sees the exact arXiv syntax (or what's wrong with it)
+    const compiled = useMemo(() => {
+        try {
+            const query = buildQueryFromRows(rows, { from: dateFrom || undefined, to: dateTo || undefined });
+            return { query, text: compileArxivQuery(query), error: null };
+        } catch (error) {
+            if (error instanceof ArxivQueryError) {
+                return { query: null, text: '', error: error.message };
+            }
+            throw error;
+        }
+    }, [rows, dateFrom, dateTo]);
+
+    const updateRow = (index: number, patch: Partial<QueryRow>) => {
+        setRows(current => current.map((row, i) => i === index ? { ...row, ...patch } : row));
+    };
+
+    const removeRow = (index: number) => {
+        setRows(current => current.length > 1 ? current.filter((_, i) => i !== index) : [emptyRow()]);
+    };
+
+    const handleSubmit = () => {
+        if (compiled.query) onSearch(compiled.query);
+    };
+
+    return (
+        <div className="mb-8 bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+            {rows.map((row, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                    {index === 0 ? (
+                        <span className="w-24 text-xs text-gray-500 text-center">Where</span>
+                    ) : (
+                        <select
+                            className={`${selectClassName} w-24`}
+                            value={row.operator}
+                            onChange={(e) => updateRow(index, { operator: e.target.value as ArxivOperator })}
+                        >
+                            <option value="AND">AND</option>
+                            <option value="OR">OR</option>
+                            <option value="ANDNOT">AND NOT</option>
+                        </select>
+                    )}
+                    <select
+                        className={`${selectClassName} w-36`}
+                        value={row.field}
+                        onChange={(e) => updateRow(index, { field: e.target.value as ArxivField })}
+                    >
+                        {ARXIV_FIELDS.map(field => (
+                            <option key={field.value} value={field.value}>{field.label}</option>
+                        ))}
+                    </select>
+                    <Input
+                        className="flex-1"
+                        placeholder={ARXIV_FIELDS.find(f => f.value === row.field)?.placeholder}
+                        value={row.value}
+                        onChange={(e) => updateRow(index, { value: e.target.value })}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                    />
+                    <Button variant="ghost" size="icon" className="h-9 w-9 text-gray-400 hover:text-red-500" onClick={() => removeRow(index)}>
+                        <X size={16} />
+                    </Button>
+                </div>
+            ))}
+
+            <div className="flex flex-wrap gap-4 items-center">
+                <Button variant="outline" size="sm" onClick={() => setRows(current => [...current, emptyRow()])}>
+                    <Plus className="mr-1 h-4 w-4" /> Add term
+                </Button>
+                <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                    <span>Submitted</span>
+                    <Input type="date" className="w-40" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+                    <span>to</span>
+                    <Input type="date" className="w-40" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+                </div>
+                <Button className="ml-auto" onClick={handleSubmit} disabled={loading || !compiled.query}>
+                    {loading ? <Loader2 className="animate-spin" /> : 'Search'}
+                </Button>
+            </div>
+
+            <div className="text-xs font-mono break-all">
+                {compiled.error ? (
+                    <span className="text-gray-400">{compiled.error}</span>
+                ) : (
+                    <span className="text-gray-500">{compiled.text}</span>
+                )}
+            </div>
+        </div>
+    );
+}
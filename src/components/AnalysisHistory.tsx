@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { diffWords } from 'diff';
+import { Loader2, Pin, PinOff, RotateCcw } from 'lucide-react';
+import { getAnalysisRevisionsAction, pinAnalysisAction, revertAnalysisAction, unpinAnalysisAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ANALYSIS_FIELD_LABELS, StructuredAnalysis } from '@/lib/analysisFields';
+import type { AnalysisRevisionEntry } from '@/lib/analysisRevisions';
+
+const MODE_LABELS = { full_text: 'full text', section_notes: 'section notes', pdf: 'PDF file' };
+const TRIGGER_LABELS = { save: 'on save', regenerate: 'regenerated', bulk: 'bulk regeneration', new_version: 'new arXiv version' };
+
+// One line per field so structured fields can be compared as text
+function formatField(fields: StructuredAnalysis, field: keyof StructuredAnalysis): string {
+    const value = fields[field];
+    if (field === 'metrics') {
+        return fields.metrics.map(metric => `${metric.name}: ${metric.value}${metric.dataset ? ` (${metric.dataset})` : ''}`).join('; ');
+    }
+    if (Array.isArray(value)) return value.join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    return value ?? '';
+}
+
+function revisionLabel(revision: AnalysisRevisionEntry): string {
+    return `${new Date(revision.createdAt).toLocaleString()}${revision.model ? ` · ${revision.model}` : ''}`;
+}
+
+function RevisionDiff({ from, to }: { from: AnalysisRevisionEntry; to: AnalysisRevisionEntry }) {
+    const rows = [
+        { label: 'Institution', before: from.institution ?? '', after: to.institution ?? '' },
+        { label: 'Topics', before: from.topics.join(', '), after: to.topics.join(', ') },
+        ...(Object.keys(ANALYSIS_FIELD_LABELS) as (keyof StructuredAnalysis)[]).map(field => ({
+            label: ANALYSIS_FIELD_LABELS[field],
+            before: formatField(from.fields, field),
+            after: formatField(to.fields, field),
+        })),
+    ].filter(row => row.before !== row.after);
+
+    return (
+        <div className="space-y-3 text-sm">
+            <p className="leading-relaxed text-gray-700 dark:text-gray-300">
+                {diffWords(from.summary, to.summary).map((part, i) => (
+                    <span
+                        key={i}
+                        className={part.added
+                            ? 'bg-green-100 dark:bg-green-900/40'
+                            : part.removed ? 'bg-red-100 dark:bg-red-900/40 line-through' : undefined}
+                    >
+                        {part.value}
+                    </span>
+                ))}
+            </p>
+            {rows.length > 0 ? (
+                <dl className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1">
+                    {rows.map(row => (
+                        <React.Fragment key={row.label}>
+                            <dt className="text-gray-500">{row.label}</dt>
+                            <dd>
+                                {row.before && <span className="bg-red-100 dark:bg-red-900/40 line-through">{row.before}</span>}
+                                {row.before && row.after && ' → '}
+                                {row.after && <span className="bg-green-100 dark:bg-green-900/40">{row.after}</span>}
+                            </dd>
+                        </React.Fragment>
+                    ))}
+                </dl>
+            ) : (
+                <p className="text-gray-500">The other fields are the same.</p>
+            )}
+        </div>
+    );
+}
+
+interface AnalysisHistoryProps {
+    paperId: string;
+    canChange: boolean;         // Only users who saved the paper can revert or pin
+    onChange: () => void;       // The current analysis changed
+}
+
+export function AnalysisHistory({ paperId, canChange, onChange }: AnalysisHistoryProps) {
+    const [revisions, setRevisions] = useState<AnalysisRevisionEntry[]>([]);
+    const [pinned, setPinned] = useState(false);
+    const [compare, setCompare] = useState<{ from: string; to: string } | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    const loadRevisions = async () => {
+        const result = await getAnalysisRevisionsAction(paperId);
+        setRevisions(result.revisions);
+        setPinned(result.pinned);
+    };
+
+    useEffect(() => {
+        const init = async () => {
+            const result = await getAnalysisRevisionsAction(paperId);
+            setRevisions(result.revisions);
+            setPinned(result.pinned);
+        };
+        init();
+    }, [paperId]);
+
+    const handleChange = async (id: string, change: () => Promise<{ success: boolean; error?: string }>) => {
+        setBusyId(id);
+        try {
+            const result = await change();
+            if (!result.success) {
+                alert(result.error);
+                return;
+            }
+            await loadRevisions();
+            onChange();
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (revisions.length === 0) return null;
+
+    // Newest against the one before it unless the user picked others
+    const selected = compare ?? (revisions.length > 1 ? { from: revisions[1].id, to: revisions[0].id } : null);
+    const from = revisions.find(revision => revision.id === selected?.from);
+    const to = revisions.find(revision => revision.id === selected?.to);
+
+    return (
+        <section className="mb-6">
+            <h2 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
+                Summary History
+            </h2>
+            <ul className="space-y-2 text-sm">
+                {revisions.map(revision => (
+                    <li key={revision.id} className="flex items-start justify-between gap-3">
+                        <div className="text-gray-700 dark:text-gray-300">
+                            <span className="font-medium">{new Date(revision.createdAt).toLocaleString()}</span>
+                            {revision.current && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                            {revision.current && pinned && <Badge variant="outline" className="ml-2 gap-1"><Pin className="h-3 w-3" /> Pinned</Badge>}
+                            <div className="text-xs text-gray-500">
+                                {revision.provider
+                                    ? `${revision.provider}/${revision.model} · prompt ${revision.promptVersion}${revision.mode ? ` · ${MODE_LABELS[revision.mode]}` : ''}`
+                                    : 'Recorded before provenance was tracked'}
+                                {revision.templateName && ` · ${revision.templateName}${revision.templateVersion && revision.templateVersion > 1 ? ` (v${revision.templateVersion})` : ''}`}
+                                {revision.paperVersion && ` · v${revision.paperVersion}`}
+                                {revision.trigger && ` · ${TRIGGER_LABELS[revision.trigger]}`}
+                                {revision.triggeredBy && ` by ${revision.triggeredBy}`}
+                            </div>
+                        </div>
+                        {canChange && (
+                            <div className="flex shrink-0 gap-1">
+                                {!revision.current && (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 gap-1"
+                                        disabled={busyId !== null}
+                                        onClick={() => handleChange(revision.id, () => revertAnalysisAction(paperId, revision.id))}
+                                    >
+                                        {busyId === revision.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                                        Revert
+                                    </Button>
+                                )}
+                                {revision.current && pinned ? (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 gap-1"
+                                        disabled={busyId !== null}
+                                        onClick={() => handleChange(revision.id, () => unpinAnalysisAction(paperId))}
+                                    >
+                                        <PinOff className="h-3 w-3" /> Unpin
+                                    </Button>
+                                ) : (
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 gap-1"
+                                        title="Keep this summary when the paper is analyzed again"
+                                        disabled={busyId !== null}
+                                        onClick={() => handleChange(revision.id, () => pinAnalysisAction(paperId, revision.id))}
+                                    >
+                                        <Pin className="h-3 w-3" /> Pin
+                                    </Button>
+                                )}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {selected && from && to && (
+                <div className="mt-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                    <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+                        <span className="text-gray-500">Compare</span>
+                        <select
+                            className="border rounded px-2 py-1 bg-white dark:bg-gray-900"
+                            value={selected.from}
+                            onChange={e => setCompare({ ...selected, from: e.target.value })}
+                        >
+                            {revisions.map(revision => <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>)}
+                        </select>
+                        <span className="text-gray-500">with</span>
+                        <select
+                            className="border rounded px-2 py-1 bg-white dark:bg-gray-900"
+                            value={selected.to}
+                            onChange={e => setCompare({ ...selected, to: e.target.value })}
+                        >
+                            {revisions.map(revision => <option key={revision.id} value={revision.id}>{revisionLabel(revision)}</option>)}
+                        </select>
+                    </div>
+                    <RevisionDiff from={from} to={to} />
+                </div>
+            )}
+        </section>
+    );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { forceCenter, forceCollide, forceLink, forceManyBody, forceSimulation, SimulationLinkDatum, SimulationNodeDatum } from 'd3-force';
+import { BookmarkPlus, Check, ExternalLink, Loader2, Network } from 'lucide-react';
+import { getCitationGraphAction, getCitationNeighborhoodAction, savePaperByIdAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { MultiSelectFilter } from './FilterComponents';
+import type { CitationGraph as Graph, GraphEdge, GraphNode } from '@/lib/citationGraph';
+
+const TOPIC_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#ca8a04', '#4f46e5'];
+const WIDTH = 900;
+const HEIGHT = 600;
+
+interface LaidOutNode extends GraphNode, SimulationNodeDatum {
+    citedBy: number;
+}
+
+// Deterministic start positions keep the layout from jumping around between renders
+function seed(id: string): number {
+    let hash = 0;
+    for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    return (hash % 1000) / 1000;
+}
+
+function radius(node: LaidOutNode): number {
+    return 5 + 3 * Math.sqrt(node.citedBy);
+}
+
+function layout(nodes: LaidOutNode[], edges: GraphEdge[]): LaidOutNode[] {
+    nodes.forEach(node => {
+        node.x = WIDTH / 2 + (seed(node.id) - 0.5) * WIDTH;
+        node.y = HEIGHT / 2 + (seed(`${node.id}y`) - 0.5) * HEIGHT;
+    });
+    const links: SimulationLinkDatum<LaidOutNode>[] = edges.map(edge => ({ source: edge.source, target: edge.target }));
+    const simulation = forceSimulation(nodes)
+        .force('link', forceLink<LaidOutNode, SimulationLinkDatum<LaidOutNode>>(links).id(node => node.id).distance(60))
+        .force('charge', forceManyBody().strength(-80))
+        .force('center', forceCenter(WIDTH / 2, HEIGHT / 2))
+        .force('collide', forceCollide<LaidOutNode>(node => radius(node) + 2))
+        .stop();
+    for (let i = 0; i < 300; i++) simulation.tick();
+    return nodes;
+}
+
+function mergeGraphs(base: Graph, extra: Graph): Graph {
+    const nodes = new Map(base.nodes.map(node => [node.id, node]));
+    extra.nodes.forEach(node => { if (!nodes.has(node.id)) nodes.set(node.id, node); });
+    const edges = new Map(base.edges.map(edge => [`${edge.source}->${edge.target}`, edge]));
+    extra.edges.forEach(edge => edges.set(`${edge.source}->${edge.target}`, edge));
+    return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+interface CitationGraphProps {
+    onOpenPaper: (paperId: string) => void;
+    onLibraryChange?: () => void;
+}
+
+export function CitationGraph({ onOpenPaper, onLibraryChange }: CitationGraphProps) {
+    const [graph, setGraph] = useState<Graph>({ nodes: [], edges: [] });
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [expanding, setExpanding] = useState<string | null>(null);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [filters, setFilters] = useState({ topics: [] as string[], institutions: [] as string[], yearFrom: '', yearTo: '' });
+    const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+    const dragStart = useRef<{ x: number; y: number; viewX: number; viewY: number } | null>(null);
+
+    useEffect(() => {
+        // Load the graph on mount
+        const init = async () => {
+            try {
+                setGraph(await getCitationGraphAction());
+            } catch (error) {
+                console.error('Failed to load citation graph:', error);
+            } finally {
+                setLoading(false);
+            }
+        };
+        init();
+    }, []);
+
+    const topics = useMemo(() => Array.from(new Set(graph.nodes.flatMap(node => node.topics))).sort(), [graph]);
+    const institutions = useMemo(
+        () => Array.from(new Set(graph.nodes.flatMap(node => node.institution ? [node.institution] : []))).sort(),
+        [graph]
+    );
+
+    // Saved papers that pass the filters, plus whatever they are linked to
+    const visible = useMemo(() => {
+        const matches = (node: GraphNode) =>
+            (filters.topics.length === 0 || node.topics.some(topic => filters.topics.includes(topic)))
+            && (filters.institutions.length === 0 || (!!node.institution && filters.institutions.includes(node.institution)))
+            && (!filters.yearFrom || (node.year ?? 0) >= Number(filters.yearFrom))
+            && (!filters.yearTo || (node.year ?? Infinity) <= Number(filters.yearTo));
+
+        const anchors = new Set(graph.nodes.filter(node => node.saved && matches(node)).map(node => node.id));
+        const ids = new Set(anchors);
+        graph.edges.forEach(edge => {
+            if (anchors.has(edge.source)) ids.add(edge.target);
+            if (anchors.has(edge.target)) ids.add(edge.source);
+        });
+
+        const savedIds = new Set(graph.nodes.filter(node => node.saved).map(node => node.id));
+        const edges = graph.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+        // Size is the number of saved papers citing the node
+        const citedBy = new Map<string, number>();
+        graph.edges.forEach(edge => {
+            if (savedIds.has(edge.source)) citedBy.set(edge.target, (citedBy.get(edge.target) ?? 0) + 1);
+        });
+
+        const nodes = graph.nodes
+            .filter(node => ids.has(node.id))
+            .map(node => ({ ...node, citedBy: citedBy.get(node.id) ?? 0 }));
+        return { nodes: layout(nodes, edges), edges };
+    }, [graph, filters]);
+
+    const positions = useMemo(() => new Map(visible.nodes.map(node => [node.id, node])), [visible]);
+    const selected = selectedId ? positions.get(selectedId) : undefined;
+
+    const foundational = useMemo(
+        () => visible.nodes.filter(node => !node.saved && node.citedBy >= 2).sort((a, b) => b.citedBy - a.citedBy).slice(0, 10),
+        [visible]
+    );
+
+    const colorOf = (node: GraphNode) => {
+        if (!node.saved) return '#ffffff';
+        const index = node.topics.length > 0 ? topics.indexOf(node.topics[0]) : -1;
+        return index >= 0 ? TOPIC_COLORS[index % TOPIC_COLORS.length] : '#9ca3af';
+    };
+
+    const handleExpand = async (paperId: string) => {
+        setExpanding(paperId);
+        try {
+            const neighborhood = await getCitationNeighborhoodAction(paperId);
+            setGraph(current => mergeGraphs(current, neighborhood));
+        } catch (error) {
+            console.error('Failed to expand paper:', error);
+        } finally {
+            setExpanding(null);
+        }
+    };
+
+    const handleSave = async (paperId: string) => {
+        setSavingId(paperId);
+        try {
+            const result = await savePaperByIdAction(paperId);
+            if (!result.success) {
+                alert(result.error);
+                return;
+            }
+            setGraph(current => ({
+                ...current,
+                nodes: current.nodes.map(node => node.id === paperId ? { ...node, saved: true } : node),
+            }));
+            onLibraryChange?.();
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleWheel = (e: React.WheelEvent) => {
+        const k = Math.min(4, Math.max(0.25, view.k * (e.deltaY < 0 ? 1.1 : 0.9)));
+        setView(current => ({ ...current, k }));
+    };
+
+    if (loading) {
+        return (
+            <div className="flex justify-center py-12">
+                <Loader2 className="animate-spin h-8 w-8 text-gray-400" />
+            </div>
+        );
+    }
+
+    if (graph.edges.length === 0) {
+        return (
+            <div className="text-center text-gray-500 mt-12">
+                <Network className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+                <p>No citations yet. References are extracted when papers in your library are analyzed.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="w-48">
+                    <MultiSelectFilter
+                        options={topics}
+                        selected={filters.topics}
+                        onChange={(selected) => setFilters(prev => ({ ...prev, topics: selected }))}
+                        placeholder="Topics..."
+                        searchPlaceholder="Search topics..."
+                    />
+                </div>
+                <div className="w-48">
+                    <MultiSelectFilter
+                        options={institutions}
+                        selected={filters.institutions}
+                        onChange={(selected) => setFilters(prev => ({ ...prev, institutions: selected }))}
+                        placeholder="Institutions..."
+                        searchPlaceholder="Search institutions..."
+                    />
+                </div>
+                <Input
+                    type="number"
+                    placeholder="From year"
+                    value={filters.yearFrom}
+                    onChange={(e) => setFilters(prev => ({ ...prev, yearFrom: e.target.value }))}
+                    className="w-28 h-9"
+                />
+                <Input
+                    type="number"
+                    placeholder="To year"
+                    value={filters.yearTo}
+                    onChange={(e) => setFilters(prev => ({ ...prev, yearTo: e.target.value }))}
+                    className="w-28 h-9"
+                />
+                <span className="text-sm text-gray-500 ml-auto">
+                    {visible.nodes.length} papers, {visible.edges.length} citations
+                </span>
+            </div>
+
+            <div className="flex gap-4">
+                <div className="flex-1 bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+                    <svg
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        className="w-full h-[600px] cursor-grab"
+                        onWheel={handleWheel}
+                        onMouseDown={(e) => { dragStart.current = { x: e.clientX, y: e.clientY, viewX: view.x, viewY: view.y }; }}
+                        onMouseMove={(e) => {
+                            const start = dragStart.current;
+                            if (start) setView(current => ({ ...current, x: start.viewX + e.clientX - start.x, y: start.viewY + e.clientY - start.y }));
+                        }}
+                        onMouseUp={() => { dragStart.current = null; }}
+                        onMouseLeave={() => { dragStart.current = null; }}
+                    >
+                        <defs>
+                            <marker id="citation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+                                <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+                            </marker>
+                        </defs>
+                        <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+                            {visible.edges.map(edge => {
+                                const source = positions.get(edge.source);
+                                const target = positions.get(edge.target);
+                                if (!source || !target) return null;
+                                // Stop the arrow at the target's rim
+                                const dx = target.x! - source.x!;
+                                const dy = target.y! - source.y!;
+                                const length = Math.hypot(dx, dy) || 1;
+                                const inset = radius(target) / length;
+                                const highlighted = edge.source === selectedId || edge.target === selectedId;
+                                return (
+                                    <line
+                                        key={`${edge.source}->${edge.target}`}
+                                        x1={source.x}
+                                        y1={source.y}
+                                        x2={target.x! - dx * inset}
+                                        y2={target.y! - dy * inset}
+                                        stroke={highlighted ? '#2563eb' : '#d1d5db'}
+                                        strokeWidth={highlighted ? 1.5 : 0.75}
+                                        markerEnd="url(#citation-arrow)"
+                                    />
+                                );
+                            })}
+                            {visible.nodes.map(node => (
+                                <g
+                                    key={node.id}
+                                    transform={`translate(${node.x} ${node.y})`}
+                                    className="cursor-pointer"
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    onClick={() => setSelectedId(node.id)}
+                                >
+                                    <title>{`${node.title}${node.citedBy ? ` (cited by ${node.citedBy} saved)` : ''}`}</title>
+                                    <circle
+                                        r={radius(node)}
+                                        fill={colorOf(node)}
+                                        stroke={node.id === selectedId ? '#111827' : node.saved ? '#ffffff' : '#6b7280'}
+                                        strokeWidth={node.id === selectedId ? 2.5 : 1.5}
+                                        strokeDasharray={node.saved ? undefined : '3 2'}
+                                    />
+                                    {(node.citedBy >= 3 || node.id === selectedId) && (
+                                        <text y={radius(node) + 11} textAnchor="middle" className="text-[10px] fill-gray-700 dark:fill-gray-300 pointer-events-none">
+                                            {node.title.length > 40 ? `${node.title.slice(0, 40)}…` : node.title}
+                                        </text>
+                                    )}
+                                </g>
+                            ))}
+                        </g>
+                    </svg>
+                </div>
+
+                <div className="w-80 space-y-4">
+                    {selected ? (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+                            <h3 className="font-semibold text-gray-900 dark:text-white">{selected.title}</h3>
+                            <div className="text-sm text-gray-500 space-y-1">
+                                {selected.year && <div>{selected.year}</div>}
+                                {selected.institution && <div>{selected.institution}</div>}
+                                <div>Cited by {selected.citedBy} saved {selected.citedBy === 1 ? 'paper' : 'papers'}</div>
+                            </div>
+                            {selected.topics.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                    {selected.topics.map(topic => <Badge key={topic} variant="secondary">{topic}</Badge>)}
+                                </div>
+                            )}
+                            <div className="flex flex-wrap gap-2">
+                                {selected.canSave && (
+                                    <Button variant="outline" size="sm" onClick={() => onOpenPaper(selected.id)}>
+                                        <ExternalLink className="h-3 w-3 mr-1" /> Open
+                                    </Button>
+                                )}
+                                {!selected.id.startsWith('ref:') && (
+                                    <Button variant="outline" size="sm" onClick={() => handleExpand(selected.id)} disabled={expanding === selected.id}>
+                                        {expanding === selected.id ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Network className="h-3 w-3 mr-1" />}
+                                        Expand
+                                    </Button>
+                                )}
+                                {selected.saved ? (
+                                    <Badge variant="secondary" className="gap-1"><Check className="h-3 w-3" /> Saved</Badge>
+                                ) : selected.canSave && (
+                                    <Button size="sm" onClick={() => handleSave(selected.id)} disabled={savingId === selected.id}>
+                                        {savingId === selected.id ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <BookmarkPlus className="h-3 w-3 mr-1" />}
+                                        Save
+                                    </Button>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="text-sm text-gray-500">Click a paper to see details and expand its citations.</p>
+                    )}
+
+                    {foundational.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                            <h3 className="font-semibold text-gray-900 dark:text-white mb-2">Widely cited, not saved</h3>
+                            <ul className="space-y-2 text-sm">
+                                {foundational.map(node => (
+                                    <li key={node.id} className="flex items-start justify-between gap-2">
+                                        <button className="text-left hover:underline" onClick={() => setSelectedId(node.id)}>
+                                            {node.title}
+                                            <span className="ml-1 text-gray-500">({node.citedBy})</span>
+                                        </button>
+                                        {node.canSave && (
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                className="h-6 w-6 shrink-0"
+                                                onClick={() => handleSave(node.id)}
+                                                disabled={savingId === node.id}
+                                                title="Save to library"
+                                            >
+                                                {savingId === node.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <BookmarkPlus className="h-3 w-3" />}
+                                            </Button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -6,34 +6,78 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { PaperCard } from '@/components/PaperCard';
 import { LibraryTable } from '@/components/LibraryTable';
-import { searchPapersAction, getLatestPapersAction, savePaperAction, getSavedPapersAction, suggestTopicsAction, addTopicToPaperAction, deletePaperAction, regenerateSummaryAction, removeTopicFromPaperAction, regenerateAllSummariesAction, regenerateEmptySummariesAction, toggleReadStatusAction, toggleStarStatusAction } from '@/app/actions';
-import { Loader2, Search, Layers, Sparkles, Library, Tag } from 'lucide-react';
+import { AdvancedSearchPanel } from '@/components/AdvancedSearchPanel';
+import { CitationGraph } from '@/components/CitationGraph';
+import { LibraryChat } from '@/components/LibraryChat';
+import { SemanticSearch } from '@/components/SemanticSearch';
+import { ResearchMap } from '@/components/ResearchMap';
+import { DuplicatePapers } from '@/components/DuplicatePapers';
+import { searchPapersAction, getLatestPapersAction, savePaperAction, getSavedPapersAction, suggestTopicsAction, addTopicToPaperAction, deletePaperAction, regenerateSummaryAction, removeTopicFromPaperAction, regenerateAllSummariesAction, regenerateEmptySummariesAction, toggleReadStatusAction, toggleStarStatusAction, checkPaperUpdatesAction, reanalyzeLatestVersionAction, markVersionSeenAction, editPaperFieldsAction, reviewSuggestionAction, unlockFieldAction, listPromptTemplatesAction, getSummaryLanguageAction, setSummaryLanguageAction } from '@/app/actions';
+import { Loader2, Search, Layers, Sparkles, Library, Tag, SlidersHorizontal, Network, ScrollText, Languages, MessageSquare } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ArxivPaper } from '@/lib/arxiv';
-import { Badge } from '@/components/ui/badge';
+import { ArxivQuery, compileArxivQuery } from '@/lib/arxivQuery';
+import { paperHref, parseArxivId } from '@/lib/arxivId';
+import { SOURCE_IDS, SOURCE_LABELS, SourceId, SourcePaper } from '@/lib/sources/types';
+import { EditableField, EditableValues } from '@/lib/fieldLocks';
+import type { PromptTemplate } from '@/lib/promptTemplates';
+import type { SearchScope } from '@/lib/semanticSearch';
+import { SOURCE_LANGUAGE, SUMMARY_LANGUAGES, SummaryLanguage } from '@/lib/languages';
 import { UserButton } from "@clerk/nextjs";
 
 interface SavedPaper extends ArxivPaper {
-    topics?: { id: string; name: string }[];
+    topics?: { id: string; name: string; translatedName?: string | null }[];
+    aiSummary?: string | null;
+    translatedSummary?: string | null;
     isRead?: boolean;
     isStarred?: boolean;
+    arxivVersion?: number | null;
+    hasNewVersion?: boolean;
+    analysisStatus?: string | null;
+    analysisError?: string | null;
+    analysisJob?: { status: string; attempts: number; lastError: string | null } | null;
 }
 
+// Online sources, or the local library and catalog searched by meaning
+type SearchMode = 'online' | SearchScope;
+
+const SEARCH_MODES: SearchMode[] = ['online', 'library', 'catalog'];
+
+const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+    online: 'Online sources',
+    library: 'My library',
+    catalog: 'Library & catalog',
+};
+
 export default function Dashboard() {
     const router = useRouter();
     const [query, setQuery] = useState('');
-    const [papers, setPapers] = useState<ArxivPaper[]>([]);
+    const [papers, setPapers] = useState<SourcePaper[]>([]);
     const [recommendations, setRecommendations] = useState<ArxivPaper[]>([]);
+    const [recommendationsError, setRecommendationsError] = useState('');
     const [savedPapers, setSavedPapers] = useState<SavedPaper[]>([]);
     const [loading, setLoading] = useState(false);
     const [loadingMore, setLoadingMore] = useState(false);
     const [offset, setOffset] = useState(0);
     const [hasMore, setHasMore] = useState(true);
+    const [searchError, setSearchError] = useState('');
+    const [sourceErrors, setSourceErrors] = useState<Partial<Record<SourceId, string>>>({});
+    const [sources, setSources] = useState<SourceId[]>(['arxiv']);
     const [sortBy, setSortBy] = useState<'relevance' | 'submittedDate'>('submittedDate');
+    const [showAdvanced, setShowAdvanced] = useState(false);
     const [taggingId, setTaggingId] = useState<string | null>(null);
     const [savingId, setSavingId] = useState<string | null>(null);
     const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
     const [bulkRegenerating, setBulkRegenerating] = useState(false);
+    const [checkingUpdates, setCheckingUpdates] = useState(false);
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [templateId, setTemplateId] = useState(''); // Summary template for regenerations; '' is the default
+    const [language, setLanguage] = useState<SummaryLanguage>(SOURCE_LANGUAGE);
+    const [translationsPending, setTranslationsPending] = useState(false);
+    const [tab, setTab] = useState('library');
+    const [searchMode, setSearchMode] = useState<SearchMode>('online');
+    const [showDuplicates, setShowDuplicates] = useState(false);
+    const [chatScope, setChatScope] = useState<{ paperIds: string[]; label: string } | undefined>(undefined);
 
     const fetchSaved = async () => {
         try {
@@ -42,6 +86,7 @@ export default function Dashboard() {
             const sanitizedSaved: SavedPaper[] = saved.map(p => ({
                 ...p,
                 summary: p.abstract || p.summary || '',
+                aiSummary: p.summary,
             }));
             setSavedPapers(sanitizedSaved);
         } catch (error) {
@@ -54,8 +99,11 @@ export default function Dashboard() {
         const init = async () => {
             try {
                 const recs = await getLatestPapersAction('cs.AI');
-                setRecommendations(recs);
+                setRecommendations(recs.papers);
+                setRecommendationsError(recs.error ?? '');
                 await fetchSaved();
+                setTemplates(await listPromptTemplatesAction());
+                setLanguage(await getSummaryLanguageAction());
             } catch (error) {
                 console.error('Failed to init:', error);
             }
@@ -63,6 +111,36 @@ export default function Dashboard() {
         init();
     }, []);
 
+    // Refresh the library while analysis jobs are queued or running so their status stays current
+    const hasActiveJobs = savedPapers.some(p => p.analysisJob?.status === 'queued' || p.analysisJob?.status === 'running');
+    useEffect(() => {
+        if (!hasActiveJobs) return;
+        const timer = setInterval(fetchSaved, 5000);
+        return () => clearInterval(timer);
+    }, [hasActiveJobs]);
+
+    // Switching languages translates the library in the background; refresh for a while to pick it up
+    useEffect(() => {
+        if (!translationsPending) return;
+        const timer = setInterval(fetchSaved, 5000);
+        const stop = setTimeout(() => setTranslationsPending(false), 120000);
+        return () => {
+            clearInterval(timer);
+            clearTimeout(stop);
+        };
+    }, [translationsPending]);
+
+    const handleLanguageChange = async (newLanguage: SummaryLanguage) => {
+        const result = await setSummaryLanguageAction(newLanguage);
+        if (!result.success) {
+            alert(result.error);
+            return;
+        }
+        setLanguage(newLanguage);
+        await fetchSaved();
+        setTranslationsPending(newLanguage !== SOURCE_LANGUAGE);
+    };
+
     const handleSearch = async () => {
         if (!query.trim()) return;
 
@@ -70,8 +148,31 @@ export default function Dashboard() {
         setOffset(0);
         setHasMore(true);
         try {
-            const results = await searchPapersAction(query, 0, sortBy);
+            const { papers: results, error, sourceErrors } = await searchPapersAction(query, 0, sortBy, sources);
             setPapers(results);
+            setSearchError(error ?? '');
+            setSourceErrors(sourceErrors ?? {});
+            if (results.length < 10) setHasMore(false);
+        } catch (error) {
+            console.error('Search failed:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAdvancedSearch = async (advancedQuery: ArxivQuery) => {
+        // Put the compiled query in the search box so sorting and "Load More" keep working on it
+        const compiled = compileArxivQuery(advancedQuery);
+        setQuery(compiled);
+
+        setLoading(true);
+        setOffset(0);
+        setHasMore(true);
+        try {
+            const { papers: results, error, sourceErrors } = await searchPapersAction(advancedQuery, 0, sortBy, sources);
+            setPapers(results);
+            setSearchError(error ?? '');
+            setSourceErrors(sourceErrors ?? {});
             if (results.length < 10) setHasMore(false);
         } catch (error) {
             console.error('Search failed:', error);
@@ -97,8 +198,10 @@ export default function Dashboard() {
                 setOffset(0);
                 setHasMore(true);
                 try {
-                    const results = await searchPapersAction(query, 0, newSort);
+                    const { papers: results, error, sourceErrors } = await searchPapersAction(query, 0, newSort, sources);
                     setPapers(results);
+                    setSearchError(error ?? '');
+                    setSourceErrors(sourceErrors ?? {});
                     if (results.length < 10) setHasMore(false);
                 } catch (error) {
                     console.error('Search failed:', error);
@@ -114,11 +217,18 @@ export default function Dashboard() {
         setLoadingMore(true);
         const newOffset = offset + 10;
         try {
-            const results = await searchPapersAction(query, newOffset, sortBy);
+            const { papers: results, error, sourceErrors } = await searchPapersAction(query, newOffset, sortBy, sources);
+            setSearchError(error ?? '');
+            setSourceErrors(sourceErrors ?? {});
+            if (error) {
+                // Keep "Load More" available so the user can retry once arXiv recovers
+                return;
+            }
             if (results.length === 0) {
                 setHasMore(false);
             } else {
-                setPapers(prev => [...prev, ...results]);
+                // Other sources may return a paper that was already on an earlier page
+                setPapers(prev => [...prev, ...results.filter(r => !prev.some(p => p.id === r.id))]);
                 setOffset(newOffset);
                 if (results.length < 10) setHasMore(false);
             }
@@ -131,7 +241,11 @@ export default function Dashboard() {
 
 
 
-    const handleSave = async (paper: ArxivPaper) => {
+    const toggleSource = (source: SourceId) => {
+        setSources(prev => prev.includes(source) ? prev.filter(s => s !== source) : [...prev, source]);
+    };
+
+    const handleSave = async (paper: ArxivPaper | SourcePaper) => {
         setSavingId(paper.id);
         try {
             await savePaperAction(paper);
@@ -148,8 +262,7 @@ export default function Dashboard() {
     const handleAutoTag = async (paper: SavedPaper) => {
         setTaggingId(paper.id);
         try {
-            const text = paper.summary + " " + paper.title;
-            const topics = await suggestTopicsAction(text);
+            const topics = await suggestTopicsAction(paper.id);
             for (const topic of topics) {
                 await addTopicToPaperAction(paper.id, topic);
             }
@@ -174,7 +287,7 @@ export default function Dashboard() {
     const handleRegenerateSummary = async (paperId: string) => {
         setRegeneratingId(paperId);
         try {
-            const result = await regenerateSummaryAction(paperId);
+            const result = await regenerateSummaryAction(paperId, templateId || undefined);
             if (result.success) {
                 await fetchSaved();
             } else {
@@ -189,13 +302,13 @@ export default function Dashboard() {
     };
 
     const handleRegenerateAll = async () => {
-        if (!confirm('This will regenerate summaries for ALL papers in your library. This may take a while. Continue?')) return;
+        if (!confirm('This will regenerate summaries for ALL papers in your library. Continue?')) return;
         setBulkRegenerating(true);
         try {
-            const result = await regenerateAllSummariesAction();
+            const result = await regenerateAllSummariesAction(templateId || undefined);
             if (result.success) {
                 await fetchSaved();
-                alert(`Successfully regenerated ${result.count} summaries${result.errors > 0 ? ` (${result.errors} failed)` : ''}`);
+                alert(`Queued ${result.queued} ${result.queued === 1 ? 'paper' : 'papers'} for analysis. Progress shows in the library.`);
             } else {
                 alert('Bulk regeneration failed');
             }
@@ -211,10 +324,10 @@ export default function Dashboard() {
         if (!confirm('This will regenerate summaries for papers without valid summaries. Continue?')) return;
         setBulkRegenerating(true);
         try {
-            const result = await regenerateEmptySummariesAction();
+            const result = await regenerateEmptySummariesAction(templateId || undefined);
             if (result.success) {
                 await fetchSaved();
-                alert(`Successfully regenerated ${result.count} summaries${result.errors > 0 ? ` (${result.errors} failed)` : ''}`);
+                alert(`Queued ${result.queued} ${result.queued === 1 ? 'paper' : 'papers'} for analysis. Progress shows in the library.`);
             } else {
                 alert('Bulk regeneration failed');
             }
@@ -226,6 +339,56 @@ export default function Dashboard() {
         }
     };
 
+    const handleCheckUpdates = async () => {
+        setCheckingUpdates(true);
+        try {
+            const result = await checkPaperUpdatesAction();
+            if (result.success) {
+                await fetchSaved();
+                alert(result.updated.length > 0
+                    ? `Found new versions for ${result.updated.length} ${result.updated.length === 1 ? 'paper' : 'papers'}`
+                    : 'All papers are up to date');
+            } else {
+                alert(`Failed to check for updates: ${result.error}`);
+            }
+        } catch (error) {
+            console.error('Check for updates failed:', error);
+            alert('Failed to check for updates');
+        } finally {
+            setCheckingUpdates(false);
+        }
+    };
+
+    const handleReanalyzeVersion = async (paperId: string) => {
+        setRegeneratingId(paperId);
+        try {
+            const result = await reanalyzeLatestVersionAction(paperId);
+            if (result.success) {
+                await fetchSaved();
+            } else {
+                alert(`Failed to re-analyze paper: ${result.error}`);
+            }
+        } catch (error) {
+            console.error('Re-analyze failed:', error);
+            alert('Failed to re-analyze paper');
+        } finally {
+            setRegeneratingId(null);
+        }
+    };
+
+    const handleDismissVersion = async (paperId: string) => {
+        // Optimistic update
+        setSavedPapers(current => current.map(p =>
+            p.id === paperId ? { ...p, hasNewVersion: false } : p
+        ));
+        try {
+            await markVersionSeenAction(paperId);
+        } catch (error) {
+            console.error('Failed to dismiss version update:', error);
+            await fetchSaved();
+        }
+    };
+
     const handleToggleRead = async (paperId: string) => {
         // Optimistic update
         setSavedPapers(current => current.map(p =>
@@ -256,7 +419,8 @@ export default function Dashboard() {
 
     const handleAddTopic = async (paperId: string, topic: string) => {
         try {
-            await addTopicToPaperAction(paperId, topic);
+            const result = await addTopicToPaperAction(paperId, topic);
+            if (!result.success) alert(result.error);
             await fetchSaved();
         } catch (error) {
             console.error('Failed to add topic:', error);
@@ -266,13 +430,36 @@ export default function Dashboard() {
 
     const handleRemoveTopic = async (paperId: string, topicId: string) => {
         try {
-            await removeTopicFromPaperAction(paperId, topicId);
+            const result = await removeTopicFromPaperAction(paperId, topicId);
+            if (!result.success) alert(result.error);
             await fetchSaved();
         } catch (error) {
             console.error('Failed to remove topic:', error);
         }
     };
 
+    const handleEditField = async (paperId: string, edits: EditableValues): Promise<boolean> => {
+        const result = await editPaperFieldsAction(paperId, edits);
+        if (!result.success) {
+            alert(result.error);
+            return false;
+        }
+        await fetchSaved();
+        return true;
+    };
+
+    const handleReviewSuggestion = async (paperId: string, field: EditableField, accept: boolean) => {
+        const result = await reviewSuggestionAction(paperId, field, accept);
+        if (!result.success) alert(result.error);
+        await fetchSaved();
+    };
+
+    const handleUnlockField = async (paperId: string, field: EditableField) => {
+        const result = await unlockFieldAction(paperId, field);
+        if (!result.success) alert(result.error);
+        await fetchSaved();
+    };
+
     return (
         <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-8">
             <div className="max-w-[95vw] mx-auto space-y-8">
@@ -284,85 +471,188 @@ export default function Dashboard() {
                         <h1 className="text-3xl font-bold text-gray-900 dark:text-white tracking-tight">Infrared Zenith</h1>
                     </div>
                     <div className="flex items-center gap-4">
+                        <Button variant="outline" onClick={() => router.push('/topics')}>
+                            <Tag size={16} className="mr-2" /> Topics
+                        </Button>
+                        <Button variant="outline" onClick={() => router.push('/templates')}>
+                            <ScrollText size={16} className="mr-2" /> Templates
+                        </Button>
+                        <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400" title="Language summaries and topics are shown in">
+                            <Languages size={16} />
+                            <select
+                                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                                value={language}
+                                onChange={(e) => handleLanguageChange(e.target.value as SummaryLanguage)}
+                            >
+                                {(Object.keys(SUMMARY_LANGUAGES) as SummaryLanguage[]).map(code => (
+                                    <option key={code} value={code}>{SUMMARY_LANGUAGES[code].label}</option>
+                                ))}
+                            </select>
+                        </label>
                         <UserButton afterSignOutUrl="/" />
                     </div>
                 </div>
 
-                <Tabs defaultValue="library" className="w-full">
+                <Tabs value={tab} onValueChange={setTab} className="w-full">
                     <div className="flex justify-center mb-8">
                         <TabsList>
                             <TabsTrigger value="library" className="flex items-center gap-2"><Library size={16} /> Library</TabsTrigger>
                             <TabsTrigger value="search" className="flex items-center gap-2"><Search size={16} /> Search</TabsTrigger>
                             <TabsTrigger value="clusters" className="flex items-center gap-2"><Layers size={16} /> Clusters</TabsTrigger>
+                            <TabsTrigger value="citations" className="flex items-center gap-2"><Network size={16} /> Citations</TabsTrigger>
+                            <TabsTrigger value="ask" className="flex items-center gap-2"><MessageSquare size={16} /> Ask</TabsTrigger>
                             <TabsTrigger value="recommendations" className="flex items-center gap-2"><Sparkles size={16} /> For You</TabsTrigger>
                         </TabsList>
                     </div>
 
                     <TabsContent value="search">
-                        <div className="mb-8 flex gap-4">
-                            <div className="relative flex-1">
-                                <Search className="absolute left-3 top-3 text-gray-400" size={20} />
-                                <Input
-                                    placeholder="Search papers (e.g., 'LLM agents', 'quantum computing')..."
-                                    className="pl-10 py-6 text-lg"
-                                    value={query}
-                                    onChange={(e) => setQuery(e.target.value)}
-                                    onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
-                                />
-                            </div>
-                            <div className="w-48">
-                                <select
-                                    className="w-full h-full px-3 py-2 bg-white dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-slate-950 dark:focus:ring-slate-300"
-                                    value={sortBy}
-                                    onChange={(e) => handleSortChange(e.target.value)}
-                                >
-                                    <option value="relevance">Sort by Relevance</option>
-                                    <option value="submittedDate">Sort by Date</option>
-                                </select>
-                            </div>
-                            <Button size="lg" onClick={handleSearch} disabled={loading}>
-                                {loading ? <Loader2 className="animate-spin" /> : 'Search'}
-                            </Button>
-                        </div>
-
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            {papers.map((paper) => (
-                                <PaperCard
-                                    key={paper.id}
-                                    paper={paper}
-                                    paperId={paper.id}
-                                    onClick={() => router.push(`/paper/${encodeURIComponent(paper.id)}`)}
-                                    onSave={(e) => {
-                                        e.stopPropagation();
-                                        handleSave(paper);
-                                    }}
-                                    isSaved={savedPapers.some(p => p.id === paper.id)}
-                                    isSaving={savingId === paper.id}
-                                />
+                        <div className="mb-6 flex items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                            <span className="font-medium">Search in:</span>
+                            {SEARCH_MODES.map(mode => (
+                                <label key={mode} className="flex items-center gap-1.5 cursor-pointer">
+                                    <input
+                                        type="radio"
+                                        name="search-mode"
+                                        checked={searchMode === mode}
+                                        onChange={() => setSearchMode(mode)}
+                                    />
+                                    {SEARCH_MODE_LABELS[mode]}
+                                </label>
                             ))}
                         </div>
 
-                        {papers.length > 0 && hasMore && (
-                            <div className="mt-8 text-center">
+                        {searchMode !== 'online' ? (
+                            <SemanticSearch
+                                scope={searchMode}
+                                isSaved={(id) => savedPapers.some(p => p.id === id)}
+                                savingId={savingId}
+                                onSave={handleSave}
+                                onOpenPaper={(id) => router.push(paperHref(id))}
+                            />
+                        ) : (
+                            <>
+                            <div className="mb-8 flex gap-4">
+                                <div className="relative flex-1">
+                                    <Search className="absolute left-3 top-3 text-gray-400" size={20} />
+                                    <Input
+                                        placeholder="Search papers (e.g., 'LLM agents', 'quantum computing')..."
+                                        className="pl-10 py-6 text-lg"
+                                        value={query}
+                                        onChange={(e) => setQuery(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                                    />
+                                </div>
+                                <div className="w-48">
+                                    <select
+                                        className="w-full h-full px-3 py-2 bg-white dark:bg-slate-950 border border-gray-200 dark:border-slate-800 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-slate-950 dark:focus:ring-slate-300"
+                                        value={sortBy}
+                                        onChange={(e) => handleSortChange(e.target.value)}
+                                    >
+                                        <option value="relevance">Sort by Relevance</option>
+                                        <option value="submittedDate">Sort by Date</option>
+                                    </select>
+                                </div>
                                 <Button
-                                    variant="outline"
-                                    onClick={handleLoadMore}
-                                    disabled={loadingMore}
+                                    size="lg"
+                                    variant={showAdvanced ? 'secondary' : 'outline'}
+                                    onClick={() => setShowAdvanced(!showAdvanced)}
+                                    title="Advanced search"
                                 >
-                                    {loadingMore ? <Loader2 className="animate-spin mr-2" size={16} /> : null}
-                                    Load More Results
+                                    <SlidersHorizontal size={16} />
+                                </Button>
+                                <Button size="lg" onClick={handleSearch} disabled={loading}>
+                                    {loading ? <Loader2 className="animate-spin" /> : 'Search'}
                                 </Button>
                             </div>
-                        )}
 
-                        {papers.length === 0 && !loading && (
-                            <div className="text-center text-gray-500 mt-12">
-                                <p>No papers found. Try searching for a topic like "LLM agents" or "quantum computing".</p>
+                            <div className="mb-6 flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+                                <span className="font-medium">Sources:</span>
+                                {SOURCE_IDS.map(source => (
+                                    <label key={source} className="flex items-center gap-1.5 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={sources.includes(source)}
+                                            onChange={() => toggleSource(source)}
+                                        />
+                                        {SOURCE_LABELS[source]}
+                                    </label>
+                                ))}
+                            </div>
+
+                            {showAdvanced && (
+                                <AdvancedSearchPanel onSearch={handleAdvancedSearch} loading={loading} />
+                            )}
+
+                            {Object.keys(sourceErrors).length > 0 && (
+                                <div className="mb-6 text-sm text-amber-600">
+                                    {Object.entries(sourceErrors).map(([source, message]) => (
+                                        <div key={source}>{SOURCE_LABELS[source as SourceId]} search failed: {message}</div>
+                                    ))}
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                {papers.map((paper) => (
+                                    <PaperCard
+                                        key={paper.id}
+                                        paper={paper}
+                                        paperId={paper.id}
+                                        onClick={() => {
+                                            // Papers without an arXiv ID only have a detail page once they're in the catalog
+                                            if (parseArxivId(paper.id) || savedPapers.some(p => p.id === paper.id)) {
+                                                router.push(paperHref(paper.id));
+                                            } else {
+                                                window.open(paper.link, '_blank', 'noopener,noreferrer');
+                                            }
+                                        }}
+                                        onSave={(e) => {
+                                            e.stopPropagation();
+                                            handleSave(paper);
+                                        }}
+                                        isSaved={savedPapers.some(p => p.id === paper.id)}
+                                        isSaving={savingId === paper.id}
+                                    />
+                                ))}
                             </div>
+
+                            {papers.length > 0 && hasMore && (
+                                <div className="mt-8 text-center">
+                                    <Button
+                                        variant="outline"
+                                        onClick={handleLoadMore}
+                                        disabled={loadingMore}
+                                    >
+                                        {loadingMore ? <Loader2 className="animate-spin mr-2" size={16} /> : null}
+                                        Load More Results
+                                    </Button>
+                                </div>
+                            )}
+
+                            {searchError && (
+                                <div className="mt-6 text-center text-sm text-red-500">
+                                    Search failed: {searchError}
+                                </div>
+                            )}
+
+                            {papers.length === 0 && !loading && !searchError && (
+                                <div className="text-center text-gray-500 mt-12">
+                                    <p>No papers found. Try searching for a topic like "LLM agents" or "quantum computing".</p>
+                                </div>
+                            )}
+                            </>
                         )}
                     </TabsContent>
 
                     <TabsContent value="library">
+                        {showDuplicates && (
+                            <div className="mb-6">
+                                <DuplicatePapers
+                                    onClose={() => setShowDuplicates(false)}
+                                    onMerged={fetchSaved}
+                                    onOpenPaper={(id) => router.push(paperHref(id))}
+                                />
+                            </div>
+                        )}
                         {savedPapers.length > 0 ? (
                             <LibraryTable
                                 papers={savedPapers}
@@ -376,6 +666,21 @@ export default function Dashboard() {
                                 bulkRegenerating={bulkRegenerating}
                                 onToggleRead={handleToggleRead}
                                 onToggleStar={handleToggleStar}
+                                onCheckUpdates={handleCheckUpdates}
+                                checkingUpdates={checkingUpdates}
+                                onReanalyzeVersion={handleReanalyzeVersion}
+                                onDismissVersion={handleDismissVersion}
+                                onEditField={handleEditField}
+                                onReviewSuggestion={handleReviewSuggestion}
+                                onUnlockField={handleUnlockField}
+                                templates={templates}
+                                templateId={templateId}
+                                onTemplateChange={setTemplateId}
+                                onAskAbout={(paperIds) => {
+                                    setChatScope({ paperIds, label: `${paperIds.length} ${paperIds.length === 1 ? 'paper' : 'papers'} from a Library filter` });
+                                    setTab('ask');
+                                }}
+                                onFindDuplicates={() => setShowDuplicates(true)}
                             />
                         ) : (
                             <div className="text-center text-gray-500 mt-12">
@@ -386,73 +691,27 @@ export default function Dashboard() {
                     </TabsContent>
 
                     <TabsContent value="clusters">
-                        {savedPapers.length > 0 ? (
-                            <div className="space-y-8">
-                                {(() => {
-                                    // Group papers by topics
-                                    const topicGroups = new Map<string, SavedPaper[]>();
-
-                                    savedPapers.forEach(paper => {
-                                        if (paper.topics && paper.topics.length > 0) {
-                                            paper.topics.forEach(topic => {
-                                                if (!topicGroups.has(topic.name)) {
-                                                    topicGroups.set(topic.name, []);
-                                                }
-                                                topicGroups.get(topic.name)!.push(paper);
-                                            });
-                                        } else {
-                                            // Papers without topics go to "Uncategorized"
-                                            if (!topicGroups.has('Uncategorized')) {
-                                                topicGroups.set('Uncategorized', []);
-                                            }
-                                            topicGroups.get('Uncategorized')!.push(paper);
-                                        }
-                                    });
-
-                                    // Sort topics alphabetically, but put "Uncategorized" last
-                                    const sortedTopics = Array.from(topicGroups.keys()).sort((a, b) => {
-                                        if (a === 'Uncategorized') return 1;
-                                        if (b === 'Uncategorized') return -1;
-                                        return a.localeCompare(b);
-                                    });
-
-                                    return sortedTopics.map(topicName => {
-                                        const papers = topicGroups.get(topicName)!;
-                                        return (
-                                            <div key={topicName} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
-                                                <div className="flex items-center gap-3 mb-4">
-                                                    <Tag className="text-blue-500" size={20} />
-                                                    <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
-                                                        {topicName}
-                                                    </h3>
-                                                    <Badge variant="secondary" className="ml-2">
-                                                        {papers.length} {papers.length === 1 ? 'paper' : 'papers'}
-                                                    </Badge>
-                                                </div>
-                                                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                                                    {papers.map(paper => (
-                                                        <PaperCard
-                                                            key={`${topicName}-${paper.id}`}
-                                                            paper={paper}
-                                                            paperId={paper.id}
-                                                            onClick={() => router.push(`/paper/${paper.id}`)}
-                                                            onSave={() => handleSave(paper)}
-                                                            isSaved={savedPapers.some(p => p.id === paper.id)}
-                                                            isSaving={savingId === paper.id}
-                                                        />
-                                                    ))}
-                                                </div>
-                                            </div>
-                                        );
-                                    });
-                                })()}
-                            </div>
-                        ) : (
-                            <div className="text-center text-gray-500 mt-12">
-                                <Layers className="mx-auto h-12 w-12 text-gray-300 mb-4" />
-                                <p>No papers in your library yet. Add papers to see them grouped by topics.</p>
-                            </div>
-                        )}
+                        <ResearchMap
+                            onOpenPaper={(id) => router.push(paperHref(id))}
+                            onAskAbout={(paperIds, label) => {
+                                setChatScope({ paperIds, label });
+                                setTab('ask');
+                            }}
+                        />
+                    </TabsContent>
+
+                    <TabsContent value="citations">
+                        <CitationGraph onOpenPaper={(id) => router.push(paperHref(id))} onLibraryChange={fetchSaved} />
+                    </TabsContent>
+
+                    <TabsContent value="ask">
+                        {/* A new filter result starts a fresh conversation over it */}
+                        <LibraryChat
+                            key={chatScope?.paperIds.join(',') ?? ''}
+                            papers={savedPapers}
+                            initialScope={chatScope}
+                            onOpenPaper={(id) => router.push(paperHref(id))}
+                        />
                     </TabsContent>
 
                     <TabsContent value="recommendations">
@@ -467,7 +726,7 @@ export default function Dashboard() {
                                     key={paper.id}
                                     paper={paper}
                                     paperId={paper.id}
-                                    onClick={() => router.push(`/paper/${encodeURIComponent(paper.id)}`)}
+                                    onClick={() => router.push(paperHref(paper.id))}
                                     onSave={(e) => {
                                         e.stopPropagation();
                                         handleSave(paper);
@@ -477,7 +736,13 @@ export default function Dashboard() {
                                 />
                                 )}
                                 {recommendations.length === 0 && (
-                                    <div className="col-span-2 text-center">Loading recommendations...</div>
+                                    recommendationsError ? (
+                                        <div className="col-span-2 text-center text-red-500">
+                                            Could not load recommendations: {recommendationsError}
+                                        </div>
+                                    ) : (
+                                        <div className="col-span-2 text-center">Loading recommendations...</div>
+                                    )
                                 )}
                             </div>
                         </div>
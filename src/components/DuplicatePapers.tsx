@@ -0,0 +1,125 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Copy, GitMerge, Loader2, X } from 'lucide-react';
+import { findDuplicatesAction, mergeDuplicatesAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { DuplicateGroup, DuplicateReason } from '@/lib/duplicates';
+import { SOURCE_LABELS } from '@/lib/sources/types';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+    same_id: 'Same arXiv ID',
+    same_doi: 'Same DOI',
+    same_title: 'Same title',
+    similar_title: 'Similar title, same first author',
+    similar_content: 'Similar content, same first author',
+};
+
+interface DuplicatePapersProps {
+    onClose: () => void;
+    onMerged: () => void;
+    onOpenPaper: (paperId: string) => void;
+}
+
+/**
+ * Papers in the library that the catalog holds more than once, with a merge into the
+ * record to keep. Merging affects everyone who saved any of them.
+ */
+export function DuplicatePapers({ onClose, onMerged, onOpenPaper }: DuplicatePapersProps) {
+    const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+    // Chosen record to keep per group, keyed by the group's first paper; the suggestion when unset
+    const [keep, setKeep] = useState<Record<string, string>>({});
+    const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+    useEffect(() => {
+        const init = async () => {
+            try {
+                setGroups(await findDuplicatesAction());
+            } catch (error) {
+                console.error('Failed to find duplicates:', error);
+                setGroups([]);
+            }
+        };
+        init();
+    }, []);
+
+    const handleMerge = async (group: DuplicateGroup) => {
+        const key = group.papers[0].id;
+        const keepId = keep[key] ?? key;
+        const kept = group.papers.find(paper => paper.id === keepId)!;
+        const others = group.papers.filter(paper => paper.id !== keepId);
+        if (!confirm(`Merge ${others.length} ${others.length === 1 ? 'copy' : 'copies'} into "${kept.title}" (${kept.id})? Everyone who saved them keeps one entry with their read and star state.`)) return;
+
+        setMergingKey(key);
+        try {
+            const result = await mergeDuplicatesAction(keepId, others.map(paper => paper.id));
+            if (!result.success) {
+                alert(result.error);
+                return;
+            }
+            setGroups(current => (current ?? []).filter(entry => entry.papers[0].id !== key));
+            onMerged();
+        } finally {
+            setMergingKey(null);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-4">
+            <div className="flex items-center gap-2">
+                <Copy className="h-5 w-5 text-blue-500" />
+                <h3 className="font-semibold text-gray-900 dark:text-white">Duplicate papers</h3>
+                <button className="ml-auto text-gray-400 hover:text-gray-600" onClick={onClose} title="Close">
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            {groups === null ? (
+                <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <Loader2 className="animate-spin h-4 w-4" /> Looking for duplicates...
+                </div>
+            ) : groups.length === 0 ? (
+                <p className="text-sm text-gray-500">No duplicates of papers in your library were found.</p>
+            ) : groups.map(group => {
+                const key = group.papers[0].id;
+                const keepId = keep[key] ?? key;
+                return (
+                    <div key={key} className="border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-2">
+                        <div className="flex flex-wrap gap-1">
+                            {group.reasons.map(reason => (
+                                <Badge key={reason} variant="secondary">{REASON_LABELS[reason]}</Badge>
+                            ))}
+                        </div>
+                        {group.papers.map(paper => (
+                            <label key={paper.id} className="flex items-start gap-2 text-sm cursor-pointer">
+                                <input
+                                    type="radio"
+                                    className="mt-1"
+                                    name={`keep-${key}`}
+                                    checked={keepId === paper.id}
+                                    onChange={() => setKeep(current => ({ ...current, [key]: paper.id }))}
+                                />
+                                <div className="min-w-0">
+                                    <button className="text-left text-blue-600 hover:underline" onClick={() => onOpenPaper(paper.id)}>
+                                        {paper.title}
+                                    </button>
+                                    <div className="text-xs text-gray-500">
+                                        {paper.id} · {SOURCE_LABELS[paper.source]}
+                                        {paper.published && ` · ${new Date(paper.published).getFullYear()}`}
+                                        {` · saved by ${paper.savedBy}`}
+                                        {paper.analyzed && ' · analyzed'}
+                                    </div>
+                                </div>
+                            </label>
+                        ))}
+                        <Button size="sm" variant="outline" onClick={() => handleMerge(group)} disabled={mergingKey !== null}>
+                            {mergingKey === key ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <GitMerge className="h-3 w-3 mr-1" />}
+                            Merge into the selected paper
+                        </Button>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Lock, Pencil, Unlock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { EDITABLE_FIELD_LABELS, EditableField, EditableValues } from '@/lib/fieldLocks';
+
+interface EditableTextProps {
+    value: string;
+    onSave: (value: string) => Promise<boolean>;  // false keeps the editor open
+    multiline?: boolean;
+    disabled?: boolean;
+    placeholder?: string;
+    children: React.ReactNode;
+}
+
+/**
+ * Shows `children` with a pencil button that swaps in an editor for `value`.
+ */
+export function EditableText({ value, onSave, multiline = false, disabled = false, placeholder, children }: EditableTextProps) {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(value);
+    const [saving, setSaving] = useState(false);
+
+    const handleStart = () => {
+        setDraft(value);
+        setEditing(true);
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        try {
+            if (await onSave(draft)) setEditing(false);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') setEditing(false);
+        if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            handleSave();
+        }
+    };
+
+    if (!editing) {
+        return (
+            <div className="group flex items-start gap-1">
+                <div className="min-w-0 flex-1">{children}</div>
+                {!disabled && (
+                    <button
+                        onClick={handleStart}
+                        className="shrink-0 p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Edit"
+                    >
+                        <Pencil size={12} />
+                    </button>
+                )}
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-start gap-1">
+            {multiline ? (
+                <textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={placeholder}
+                    rows={6}
+                    className="flex-1 min-w-[200px] rounded-md border border-input bg-background px-2 py-1 text-sm"
+                    autoFocus
+                />
+            ) : (
+                <Input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={placeholder}
+                    className="h-7 text-sm"
+                    autoFocus
+                />
+            )}
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-green-600 hover:text-green-700 hover:bg-green-50"
+                onClick={handleSave}
+                disabled={saving}
+            >
+                <Check size={14} />
+            </Button>
+            <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0 text-gray-400 hover:text-gray-600"
+                onClick={() => setEditing(false)}
+                disabled={saving}
+            >
+                <X size={14} />
+            </Button>
+        </div>
+    );
+}
+
+function formatSuggestion(value: EditableValues[EditableField]): string {
+    if (Array.isArray(value)) return value.join(', ');
+    return value || '(empty)';
+}
+
+interface FieldLockStatusProps {
+    field: EditableField;
+    locked: boolean;
+    suggestion?: EditableValues[EditableField];
+    onReview: (field: EditableField, accept: boolean) => void;
+    onUnlock: (field: EditableField) => void;
+    compact?: boolean;  // Icons only, with the suggestion in a tooltip
+}
+
+/**
+ * Lock marker for a field a user edited, with the latest AI suggestion for it to
+ * accept or reject.
+ */
+export function FieldLockStatus({ field, locked, suggestion, onReview, onUnlock, compact = false }: FieldLockStatusProps) {
+    if (!locked) return null;
+    const label = EDITABLE_FIELD_LABELS[field];
+
+    return (
+        <div className={`flex ${compact ? 'items-center gap-1' : 'flex-col gap-1 mt-1'} text-xs`}>
+            <span className="flex items-center gap-1 text-gray-500">
+                <Lock size={10} />
+                {!compact && `${label} edited by hand`}
+                <button
+                    onClick={() => onUnlock(field)}
+                    className="ml-1 text-blue-600 hover:underline flex items-center gap-0.5"
+                    title={`Let analyses update the ${label.toLowerCase()} again`}
+                >
+                    <Unlock size={10} />{!compact && ' Unlock'}
+                </button>
+            </span>
+            {suggestion !== undefined && (
+                <span
+                    className="flex items-start gap-1 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 px-1.5 py-0.5"
+                    title={compact ? `AI suggests: ${formatSuggestion(suggestion)}` : undefined}
+                >
+                    {compact ? 'AI suggestion' : <span className="flex-1">AI suggests: {formatSuggestion(suggestion)}</span>}
+                    <button onClick={() => onReview(field, true)} className="text-green-700 hover:text-green-800" title="Accept">
+                        <Check size={12} />
+                    </button>
+                    <button onClick={() => onReview(field, false)} className="text-red-600 hover:text-red-700" title="Reject">
+                        <X size={12} />
+                    </button>
+                </span>
+            )}
+        </div>
+    );
+}
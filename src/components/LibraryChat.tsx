@@ -0,0 +1,307 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Loader2, MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { askLibraryAction, deleteLibraryChatAction, getLibraryChatAction, listLibraryChatsAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { LibraryChatCitation, LibraryChatMessage, LibraryChatScope, LibraryChatSummary } from '@/lib/libraryChat';
+
+interface ChatPaper {
+    id: string;
+    title: string;
+    topics?: { id: string; name: string; translatedName?: string | null }[];
+}
+
+type ScopeKind = LibraryChatScope['kind'];
+
+function citationLocation(citation: LibraryChatCitation): string {
+    if (citation.pageStart === null) return citation.heading;
+    const pages = citation.pageEnd !== null && citation.pageEnd !== citation.pageStart
+        ? `pp. ${citation.pageStart}–${citation.pageEnd}`
+        : `p. ${citation.pageStart}`;
+    return `${citation.heading} · ${pages}`;
+}
+
+function Citations({ citations, onOpenPaper }: { citations: LibraryChatCitation[]; onOpenPaper: (id: string) => void }) {
+    if (citations.length === 0) return null;
+    return (
+        <ul className="mt-2 space-y-1 text-xs">
+            {citations.map(citation => (
+                <li key={citation.ref}>
+                    <details>
+                        <summary className="cursor-pointer text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                            <span className="font-mono">[{citation.ref}]</span>{' '}
+                            <button
+                                type="button"
+                                className="text-blue-600 dark:text-blue-400 hover:underline"
+                                onClick={(e) => {
+                                    e.preventDefault();
+                                    onOpenPaper(citation.paperId);
+                                }}
+                            >
+                                {citation.paperTitle}
+                            </button>
+                            {' — '}{citationLocation(citation)}
+                        </summary>
+                        <p className="mt-1 pl-4 border-l-2 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                            {citation.excerpt}
+                        </p>
+                    </details>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+interface LibraryChatProps {
+    papers: ChatPaper[];
+    initialScope?: { paperIds: string[]; label: string };  // Starts a new conversation over these papers
+    onOpenPaper: (id: string) => void;
+}
+
+/**
+ * Questions answered across saved papers, with citations to the papers and passages
+ * the answer comes from. A new conversation asks for its scope: the user's library,
+ * the team's, one topic, or hand-picked papers.
+ */
+export function LibraryChat({ papers, initialScope, onOpenPaper }: LibraryChatProps) {
+    const [chats, setChats] = useState<LibraryChatSummary[]>([]);
+    const [activeChat, setActiveChat] = useState<LibraryChatSummary | null>(null);
+    const [messages, setMessages] = useState<LibraryChatMessage[]>([]);
+    const [question, setQuestion] = useState('');
+    const [pending, setPending] = useState<string | null>(null);
+
+    // Scope of the next new conversation
+    const [scopeKind, setScopeKind] = useState<ScopeKind>(initialScope ? 'papers' : 'library');
+    const [topicId, setTopicId] = useState('');
+    const [pickedIds, setPickedIds] = useState<string[]>(initialScope?.paperIds ?? []);
+    const [pickedLabel, setPickedLabel] = useState(initialScope?.label ?? '');
+    const [pickFilter, setPickFilter] = useState('');
+
+    useEffect(() => {
+        const init = async () => {
+            setChats(await listLibraryChatsAction());
+        };
+        init();
+    }, []);
+
+    const topics = useMemo(() => {
+        const byId = new Map<string, string>();
+        papers.forEach(paper => paper.topics?.forEach(topic => byId.set(topic.id, topic.translatedName ?? topic.name)));
+        return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+    }, [papers]);
+
+    const pickable = useMemo(() => {
+        const filter = pickFilter.trim().toLowerCase();
+        return filter ? papers.filter(paper => paper.title.toLowerCase().includes(filter)) : papers;
+    }, [papers, pickFilter]);
+
+    const newScope = (): LibraryChatScope | null => {
+        switch (scopeKind) {
+            case 'library':
+            case 'team':
+                return { kind: scopeKind };
+            case 'topic':
+                return topicId ? { kind: 'topic', topicId } : null;
+            case 'papers':
+                if (pickedIds.length === 0) return null;
+                return { kind: 'papers', paperIds: pickedIds, label: pickedLabel || `${pickedIds.length} picked ${pickedIds.length === 1 ? 'paper' : 'papers'}` };
+        }
+    };
+
+    const togglePicked = (id: string) => {
+        setPickedLabel('');
+        setPickedIds(prev => prev.includes(id) ? prev.filter(picked => picked !== id) : [...prev, id]);
+    };
+
+    const handleOpen = async (chatId: string) => {
+        const result = await getLibraryChatAction(chatId);
+        if (!result) return;
+        setActiveChat(result.chat);
+        setMessages(result.messages);
+    };
+
+    const handleNew = () => {
+        setActiveChat(null);
+        setMessages([]);
+    };
+
+    const handleDelete = async (chatId: string) => {
+        if (!confirm('Delete this conversation?')) return;
+        const result = await deleteLibraryChatAction(chatId);
+        if (!result.success) {
+            alert(result.error);
+            return;
+        }
+        setChats(prev => prev.filter(chat => chat.id !== chatId));
+        if (activeChat?.id === chatId) handleNew();
+    };
+
+    const handleAsk = async () => {
+        const text = question.trim();
+        if (!text || pending) return;
+        const scope = activeChat ? null : newScope();
+        if (!activeChat && !scope) return;
+        setPending(text);
+        setQuestion('');
+        try {
+            const result = await askLibraryAction(activeChat ? { chatId: activeChat.id } : { scope: scope! }, text);
+            if (!result.success) {
+                alert(result.error);
+                setQuestion(text);
+                return;
+            }
+            setActiveChat(result.chat!);
+            setMessages(prev => [...prev, ...result.messages!]);
+            setChats(prev => [result.chat!, ...prev.filter(chat => chat.id !== result.chat!.id)]);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleAsk();
+        }
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-[16rem_1fr] gap-6">
+            <aside className="space-y-2">
+                <Button variant="outline" size="sm" className="w-full" onClick={handleNew}>
+                    <Plus className="h-4 w-4 mr-1" /> New conversation
+                </Button>
+                <ul className="space-y-1">
+                    {chats.map(chat => (
+                        <li
+                            key={chat.id}
+                            className={`group flex items-start gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer ${activeChat?.id === chat.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                            onClick={() => handleOpen(chat.id)}
+                        >
+                            <div className="flex-1 min-w-0">
+                                <div className="truncate">{chat.title}</div>
+                                <div className="text-xs text-gray-500 truncate">{chat.scopeLabel}</div>
+                            </div>
+                            <button
+                                type="button"
+                                className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-red-500"
+                                title="Delete conversation"
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDelete(chat.id);
+                                }}
+                            >
+                                <Trash2 className="h-4 w-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            </aside>
+
+            <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+                <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white mb-1">
+                    <MessageSquare className="h-5 w-5" /> {activeChat ? activeChat.title : 'Ask My Library'}
+                </h2>
+                {activeChat ? (
+                    <p className="text-sm text-gray-500 mb-4">Answering from: {activeChat.scopeLabel}</p>
+                ) : (
+                    <div className="mb-4 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-gray-500">Answer from</span>
+                            <select
+                                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                                value={scopeKind}
+                                onChange={(e) => setScopeKind(e.target.value as ScopeKind)}
+                            >
+                                <option value="library">My library</option>
+                                <option value="team">Team library</option>
+                                <option value="topic">A topic</option>
+                                <option value="papers">Picked papers</option>
+                            </select>
+                            {scopeKind === 'topic' && (
+                                <select
+                                    className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                                    value={topicId}
+                                    onChange={(e) => setTopicId(e.target.value)}
+                                >
+                                    <option value="">Choose a topic...</option>
+                                    {topics.map(topic => <option key={topic.id} value={topic.id}>{topic.name}</option>)}
+                                </select>
+                            )}
+                            {scopeKind === 'papers' && (
+                                <span className="text-gray-500">{pickedLabel || `${pickedIds.length} picked`}</span>
+                            )}
+                        </div>
+                        {scopeKind === 'papers' && (
+                            <div className="rounded-md border border-gray-200 dark:border-gray-700 p-2">
+                                <Input
+                                    value={pickFilter}
+                                    onChange={(e) => setPickFilter(e.target.value)}
+                                    placeholder="Filter by title..."
+                                    className="h-8 mb-2"
+                                />
+                                <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                                    {pickable.map(paper => (
+                                        <li key={paper.id}>
+                                            <label className="flex items-start gap-2 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    className="mt-1"
+                                                    checked={pickedIds.includes(paper.id)}
+                                                    onChange={() => togglePicked(paper.id)}
+                                                />
+                                                <span>{paper.title}</span>
+                                            </label>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {(messages.length > 0 || pending) && (
+                    <div className="space-y-3 mb-3 max-h-[40rem] overflow-y-auto">
+                        {messages.map(message => message.role === 'user' ? (
+                            <div key={message.id} className="ml-12 rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm whitespace-pre-wrap">
+                                {message.content}
+                            </div>
+                        ) : (
+                            <div key={message.id} className="mr-12 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 px-3 py-2">
+                                <div className="prose prose-sm dark:prose-invert max-w-none">
+                                    <ReactMarkdown>{message.content}</ReactMarkdown>
+                                </div>
+                                <Citations citations={message.citations} onOpenPaper={onOpenPaper} />
+                            </div>
+                        ))}
+                        {pending && (
+                            <>
+                                <div className="ml-12 rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm whitespace-pre-wrap">{pending}</div>
+                                <div className="flex items-center gap-2 text-sm text-gray-500">
+                                    <Loader2 className="animate-spin h-4 w-4" /> Reading your papers...
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex items-end gap-2">
+                    <textarea
+                        value={question}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        placeholder="e.g. Which of these papers report results on ImageNet, and how do they compare?"
+                        rows={2}
+                        className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    />
+                    <Button onClick={handleAsk} disabled={!question.trim() || !!pending || (!activeChat && !newScope())}>
+                        <Send className="h-4 w-4" />
+                    </Button>
+                </div>
+            </section>
+        </div>
+    );
+}
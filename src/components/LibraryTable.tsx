@@ -4,17 +4,40 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { ArrowUpDown, Trash2, ExternalLink, FileText, RefreshCw, Loader2, Plus, Check, X, Star, Eye, EyeOff } from "lucide-react";
+import { ArrowUpDown, Trash2, ExternalLink, FileText, RefreshCw, Loader2, Plus, Check, X, Star, Eye, EyeOff, History, MessageSquare, Copy } from "lucide-react";
 import { ArxivPaper } from '@/lib/arxiv';
+import { paperHref } from '@/lib/arxivId';
 import { MultiSelectFilter, DateRangeFilter } from './FilterComponents';
+import { StructuredAnalysis } from '@/lib/analysisFields';
+import { EditableField, EditableValues } from '@/lib/fieldLocks';
+import { EditableText, FieldLockStatus } from './FieldEditor';
+import type { PromptTemplate } from '@/lib/promptTemplates';
 
-interface SavedPaper extends ArxivPaper {
-    topics?: { id: string; name: string }[];
+interface SavedPaper extends ArxivPaper, Partial<StructuredAnalysis> {
+    topics?: { id: string; name: string; translatedName?: string | null }[];
     institution?: string | null;
+    aiSummary?: string | null;  // `summary` holds the abstract here
+    translatedSummary?: string | null;  // aiSummary in the user's language, when translated
+    lockedFields?: EditableField[];
+    fieldSuggestions?: EditableValues;
     isRead?: boolean;
     isStarred?: boolean;
+    arxivVersion?: number | null;
+    hasNewVersion?: boolean;
+    analysisStatus?: string | null;
+    analysisError?: string | null;
+    analysisJob?: { status: string; attempts: number; lastError: string | null } | null;
 }
 
+function isAnalysisActive(paper: SavedPaper): boolean {
+    return paper.analysisJob?.status === 'queued' || paper.analysisJob?.status === 'running';
+}
+
+const ANALYSIS_FAILURE_LABELS: Record<string, string> = {
+    invalid_output: 'Analysis returned invalid output',
+    provider_error: 'Analysis failed',
+};
+
 interface LibraryTableProps {
     papers: SavedPaper[];
     onRemove: (id: string) => void;
@@ -27,6 +50,18 @@ interface LibraryTableProps {
     bulkRegenerating?: boolean;
     onToggleRead?: (id: string) => void;
     onToggleStar?: (id: string) => void;
+    onCheckUpdates?: () => void;
+    checkingUpdates?: boolean;
+    onReanalyzeVersion?: (id: string) => void;
+    onDismissVersion?: (id: string) => void;
+    onEditField?: (id: string, edits: EditableValues) => Promise<boolean>;
+    onReviewSuggestion?: (id: string, field: EditableField, accept: boolean) => void;
+    onUnlockField?: (id: string, field: EditableField) => void;
+    templates?: PromptTemplate[];
+    templateId?: string;  // Template regenerations use; '' for the default (the first one)
+    onTemplateChange?: (templateId: string) => void;
+    onAskAbout?: (paperIds: string[]) => void;  // Chat about the papers the filters leave
+    onFindDuplicates?: () => void;
 }
 
 type SortConfig = {
@@ -45,17 +80,34 @@ export function LibraryTable({
     onRegenerateEmpty,
     bulkRegenerating = false,
     onToggleRead,
-    onToggleStar
+    onToggleStar,
+    onCheckUpdates,
+    checkingUpdates = false,
+    onReanalyzeVersion,
+    onDismissVersion,
+    onEditField,
+    onReviewSuggestion,
+    onUnlockField,
+    templates = [],
+    templateId = '',
+    onTemplateChange,
+    onAskAbout,
+    onFindDuplicates
 }: LibraryTableProps) {
     const [filters, setFilters] = useState({
         starred: 'all' as 'all' | 'starred' | 'unstarred',
         title: '',
         authors: '',
         institutions: [] as string[],
+        categories: [] as string[],
+        venue: '',
         publishedStart: '',
         publishedEnd: '',
         read: 'all' as 'all' | 'read' | 'unread',
         labels: [] as string[],
+        datasets: '',
+        code: 'all' as 'all' | 'available' | 'unavailable',
+        aiSummary: '',
         abstract: ''
     });
 
@@ -72,6 +124,14 @@ export function LibraryTable({
         return Array.from(institutions).sort();
     }, [papers]);
 
+    const uniqueCategories = useMemo(() => {
+        const categories = new Set<string>();
+        papers.forEach(p => {
+            p.categories?.forEach(c => categories.add(c));
+        });
+        return Array.from(categories).sort();
+    }, [papers]);
+
     const uniqueLabels = useMemo(() => {
         const labels = new Set<string>();
         papers.forEach(p => {
@@ -97,6 +157,17 @@ export function LibraryTable({
         }
     };
 
+    const lockStatus = (paper: SavedPaper, field: EditableField) => onReviewSuggestion && onUnlockField && (
+        <FieldLockStatus
+            field={field}
+            locked={!!paper.lockedFields?.includes(field)}
+            suggestion={paper.fieldSuggestions?.[field]}
+            onReview={(f, accept) => onReviewSuggestion(paper.id, f, accept)}
+            onUnlock={(f) => onUnlockField(paper.id, f)}
+            compact
+        />
+    );
+
     const handleSort = (key: keyof SavedPaper | 'firstAuthor') => {
         setSortConfig(current => {
             if (current?.key === key) {
@@ -124,6 +195,15 @@ export function LibraryTable({
         if (filters.institutions.length > 0) {
             result = result.filter(p => p.institution && filters.institutions.includes(p.institution));
         }
+        if (filters.categories.length > 0) {
+            result = result.filter(p => p.categories?.some(c => filters.categories.includes(c)));
+        }
+        if (filters.venue) {
+            const venue = filters.venue.toLowerCase();
+            result = result.filter(p =>
+                p.comment?.toLowerCase().includes(venue) || p.journalRef?.toLowerCase().includes(venue)
+            );
+        }
         if (filters.publishedStart) {
             result = result.filter(p => new Date(p.published) >= new Date(filters.publishedStart));
         }
@@ -136,6 +216,16 @@ export function LibraryTable({
         if (filters.labels.length > 0) {
             result = result.filter(p => p.topics?.some(t => filters.labels.includes(t.name)));
         }
+        if (filters.datasets) {
+            const dataset = filters.datasets.toLowerCase();
+            result = result.filter(p => p.datasets?.some(d => d.toLowerCase().includes(dataset)));
+        }
+        if (filters.code !== 'all') {
+            result = result.filter(p => filters.code === 'available' ? p.codeAvailable : p.codeAvailable === false);
+        }
+        if (filters.aiSummary) {
+            result = result.filter(p => [p.aiSummary, p.translatedSummary].some(text => text?.toLowerCase().includes(filters.aiSummary.toLowerCase())));
+        }
         if (filters.abstract) {
             result = result.filter(p => p.summary?.toLowerCase().includes(filters.abstract.toLowerCase()));
         }
@@ -174,6 +264,58 @@ export function LibraryTable({
             <div className="space-y-4">
                 <div className="flex items-center gap-4">
                     <div className="flex gap-2 ml-auto">
+                        {onTemplateChange && templates.length > 0 && (
+                            <select
+                                className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                                value={templateId || templates[0].id}
+                                onChange={(e) => onTemplateChange(e.target.value)}
+                                title="Summary template used when regenerating"
+                            >
+                                {templates.map(template => (
+                                    <option key={template.id} value={template.id}>
+                                        {template.name}{template.owner ? ` (${template.owner})` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        {onAskAbout && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => onAskAbout(filteredAndSortedPapers.map(paper => paper.id))}
+                                disabled={filteredAndSortedPapers.length === 0}
+                                title="Ask questions answered from the papers shown"
+                            >
+                                <MessageSquare className="mr-2 h-4 w-4" />
+                                Ask about these ({filteredAndSortedPapers.length})
+                            </Button>
+                        )}
+                        {onFindDuplicates && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={onFindDuplicates}
+                                title="Find papers the catalog holds more than once and merge them"
+                            >
+                                <Copy className="mr-2 h-4 w-4" />
+                                Find Duplicates
+                            </Button>
+                        )}
+                        {onCheckUpdates && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={onCheckUpdates}
+                                disabled={checkingUpdates}
+                            >
+                                {checkingUpdates ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                ) : (
+                                    <History className="mr-2 h-4 w-4" />
+                                )}
+                                Check for Updates
+                            </Button>
+                        )}
                         {onRegenerateEmpty && (
                             <Button
                                 variant="outline"
@@ -240,6 +382,13 @@ export function LibraryTable({
                                         <ArrowUpDown className="ml-2 h-4 w-4" />
                                     </Button>
                                 </TableHead>
+                                <TableHead className="w-[100px]">
+                                    <Button variant="ghost" onClick={() => handleSort('primaryCategory')} className="h-8 text-left font-bold p-0 hover:bg-transparent">
+                                        Category
+                                        <ArrowUpDown className="ml-2 h-4 w-4" />
+                                    </Button>
+                                </TableHead>
+                                <TableHead className="w-[150px]">Venue</TableHead>
                                 <TableHead className="w-[100px]">
                                     <Button variant="ghost" onClick={() => handleSort('published')} className="h-8 text-left font-bold p-0 hover:bg-transparent">
                                         Published
@@ -248,6 +397,9 @@ export function LibraryTable({
                                 </TableHead>
                                 <TableHead className="w-[80px]">Read</TableHead>
                                 <TableHead className="w-[150px]">Labels</TableHead>
+                                <TableHead className="w-[150px]">Datasets</TableHead>
+                                <TableHead className="w-[70px]">Code</TableHead>
+                                <TableHead className="min-w-[200px]">Summary</TableHead>
                                 <TableHead className="min-w-[200px]">Abstract</TableHead>
                                 <TableHead className="w-[80px]">Actions</TableHead>
                             </TableRow>
@@ -288,6 +440,23 @@ export function LibraryTable({
                                         searchPlaceholder="Search inst..."
                                     />
                                 </TableHead>
+                                <TableHead className="p-2">
+                                    <MultiSelectFilter
+                                        options={uniqueCategories}
+                                        selected={filters.categories}
+                                        onChange={(selected) => setFilters(prev => ({ ...prev, categories: selected }))}
+                                        placeholder="Cat..."
+                                        searchPlaceholder="Search categories..."
+                                    />
+                                </TableHead>
+                                <TableHead className="p-2">
+                                    <Input
+                                        placeholder="Filter venue..."
+                                        value={filters.venue}
+                                        onChange={(e) => setFilters(prev => ({ ...prev, venue: e.target.value }))}
+                                        className="h-7 text-xs"
+                                    />
+                                </TableHead>
                                 <TableHead className="p-2">
                                     <DateRangeFilter
                                         start={filters.publishedStart}
@@ -315,6 +484,33 @@ export function LibraryTable({
                                         searchPlaceholder="Search labels..."
                                     />
                                 </TableHead>
+                                <TableHead className="p-2">
+                                    <Input
+                                        placeholder="Filter datasets..."
+                                        value={filters.datasets}
+                                        onChange={(e) => setFilters(prev => ({ ...prev, datasets: e.target.value }))}
+                                        className="h-7 text-xs"
+                                    />
+                                </TableHead>
+                                <TableHead className="p-2">
+                                    <select
+                                        className="h-7 w-full rounded-md border border-input bg-background px-1 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                                        value={filters.code}
+                                        onChange={(e) => setFilters(prev => ({ ...prev, code: e.target.value as typeof filters.code }))}
+                                    >
+                                        <option value="all">All</option>
+                                        <option value="available">Yes</option>
+                                        <option value="unavailable">No</option>
+                                    </select>
+                                </TableHead>
+                                <TableHead className="p-2">
+                                    <Input
+                                        placeholder="Filter summary..."
+                                        value={filters.aiSummary}
+                                        onChange={(e) => setFilters(prev => ({ ...prev, aiSummary: e.target.value }))}
+                                        className="h-7 text-xs"
+                                    />
+                                </TableHead>
                                 <TableHead className="p-2">
                                     <Input
                                         placeholder="Filter abstract..."
@@ -341,9 +537,16 @@ export function LibraryTable({
                                     </TableCell>
                                     <TableCell className="font-medium">
                                         <div className="space-y-1">
-                                            <a href={`/paper/${encodeURIComponent(paper.id)}`} className="hover:underline text-blue-600 dark:text-blue-400 block line-clamp-2">
-                                                {paper.title}
-                                            </a>
+                                            <EditableText
+                                                value={paper.title}
+                                                onSave={(title) => onEditField ? onEditField(paper.id, { title }) : Promise.resolve(false)}
+                                                disabled={!onEditField}
+                                            >
+                                                <a href={paperHref(paper.id)} className="hover:underline text-blue-600 dark:text-blue-400 block line-clamp-2">
+                                                    {paper.title}
+                                                </a>
+                                            </EditableText>
+                                            {lockStatus(paper, 'title')}
                                             <div className="flex gap-2">
                                                 {paper.link && (
                                                     <a href={paper.link} target="_blank" rel="noopener noreferrer" className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1">
@@ -356,6 +559,30 @@ export function LibraryTable({
                                                     </a>
                                                 )}
                                             </div>
+                                            {paper.hasNewVersion && (
+                                                <div className="flex items-center gap-1">
+                                                    <Badge className="text-[10px] bg-amber-500 hover:bg-amber-500 whitespace-nowrap">
+                                                        v{paper.arxivVersion} available
+                                                    </Badge>
+                                                    {onReanalyzeVersion && (
+                                                        <button
+                                                            onClick={() => onReanalyzeVersion(paper.id)}
+                                                            className="text-[10px] text-blue-600 hover:underline"
+                                                            disabled={regeneratingId === paper.id}
+                                                        >
+                                                            Re-analyze
+                                                        </button>
+                                                    )}
+                                                    {onDismissVersion && (
+                                                        <button
+                                                            onClick={() => onDismissVersion(paper.id)}
+                                                            className="text-[10px] text-gray-500 hover:underline"
+                                                        >
+                                                            Dismiss
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            )}
 
                                         </div>
                                     </TableCell>
@@ -372,9 +599,34 @@ export function LibraryTable({
                                         </div>
                                     </TableCell>
                                     <TableCell>
-                                        {paper.institution ? (
-                                            <span className="text-sm text-gray-600 dark:text-gray-400">
-                                                {paper.institution}
+                                        <EditableText
+                                            value={paper.institution ?? ''}
+                                            onSave={(institution) => onEditField ? onEditField(paper.id, { institution }) : Promise.resolve(false)}
+                                            disabled={!onEditField}
+                                        >
+                                            {paper.institution ? (
+                                                <span className="text-sm text-gray-600 dark:text-gray-400">
+                                                    {paper.institution}
+                                                </span>
+                                            ) : (
+                                                <span className="text-xs text-gray-400 italic">N/A</span>
+                                            )}
+                                        </EditableText>
+                                        {lockStatus(paper, 'institution')}
+                                    </TableCell>
+                                    <TableCell>
+                                        {paper.primaryCategory ? (
+                                            <Badge variant="outline" className="text-[10px] whitespace-nowrap" title={paper.categories?.join(', ')}>
+                                                {paper.primaryCategory}
+                                            </Badge>
+                                        ) : (
+                                            <span className="text-xs text-gray-400 italic">N/A</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        {paper.journalRef || paper.comment ? (
+                                            <span className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3" title={[paper.journalRef, paper.comment].filter(Boolean).join(' — ')}>
+                                                {paper.journalRef || paper.comment}
                                             </span>
                                         ) : (
                                             <span className="text-xs text-gray-400 italic">N/A</span>
@@ -404,7 +656,7 @@ export function LibraryTable({
                                                     variant="secondary"
                                                     className="rounded-full text-[10px] px-2.5 py-0.5 h-6 whitespace-nowrap group relative pr-6 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors cursor-default border border-transparent hover:border-gray-300 dark:hover:border-gray-600"
                                                 >
-                                                    {topic.name}
+                                                    {topic.translatedName ?? topic.name}
                                                     <button
                                                         onClick={() => onRemoveTopic(paper.id, topic.id)}
                                                         className="absolute right-1 top-1/2 -translate-y-1/2 p-0.5 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-100 dark:hover:bg-red-900/30 opacity-0 group-hover:opacity-100 transition-all"
@@ -454,6 +706,78 @@ export function LibraryTable({
                                                 </Button>
                                             )}
                                         </div>
+                                        {lockStatus(paper, 'topics')}
+                                    </TableCell>
+                                    <TableCell>
+                                        <div
+                                            className="flex flex-wrap gap-1"
+                                            title={paper.metrics?.map(m => `${m.name}: ${m.value}${m.dataset ? ` (${m.dataset})` : ''}`).join('\n')}
+                                        >
+                                            {paper.datasets?.map(dataset => (
+                                                <Badge key={dataset} variant="outline" className="text-[10px] whitespace-nowrap">
+                                                    {dataset}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    </TableCell>
+                                    <TableCell>
+                                        {paper.codeUrl ? (
+                                            <a href={paper.codeUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-600 hover:underline flex items-center gap-1">
+                                                <ExternalLink size={10} /> Code
+                                            </a>
+                                        ) : paper.codeAvailable ? (
+                                            <span className="text-xs text-gray-600">Yes</span>
+                                        ) : paper.codeAvailable === false ? (
+                                            <span className="text-xs text-gray-400">No</span>
+                                        ) : (
+                                            <span className="text-xs text-gray-400 italic">N/A</span>
+                                        )}
+                                    </TableCell>
+                                    <TableCell>
+                                        {isAnalysisActive(paper) && (
+                                            <Badge
+                                                variant="outline"
+                                                className="mb-1 text-xs text-blue-600 border-blue-200 bg-blue-50 dark:bg-blue-900/20 flex items-center gap-1 w-fit"
+                                                title={paper.analysisJob?.lastError ?? undefined}
+                                            >
+                                                {paper.analysisJob?.status === 'running' ? (
+                                                    <><Loader2 className="animate-spin h-3 w-3" /> Analyzing...</>
+                                                ) : paper.analysisJob?.attempts ? (
+                                                    `Retrying (attempt ${paper.analysisJob.attempts + 1})`
+                                                ) : (
+                                                    'Queued for analysis'
+                                                )}
+                                            </Badge>
+                                        )}
+                                        {!isAnalysisActive(paper) && paper.analysisStatus && ANALYSIS_FAILURE_LABELS[paper.analysisStatus] && (
+                                            <Badge
+                                                variant="outline"
+                                                className="mb-1 text-xs text-red-600 border-red-200 bg-red-50 dark:bg-red-900/20"
+                                                title={paper.analysisError ?? undefined}
+                                            >
+                                                {ANALYSIS_FAILURE_LABELS[paper.analysisStatus]}
+                                            </Badge>
+                                        )}
+                                        <EditableText
+                                            value={paper.aiSummary ?? ''}
+                                            onSave={(summary) => onEditField ? onEditField(paper.id, { summary }) : Promise.resolve(false)}
+                                            multiline
+                                            disabled={!onEditField}
+                                        >
+                                            <Tooltip>
+                                                <TooltipTrigger asChild>
+                                                    <p className="text-sm text-gray-600 dark:text-gray-300 line-clamp-3 min-w-[200px] cursor-help">
+                                                        {paper.translatedSummary ?? paper.aiSummary}
+                                                    </p>
+                                                </TooltipTrigger>
+                                                <TooltipContent className="max-w-md p-3">
+                                                    <p className="text-sm">{paper.translatedSummary ?? paper.aiSummary}</p>
+                                                    {/* Edits change the original, so show it alongside the translation */}
+                                                    {paper.translatedSummary && <p className="text-xs text-gray-400 mt-2">{paper.aiSummary}</p>}
+                                                </TooltipContent>
+                                            </Tooltip>
+                                        </EditableText>
+                                        {lockStatus(paper, 'summary')}
                                     </TableCell>
                                     <TableCell>
                                         <Tooltip>
@@ -474,7 +798,7 @@ export function LibraryTable({
                                                 size="sm"
                                                 className="h-7 text-xs w-full"
                                                 onClick={() => onRegenerateSummary(paper.id)}
-                                                disabled={regeneratingId === paper.id}
+                                                disabled={regeneratingId === paper.id || isAnalysisActive(paper)}
                                             >
                                                 {regeneratingId === paper.id ? <Loader2 className="animate-spin h-3 w-3 mr-1" /> : <RefreshCw className="h-3 w-3 mr-1" />}
                                                 {regeneratingId === paper.id ? 'Regenerating...' : 'Regenerate'}
@@ -493,7 +817,7 @@ export function LibraryTable({
                             ))}
                             {filteredAndSortedPapers.length === 0 && (
                                 <TableRow>
-                                    <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                                    <TableCell colSpan={11} className="text-center py-8 text-gray-500">
                                         No papers found matching your filter.
                                     </TableCell>
                                 </TableRow>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { ExternalLink, FileText, BookmarkPlus, Check, Loader2 } from 'lucide-react';
+import { SOURCE_LABELS, SourceId } from '@/lib/sources/types';
 
 interface PaperCardProps {
     paper: {
@@ -16,6 +17,8 @@ interface PaperCardProps {
         pdfLink?: string;
         topics?: { id: string; name: string }[];
         institution?: string | null;
+        source?: SourceId;
+        sources?: SourceId[];
     };
     paperId: string;
     onClick: () => void;
@@ -25,6 +28,9 @@ interface PaperCardProps {
 }
 
 export function PaperCard({ paper, paperId, onClick, onSave, isSaved, isSaving }: PaperCardProps) {
+    const source = paper.source ?? 'arxiv';
+    const sources = paper.sources ?? [source];
+
     return (
         <TooltipProvider>
             <div
@@ -43,6 +49,11 @@ export function PaperCard({ paper, paperId, onClick, onSave, isSaved, isSaving }
                 </div>
 
                 <div className="flex flex-wrap gap-2 mb-3">
+                    {sources.map(s => (
+                        <Badge key={s} variant="secondary" className="text-xs">
+                            {SOURCE_LABELS[s]}
+                        </Badge>
+                    ))}
                     {paper.authors.slice(0, 3).map((author, i) => (
                         <Badge key={i} variant="outline" className="text-xs bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200 border-transparent">
                             {author}
@@ -73,7 +84,7 @@ export function PaperCard({ paper, paperId, onClick, onSave, isSaved, isSaving }
                 <div className="flex gap-2 mt-auto items-center" onClick={(e) => e.stopPropagation()}>
                     {paper.link && (
                         <a href={paper.link} target="_blank" rel="noopener noreferrer" className="text-xs flex items-center gap-1 text-blue-600 hover:underline">
-                            <ExternalLink size={12} /> View on ArXiv
+                            <ExternalLink size={12} /> View on {SOURCE_LABELS[source]}
                         </a>
                     )}
                     {paper.pdfLink && (
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Loader2, MessageSquare, Send, Trash2 } from 'lucide-react';
+import { askPaperAction, clearPaperChatAction, getPaperChatAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import type { ChatCitation, ChatMessage } from '@/lib/paperChat';
+
+function citationLocation(citation: ChatCitation): string {
+    if (citation.pageStart === null) return citation.heading;
+    const pages = citation.pageEnd !== null && citation.pageEnd !== citation.pageStart
+        ? `pp. ${citation.pageStart}–${citation.pageEnd}`
+        : `p. ${citation.pageStart}`;
+    return `${citation.heading} · ${pages}`;
+}
+
+function Citations({ citations }: { citations: ChatCitation[] }) {
+    if (citations.length === 0) return null;
+    return (
+        <ul className="mt-2 space-y-1 text-xs">
+            {citations.map(citation => (
+                <li key={citation.ref}>
+                    <details>
+                        <summary className="cursor-pointer text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                            <span className="font-mono">[{citation.ref}]</span> {citationLocation(citation)}
+                        </summary>
+                        <p className="mt-1 pl-4 border-l-2 border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                            {citation.excerpt}
+                        </p>
+                    </details>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/**
+ * Questions about the paper, answered from its text with citations to the sections
+ * and pages the answer comes from. The conversation is kept per user.
+ */
+export function PaperChat({ paperId }: { paperId: string }) {
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    const [question, setQuestion] = useState('');
+    const [pending, setPending] = useState<string | null>(null);
+
+    useEffect(() => {
+        const init = async () => {
+            setMessages(await getPaperChatAction(paperId));
+        };
+        init();
+    }, [paperId]);
+
+    const handleAsk = async () => {
+        const text = question.trim();
+        if (!text || pending) return;
+        setPending(text);
+        setQuestion('');
+        try {
+            const result = await askPaperAction(paperId, text);
+            if (!result.success) {
+                alert(result.error);
+                setQuestion(text);
+                return;
+            }
+            setMessages(prev => [...prev, ...result.messages!]);
+        } finally {
+            setPending(null);
+        }
+    };
+
+    const handleClear = async () => {
+        if (!confirm('Clear this conversation?')) return;
+        await clearPaperChatAction(paperId);
+        setMessages([]);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleAsk();
+        }
+    };
+
+    return (
+        <section className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white">
+                    <MessageSquare className="h-5 w-5" /> Ask About This Paper
+                </h2>
+                {messages.length > 0 && (
+                    <Button variant="ghost" size="sm" onClick={handleClear} className="text-gray-500">
+                        <Trash2 className="h-4 w-4 mr-1" /> Clear
+                    </Button>
+                )}
+            </div>
+
+            {(messages.length > 0 || pending) && (
+                <div className="space-y-3 mb-3 max-h-[32rem] overflow-y-auto">
+                    {messages.map(message => message.role === 'user' ? (
+                        <div key={message.id} className="ml-12 rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm whitespace-pre-wrap">
+                            {message.content}
+                        </div>
+                    ) : (
+                        <div key={message.id} className="mr-12 rounded-lg border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 px-3 py-2">
+                            <div className="prose prose-sm dark:prose-invert max-w-none">
+                                <ReactMarkdown>{message.content}</ReactMarkdown>
+                            </div>
+                            <Citations citations={message.citations} />
+                        </div>
+                    ))}
+                    {pending && (
+                        <>
+                            <div className="ml-12 rounded-lg bg-gray-100 dark:bg-gray-700 px-3 py-2 text-sm whitespace-pre-wrap">{pending}</div>
+                            <div className="flex items-center gap-2 text-sm text-gray-500">
+                                <Loader2 className="animate-spin h-4 w-4" /> Reading the paper...
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+
+            <div className="flex items-end gap-2">
+                <textarea
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder="e.g. Which datasets do they evaluate on, and how big is the gain over the baselines?"
+                    rows={2}
+                    className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                />
+                <Button onClick={handleAsk} disabled={!question.trim() || !!pending}>
+                    <Send className="h-4 w-4" />
+                </Button>
+            </div>
+        </section>
+    );
+}
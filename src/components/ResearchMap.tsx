@@ -0,0 +1,405 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FolderPlus, Layers, Loader2, MessageSquare, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+    createCollectionAction,
+    deleteCollectionAction,
+    getResearchMapAction,
+    listCollectionsAction,
+    rebuildClustersAction,
+} from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { PaperCard } from '@/components/PaperCard';
+import type { MapPoint, ResearchMap as Map2D } from '@/lib/researchMap';
+import type { PaperCollection } from '@/lib/collections';
+
+const TOPIC_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#db2777', '#65a30d', '#ca8a04', '#4f46e5'];
+const WIDTH = 900;
+const HEIGHT = 600;
+// Keeps the outermost points and their labels inside the frame
+const PADDING = 30;
+
+// Library clusters, the catalog's clusters, or topics
+type ColorBy = 'cluster' | 'catalog' | 'topic';
+
+interface PlacedPoint extends MapPoint {
+    cx: number;
+    cy: number;
+    year: number;
+}
+
+function radius(point: MapPoint): number {
+    return 4 + 2 * Math.sqrt(point.citations);
+}
+
+// Ray casting: is (x, y) inside the polygon?
+function insidePolygon(x: number, y: number, polygon: [number, number][]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+        if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+}
+
+interface ResearchMapProps {
+    onOpenPaper: (paperId: string) => void;
+    onAskAbout: (paperIds: string[], label: string) => void;
+}
+
+/**
+ * The library as a map: papers about similar things sit close together. Drawing
+ * around an area selects its papers, which can be kept as a collection or asked about.
+ */
+export function ResearchMap({ onOpenPaper, onAskAbout }: ResearchMapProps) {
+    const [map, setMap] = useState<Map2D | null>(null);
+    const [collections, setCollections] = useState<PaperCollection[]>([]);
+    const [colorBy, setColorBy] = useState<ColorBy>('cluster');
+    const [filters, setFilters] = useState({ yearFrom: '', yearTo: '' });
+    const [hovered, setHovered] = useState<{ point: PlacedPoint; left: number; top: number } | null>(null);
+    const [lasso, setLasso] = useState<[number, number][] | null>(null);
+    const [selection, setSelection] = useState<{ paperIds: string[]; label: string } | null>(null);
+    const [rebuilding, setRebuilding] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        // Load the map and the user's collections on mount
+        const init = async () => {
+            try {
+                const [loaded, saved] = await Promise.all([getResearchMapAction(), listCollectionsAction()]);
+                setMap(loaded);
+                setCollections(saved);
+            } catch (error) {
+                console.error('Failed to load research map:', error);
+                setMap({ points: [], clusters: [], catalogClusters: [], unplaced: 0 });
+            }
+        };
+        init();
+    }, []);
+
+    const topics = useMemo(
+        () => Array.from(new Set((map?.points ?? []).flatMap(point => point.topics.slice(0, 1).map(topic => topic.name)))).sort(),
+        [map]
+    );
+
+    const visible = useMemo<PlacedPoint[]>(() => (map?.points ?? [])
+        .map(point => ({
+            ...point,
+            cx: PADDING + point.x * (WIDTH - 2 * PADDING),
+            // Screen y grows downwards
+            cy: PADDING + (1 - point.y) * (HEIGHT - 2 * PADDING),
+            year: new Date(point.paper.published).getFullYear(),
+        }))
+        .filter(point => (!filters.yearFrom || point.year >= Number(filters.yearFrom))
+            && (!filters.yearTo || point.year <= Number(filters.yearTo)))
+        // Small points last, so they aren't hidden under big ones
+        .sort((a, b) => b.citations - a.citations), [map, filters]);
+
+    const selectedIds = useMemo(() => new Set(selection?.paperIds ?? []), [selection]);
+
+    const colorOf = (point: MapPoint) => {
+        const index = colorBy === 'cluster'
+            ? (map?.clusters ?? []).findIndex(cluster => cluster.id === point.clusterId)
+            : colorBy === 'catalog'
+            ? (map?.catalogClusters ?? []).findIndex(cluster => cluster.id === point.catalogClusterId)
+            : point.topics.length > 0 ? topics.indexOf(point.topics[0].name) : -1;
+        return index >= 0 ? TOPIC_COLORS[index % TOPIC_COLORS.length] : '#9ca3af';
+    };
+
+    const legend = colorBy !== 'topic'
+        ? (colorBy === 'cluster' ? map?.clusters ?? [] : map?.catalogClusters ?? [])
+            .map((cluster, index) => ({ key: cluster.id, name: cluster.name, title: cluster.description ?? undefined, index }))
+        : topics.map((topic, index) => ({ key: topic, name: topic, title: undefined, index }));
+
+    // Mouse position in the SVG's own coordinates
+    const toMap = (e: React.MouseEvent): [number, number] => {
+        const svg = svgRef.current!;
+        const point = svg.createSVGPoint();
+        point.x = e.clientX;
+        point.y = e.clientY;
+        const { x, y } = point.matrixTransform(svg.getScreenCTM()!.inverse());
+        return [x, y];
+    };
+
+    const finishLasso = () => {
+        if (!lasso) return;
+        setLasso(null);
+        // A click rather than a drag clears the selection
+        if (lasso.length < 3) {
+            setSelection(null);
+            return;
+        }
+        const paperIds = visible.filter(point => insidePolygon(point.cx, point.cy, lasso)).map(point => point.paper.id);
+        setSelection(paperIds.length > 0 ? { paperIds, label: `${paperIds.length} ${paperIds.length === 1 ? 'paper' : 'papers'} from the research map` } : null);
+    };
+
+    const handleHover = (e: React.MouseEvent, point: PlacedPoint) => {
+        if (lasso) return;
+        const bounds = containerRef.current!.getBoundingClientRect();
+        setHovered({ point, left: e.clientX - bounds.left, top: e.clientY - bounds.top });
+    };
+
+    const handleRebuild = async () => {
+        setRebuilding(true);
+        try {
+            const result = await rebuildClustersAction();
+            if (!result.success) {
+                alert(result.error);
+                return;
+            }
+            setMap(await getResearchMapAction());
+        } finally {
+            setRebuilding(false);
+        }
+    };
+
+    const handleSaveCollection = async () => {
+        if (!selection) return;
+        const name = prompt('Name this collection:');
+        if (!name) return;
+        setSaving(true);
+        try {
+            const result = await createCollectionAction(name, selection.paperIds);
+            if (!result.success || !result.collection) {
+                alert(result.error);
+                return;
+            }
+            const collection = result.collection;
+            setCollections(current => [collection, ...current]);
+            setSelection({ paperIds: collection.paperIds, label: collection.name });
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeleteCollection = async (collection: PaperCollection) => {
+        if (!confirm(`Delete the collection "${collection.name}"? Its papers stay in your library.`)) return;
+        const result = await deleteCollectionAction(collection.id);
+        if (!result.success) {
+            alert(result.error);
+            return;
+        }
+        setCollections(current => current.filter(entry => entry.id !== collection.id));
+    };
+
+    if (!map) {
+        return (
+            <div className="flex justify-center py-12">
+                <Loader2 className="animate-spin h-8 w-8 text-gray-400" />
+            </div>
+        );
+    }
+
+    if (map.points.length === 0) {
+        return (
+            <div className="text-center text-gray-500 mt-12">
+                <Layers className="mx-auto h-12 w-12 text-gray-300 mb-4" />
+                <p>
+                    {map.unplaced > 0
+                        ? 'None of your papers are embedded yet. Papers are placed on the map once an embedding model is configured.'
+                        : 'Your library is empty. Save some papers to see them on the map.'}
+                </p>
+            </div>
+        );
+    }
+
+    const selected = visible.filter(point => selectedIds.has(point.paper.id));
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3">
+                <select
+                    className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                    value={colorBy}
+                    onChange={(e) => setColorBy(e.target.value as ColorBy)}
+                >
+                    <option value="cluster">Color by cluster</option>
+                    <option value="catalog">Color by catalog cluster</option>
+                    <option value="topic">Color by topic</option>
+                </select>
+                <Input
+                    type="number"
+                    placeholder="From year"
+                    value={filters.yearFrom}
+                    onChange={(e) => setFilters(prev => ({ ...prev, yearFrom: e.target.value }))}
+                    className="w-28 h-9"
+                />
+                <Input
+                    type="number"
+                    placeholder="To year"
+                    value={filters.yearTo}
+                    onChange={(e) => setFilters(prev => ({ ...prev, yearTo: e.target.value }))}
+                    className="w-28 h-9"
+                />
+                <span className="text-sm text-gray-500 ml-auto">
+                    {visible.length} papers{map.unplaced > 0 && `, ${map.unplaced} not placed yet`}. Draw around papers to select them.
+                </span>
+            </div>
+
+            <div className="flex gap-4">
+                <div ref={containerRef} className="relative flex-1 bg-white dark:bg-gray-800 rounded-lg shadow-md overflow-hidden">
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        className="w-full h-[600px] cursor-crosshair select-none"
+                        onMouseDown={(e) => {
+                            setHovered(null);
+                            setLasso([toMap(e)]);
+                        }}
+                        onMouseMove={(e) => {
+                            if (lasso) setLasso([...lasso, toMap(e)]);
+                        }}
+                        onMouseUp={finishLasso}
+                        onMouseLeave={finishLasso}
+                    >
+                        {visible.map(point => {
+                            const isSelected = selectedIds.has(point.paper.id);
+                            return (
+                                <circle
+                                    key={point.paper.id}
+                                    cx={point.cx}
+                                    cy={point.cy}
+                                    r={radius(point)}
+                                    fill={colorOf(point)}
+                                    fillOpacity={selection && !isSelected ? 0.25 : 0.85}
+                                    stroke={isSelected ? '#111827' : '#ffffff'}
+                                    strokeWidth={isSelected ? 2 : 1}
+                                    className="cursor-pointer"
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    onMouseEnter={(e) => handleHover(e, point)}
+                                    onMouseLeave={() => setHovered(null)}
+                                    onClick={() => onOpenPaper(point.paper.id)}
+                                />
+                            );
+                        })}
+                        {lasso && (
+                            <polygon
+                                points={lasso.map(([x, y]) => `${x},${y}`).join(' ')}
+                                fill="#2563eb"
+                                fillOpacity={0.08}
+                                stroke="#2563eb"
+                                strokeDasharray="4 3"
+                                className="pointer-events-none"
+                            />
+                        )}
+                    </svg>
+
+                    {hovered && (
+                        <div
+                            className="absolute z-10 w-96 pointer-events-none"
+                            style={{
+                                // Open towards the middle so the card stays on the map
+                                left: hovered.point.cx < WIDTH / 2 ? hovered.left + 12 : undefined,
+                                right: hovered.point.cx >= WIDTH / 2 ? (containerRef.current?.clientWidth ?? 0) - hovered.left + 12 : undefined,
+                                top: hovered.point.cy < HEIGHT / 2 ? hovered.top + 12 : undefined,
+                                bottom: hovered.point.cy >= HEIGHT / 2 ? (containerRef.current?.clientHeight ?? 0) - hovered.top + 12 : undefined,
+                            }}
+                        >
+                            <PaperCard
+                                paper={{ ...hovered.point.paper, topics: hovered.point.topics }}
+                                paperId={hovered.point.paper.id}
+                                onClick={() => onOpenPaper(hovered.point.paper.id)}
+                                isSaved
+                            />
+                        </div>
+                    )}
+                </div>
+
+                <div className="w-80 space-y-4">
+                    {selection && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-3">
+                            <div className="flex items-center justify-between">
+                                <h3 className="font-semibold text-gray-900 dark:text-white">{selection.label}</h3>
+                                <button className="text-gray-400 hover:text-gray-600" onClick={() => setSelection(null)} title="Clear selection">
+                                    <X className="h-4 w-4" />
+                                </button>
+                            </div>
+                            <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                                {selected.map(point => (
+                                    <li key={point.paper.id}>
+                                        <button className="text-left text-blue-600 hover:underline line-clamp-1" onClick={() => onOpenPaper(point.paper.id)}>
+                                            {point.paper.title}
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                            {selected.length < selection.paperIds.length && (
+                                <p className="text-xs text-gray-500">{selection.paperIds.length - selected.length} more hidden by the year filter</p>
+                            )}
+                            <div className="flex flex-wrap gap-2">
+                                <Button size="sm" onClick={() => onAskAbout(selection.paperIds, selection.label)}>
+                                    <MessageSquare className="h-3 w-3 mr-1" /> Ask about these
+                                </Button>
+                                <Button variant="outline" size="sm" onClick={handleSaveCollection} disabled={saving}>
+                                    {saving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <FolderPlus className="h-3 w-3 mr-1" />}
+                                    Save as collection
+                                </Button>
+                            </div>
+                        </div>
+                    )}
+
+                    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-2">
+                        <div className="flex items-center justify-between">
+                            <h3 className="font-semibold text-gray-900 dark:text-white">{colorBy === 'cluster' ? 'Clusters' : colorBy === 'catalog' ? 'Catalog clusters' : 'Topics'}</h3>
+                            {colorBy === 'cluster' && (
+                                <Button variant="ghost" size="sm" onClick={handleRebuild} disabled={rebuilding}>
+                                    {rebuilding ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <RefreshCw className="h-3 w-3 mr-1" />}
+                                    {map.clusters.length > 0 ? 'Rebuild' : 'Build'}
+                                </Button>
+                            )}
+                        </div>
+                        {legend.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                {colorBy === 'cluster'
+                                    ? 'No clusters yet. They are built once your library has a few papers.'
+                                    : colorBy === 'catalog'
+                                    ? 'None of your papers are in a catalog cluster yet. The catalog is clustered on a schedule.'
+                                    : 'No topics yet. Topics are assigned when papers are analyzed.'}
+                            </p>
+                        ) : (
+                            <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+                                {legend.map(entry => (
+                                    <li key={entry.key} className="flex items-center gap-2" title={entry.title}>
+                                        <span className="h-3 w-3 rounded-full shrink-0" style={{ backgroundColor: TOPIC_COLORS[entry.index % TOPIC_COLORS.length] }} />
+                                        <span className="text-gray-700 dark:text-gray-300 line-clamp-1">{entry.name}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {collections.length > 0 && (
+                        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 space-y-2">
+                            <h3 className="font-semibold text-gray-900 dark:text-white">Collections</h3>
+                            <ul className="space-y-1 text-sm">
+                                {collections.map(collection => (
+                                    <li key={collection.id} className="flex items-center gap-2">
+                                        <button
+                                            className="flex-1 text-left text-blue-600 hover:underline line-clamp-1"
+                                            onClick={() => setSelection({ paperIds: collection.paperIds, label: collection.name })}
+                                        >
+                                            {collection.name}
+                                        </button>
+                                        <span className="text-xs text-gray-500">{collection.paperIds.length}</span>
+                                        <button
+                                            className="text-gray-400 hover:text-red-600"
+                                            onClick={() => handleDeleteCollection(collection)}
+                                            title="Delete collection"
+                                        >
+                                            <Trash2 className="h-3 w-3" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { semanticSearchAction } from '@/app/actions';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { PaperCard } from '@/components/PaperCard';
+import { ArxivPaper } from '@/lib/arxiv';
+import type { SearchScope, SemanticSearchResult } from '@/lib/semanticSearch';
+
+const MATCH_LABELS = {
+    keyword: 'Keywords',
+    meaning: 'Meaning',
+};
+
+interface SemanticSearchProps {
+    scope: SearchScope;
+    isSaved: (id: string) => boolean;
+    savingId: string | null;
+    onSave: (paper: ArxivPaper) => void;
+    onOpenPaper: (id: string) => void;
+}
+
+/**
+ * Search box over the user's library or the shared catalog that ranks papers by
+ * meaning as well as by the words they contain.
+ */
+export function SemanticSearch({ scope, isSaved, savingId, onSave, onOpenPaper }: SemanticSearchProps) {
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<SemanticSearchResult[] | null>(null);
+    const [semantic, setSemantic] = useState(true);
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+
+    const handleSearch = async () => {
+        if (!query.trim()) return;
+        setLoading(true);
+        try {
+            const response = await semanticSearchAction(query, scope);
+            setResults(response.results);
+            setSemantic(response.semantic);
+            setError(response.error ?? '');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div>
+            <div className="mb-6 flex gap-4">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-3 text-gray-400" size={20} />
+                    <Input
+                        placeholder={scope === 'library'
+                            ? "Describe what you're looking for in your library (e.g. 'making transformers cheaper at inference')..."
+                            : "Describe what you're looking for in saved and harvested papers..."}
+                        className="pl-10 py-6 text-lg"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                    />
+                </div>
+                <Button size="lg" onClick={handleSearch} disabled={loading}>
+                    {loading ? <Loader2 className="animate-spin" /> : 'Search'}
+                </Button>
+            </div>
+
+            {results && !semantic && !error && (
+                <div className="mb-6 text-sm text-amber-600">
+                    Semantic ranking is unavailable, so these are keyword matches only.
+                </div>
+            )}
+            {error && (
+                <div className="mb-6 text-sm text-red-500">Search failed: {error}</div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {results?.map(({ paper, matchedBy }) => (
+                    <div key={paper.id}>
+                        <div className="flex gap-1 mb-1">
+                            {matchedBy.map(kind => (
+                                <Badge key={kind} variant="outline" className="text-xs">{MATCH_LABELS[kind]}</Badge>
+                            ))}
+                        </div>
+                        <PaperCard
+                            paper={paper}
+                            paperId={paper.id}
+                            onClick={() => onOpenPaper(paper.id)}
+                            onSave={(e) => {
+                                e.stopPropagation();
+                                onSave(paper);
+                            }}
+                            isSaved={isSaved(paper.id)}
+                            isSaving={savingId === paper.id}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            {results?.length === 0 && !error && (
+                <div className="text-center text-gray-500 mt-12">
+                    <p>No matching papers{scope === 'library' ? ' in your library' : ''}.</p>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,84 @@
+/**
+ * The structured part of a paper analysis, and how it is stored on Paper. Lists are
+ * kept as JSON strings like the other list columns, so they can be searched with
+ * `contains` (e.g. datasets containing "MovieLens").
+ *
+ * No server imports: client components use these types and labels.
+ */
+
+export interface PaperMetric {
+    name: string;
+    value: string;
+    dataset: string | null;
+}
+
+export interface StructuredAnalysis {
+    problem: string | null;
+    method: string | null;
+    datasets: string[];
+    metrics: PaperMetric[];
+    results: string | null;
+    baselines: string[];
+    limitations: string | null;
+    compute: string | null;
+    codeAvailable: boolean | null;  // null when the paper doesn't say
+    codeUrl: string | null;
+}
+
+export const ANALYSIS_FIELD_LABELS: Record<keyof StructuredAnalysis, string> = {
+    problem: 'Problem',
+    method: 'Method',
+    datasets: 'Datasets',
+    metrics: 'Metrics',
+    results: 'Headline results',
+    baselines: 'Baselines',
+    limitations: 'Limitations',
+    compute: 'Compute',
+    codeAvailable: 'Code available',
+    codeUrl: 'Code',
+};
+
+// Paper columns, as stored
+export interface StructuredAnalysisColumns {
+    problem: string | null;
+    method: string | null;
+    datasets: string | null;
+    metrics: string | null;
+    results: string | null;
+    baselines: string | null;
+    limitations: string | null;
+    compute: string | null;
+    codeAvailable: boolean | null;
+    codeUrl: string | null;
+}
+
+export function encodeStructuredAnalysis(analysis: StructuredAnalysis): StructuredAnalysisColumns {
+    // Picks the fields explicitly: callers pass whole analyses that carry more than these
+    return {
+        problem: analysis.problem,
+        method: analysis.method,
+        datasets: JSON.stringify(analysis.datasets),
+        metrics: JSON.stringify(analysis.metrics),
+        results: analysis.results,
+        baselines: JSON.stringify(analysis.baselines),
+        limitations: analysis.limitations,
+        compute: analysis.compute,
+        codeAvailable: analysis.codeAvailable,
+        codeUrl: analysis.codeUrl,
+    };
+}
+
+export function decodeStructuredAnalysis(columns: StructuredAnalysisColumns): StructuredAnalysis {
+    return {
+        problem: columns.problem,
+        method: columns.method,
+        results: columns.results,
+        limitations: columns.limitations,
+        compute: columns.compute,
+        codeAvailable: columns.codeAvailable,
+        codeUrl: columns.codeUrl,
+        datasets: columns.datasets ? JSON.parse(columns.datasets) as string[] : [],
+        metrics: columns.metrics ? JSON.parse(columns.metrics) as PaperMetric[] : [],
+        baselines: columns.baselines ? JSON.parse(columns.baselines) as string[] : [],
+    };
+}
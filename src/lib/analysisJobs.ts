@@ -0,0 +1,334 @@
+import axios from 'axios';
+import { Prisma } from '@prisma/client';
+import { after } from 'next/server';
+import { prisma } from './db';
+import { AnalysisOptions, analyzeExtractedPaper, analyzePdfInline } from './analyzer';
+import { AnalysisTrigger, recordAnalysis } from './analysisRevisions';
+import { parseArxivId } from './arxivId';
+import { refreshEmbeddings } from './embeddings';
+import { analysisStatusOf } from './llm';
+import { ExtractedPaper, PdfExtractionError, extractPdfText } from './pdfText';
+import { savePaperContent } from './paperContent';
+import { DEFAULT_TEMPLATE_ID, getPromptTemplate } from './promptTemplates';
+import { storeReferences } from './references';
+import { translateForUser } from './translations';
+
+/**
+ * Durable queue for paper analysis.
+ *
+ * Jobs live in the AnalysisJob table, so queued work survives restarts and serverless
+ * freezes. Workers claim jobs in a serializable transaction that also counts the
+ * running ones, so at most ANALYSIS_CONCURRENCY run at a time across all processes,
+ * and push failed attempts back with exponential backoff. A paper has at most one
+ * queued or running job: enqueueing again returns the existing one, unless it was
+ * asked for with another prompt template. Results are stored as analysis revisions
+ * (analysisRevisions.ts) crediting whoever queued the job.
+ */
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+const CONCURRENCY = Number(process.env.ANALYSIS_CONCURRENCY || 2);
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A hung or huge PDF download fails the attempt instead of holding a worker
+const PDF_TIMEOUT_MS = 60 * 1000;
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+// A running job's worker refreshes its lock this often, so long map-reduce analyses aren't taken for dead
+const HEARTBEAT_MS = 60 * 1000;
+// A running job whose lock hasn't been refreshed in this long is assumed dead
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+interface AnalysisJob {
+    id: string;
+    paperId: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    trigger: string;
+    requestedBy: string | null;
+    templateId: string | null;
+}
+
+export interface AnalysisState {
+    summary: string | null;
+    analysisStatus: string | null;
+    analyzedVersion: number | null;
+    arxivVersion: number | null;
+}
+
+export class AnalysisInProgressError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AnalysisInProgressError';
+    }
+}
+
+// Failures that retrying won't fix
+class PermanentJobError extends Error {}
+
+function backoffDelay(attempts: number): number {
+    return Math.min(BASE_BACKOFF_MS * 4 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Whether the paper's shared analysis is good and from its latest known version.
+ * Saving such a paper doesn't analyze it again, so one user's save doesn't replace the
+ * summary everyone else reads; regenerating is an explicit request.
+ */
+export function hasCurrentAnalysis(paper: AnalysisState): boolean {
+    // Summaries from before analysisStatus was recorded have none
+    if (!paper.summary || (paper.analysisStatus && paper.analysisStatus !== 'ok')) return false;
+    return paper.arxivVersion == null || paper.analyzedVersion == null || paper.analyzedVersion >= paper.arxivVersion;
+}
+
+// The active job stands in for a new request only if it writes the summary the way asked for;
+// a request that names no template (a save) takes whichever is running
+function activeJobFor(active: AnalysisJob, templateId: string | null | undefined): AnalysisJob {
+    if (templateId !== undefined && active.templateId !== templateId) {
+        throw new AnalysisInProgressError('This paper is already being analyzed with another template. Try again once it finishes.');
+    }
+    return active;
+}
+
+/**
+ * Queues an analysis of the paper unless one is already queued or running, and says
+ * whether a job was created for this request. Throws AnalysisInProgressError when the
+ * active one uses another prompt template than the one asked for.
+ */
+export async function enqueueAnalysis(
+    paperId: string,
+    options: { trigger?: AnalysisTrigger; requestedBy?: string; templateId?: string } = {}
+): Promise<{ job: AnalysisJob; created: boolean }> {
+    // Jobs with the default template ('' or its ID) store none
+    const templateId = options.templateId === '' || options.templateId === DEFAULT_TEMPLATE_ID ? null : options.templateId;
+    const active: AnalysisJob | null = await prisma.analysisJob.findUnique({ where: { activeFor: paperId } });
+    if (active) return { job: activeJobFor(active, templateId), created: false };
+
+    try {
+        const job: AnalysisJob = await prisma.analysisJob.create({
+            data: {
+                paperId,
+                activeFor: paperId,
+                trigger: options.trigger ?? 'save',
+                requestedBy: options.requestedBy ?? null,
+                templateId: templateId ?? null,
+            },
+        });
+        return { job, created: true };
+    } catch (error) {
+        // Lost a race with another enqueue for the same paper
+        if ((error as { code?: string }).code === 'P2002') {
+            const existing: AnalysisJob | null = await prisma.analysisJob.findUnique({ where: { activeFor: paperId } });
+            if (existing) return { job: activeJobFor(existing, templateId), created: false };
+        }
+        throw error;
+    }
+}
+
+/**
+ * Downloads the paper's PDF, extracts and stores its text and references, analyzes it
+ * and records the result as a new revision. PDFs without a text layer are sent to the
+ * model as files. The summary follows the job's prompt template, and is translated
+ * for a requester who reads summaries in another language.
+ */
+async function analyzePaper(job: AnalysisJob): Promise<void> {
+    const { paperId } = job;
+    const paper = await prisma.paper.findUnique({ where: { id: paperId } });
+    if (!paper) throw new PermanentJobError('Paper not found');
+    if (!paper.filePath) throw new PermanentJobError('No PDF available for this paper');
+
+    const template = await getPromptTemplate(job.templateId ?? DEFAULT_TEMPLATE_ID);
+    if (!template) throw new PermanentJobError('The prompt template was deleted');
+    const options: AnalysisOptions = { template, title: paper.title, abstract: paper.abstract };
+
+    const response = await axios.get(paper.filePath.replace(/^http:\/\//, 'https://'), {
+        responseType: 'arraybuffer',
+        timeout: PDF_TIMEOUT_MS,
+        maxContentLength: MAX_PDF_BYTES,
+        headers: {
+            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+        }
+    });
+
+    const version = parseArxivId(paper.filePath)?.version ?? paper.arxivVersion;
+    let extracted: ExtractedPaper | null = null;
+    try {
+        extracted = await extractPdfText(response.data);
+        await savePaperContent(paperId, extracted, version);
+        await storeReferences(paperId, extracted.references);
+    } catch (error) {
+        if (!(error instanceof PdfExtractionError)) throw error;
+        console.warn(`Text extraction for ${paperId} failed (${error.message}); sending the PDF itself`);
+    }
+
+    const result = extracted ? await analyzeExtractedPaper(extracted, options) : await analyzePdfInline(response.data, options);
+
+    await recordAnalysis(paperId, result, {
+        paperVersion: version,
+        trigger: job.trigger as AnalysisTrigger,
+        triggeredById: job.requestedBy,
+    });
+
+    // Have it ready in the language the requester reads summaries in
+    await translateForUser(job.requestedBy, [paperId]);
+    // The new summary changes what the paper is found by
+    await refreshEmbeddings([paperId]);
+}
+
+// Keeps the previous summary (if any) and records why the analysis failed
+async function recordAnalysisFailure(paperId: string, error: unknown): Promise<void> {
+    await prisma.paper.updateMany({
+        where: { id: paperId },
+        data: {
+            analysisStatus: analysisStatusOf(error),
+            analysisError: (error as Error).message,
+            analyzedAt: new Date(),
+        },
+    });
+}
+
+// Runs `work` while refreshing the job's lock, so requeueStaleJobs leaves it alone
+async function keepingLock(job: AnalysisJob, work: () => Promise<void>): Promise<void> {
+    const heartbeat = setInterval(() => {
+        prisma.analysisJob.updateMany({ where: { id: job.id, status: 'running' }, data: { lockedAt: new Date() } })
+            .catch((error: unknown) => console.error(`Refreshing the lock of job ${job.id} failed:`, error));
+    }, HEARTBEAT_MS);
+    try {
+        await work();
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+async function runJob(job: AnalysisJob): Promise<AnalysisJobStatus> {
+    const attempts = job.attempts + 1;
+    try {
+        await keepingLock(job, () => analyzePaper(job));
+        await prisma.analysisJob.update({
+            where: { id: job.id },
+            data: { status: 'succeeded', activeFor: null, attempts, lastError: null, finishedAt: new Date() },
+        });
+        return 'succeeded';
+    } catch (error) {
+        const message = (error as Error).message;
+        const willRetry = !(error instanceof PermanentJobError) && attempts < job.maxAttempts;
+        console.error(`Analysis of ${job.paperId} failed (attempt ${attempts}/${job.maxAttempts}):`, error);
+
+        if (willRetry) {
+            await prisma.analysisJob.update({
+                where: { id: job.id },
+                data: {
+                    status: 'queued',
+                    attempts,
+                    lastError: message,
+                    lockedAt: null,
+                    runAt: new Date(Date.now() + backoffDelay(attempts)),
+                },
+            });
+            return 'queued';
+        }
+
+        await prisma.analysisJob.update({
+            where: { id: job.id },
+            data: { status: 'failed', activeFor: null, attempts, lastError: message, finishedAt: new Date() },
+        });
+        await recordAnalysisFailure(job.paperId, error);
+        return 'failed';
+    }
+}
+
+/**
+ * Claims the next due job, unless ANALYSIS_CONCURRENCY jobs are already running. The
+ * serializable transaction makes sure two workers can't take the same job, or both
+ * take the last free slot.
+ */
+async function claimNextJob(): Promise<AnalysisJob | null> {
+    for (;;) {
+        try {
+            return await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+                if (await tx.analysisJob.count({ where: { status: 'running' } }) >= CONCURRENCY) return null;
+                const candidate: AnalysisJob | null = await tx.analysisJob.findFirst({
+                    where: { status: 'queued', runAt: { lte: new Date() } },
+                    orderBy: { runAt: 'asc' },
+                });
+                if (!candidate) return null;
+                await tx.analysisJob.update({ where: { id: candidate.id }, data: { status: 'running', lockedAt: new Date() } });
+                return candidate;
+            }, { isolationLevel: 'Serializable' });
+        } catch (error) {
+            // Another worker claimed at the same time; look again
+            if ((error as { code?: string }).code === 'P2034') continue;
+            throw error;
+        }
+    }
+}
+
+// Jobs left running by a crashed or frozen worker count as a failed attempt: they go back
+// in the queue, or fail for good once they have used up their attempts like any other job
+async function requeueStaleJobs(): Promise<void> {
+    const message = 'Worker stopped before finishing';
+    const isStale = { status: 'running', lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } };
+    const stale: AnalysisJob[] = await prisma.analysisJob.findMany({ where: isStale });
+    for (const job of stale) {
+        const attempts = job.attempts + 1;
+        const willRetry = attempts < job.maxAttempts;
+        // Conditional, so two workers don't both count the same stale attempt
+        const { count } = await prisma.analysisJob.updateMany({
+            where: { id: job.id, ...isStale },
+            data: willRetry
+                ? { status: 'queued', lockedAt: null, attempts, lastError: message, runAt: new Date(Date.now() + backoffDelay(attempts)) }
+                : { status: 'failed', activeFor: null, attempts, lastError: message, finishedAt: new Date() },
+        });
+        if (count === 1 && !willRetry) await recordAnalysisFailure(job.paperId, new Error(message));
+    }
+}
+
+export interface ProcessResult {
+    succeeded: number;
+    retrying: number;
+    failed: number;
+}
+
+/**
+ * Runs due jobs until the queue is empty or `maxJobs` have been started, using the
+ * concurrency slots not already taken by other workers.
+ */
+export async function processAnalysisJobs(options: { maxJobs?: number } = {}): Promise<ProcessResult> {
+    const maxJobs = options.maxJobs ?? 20;
+    const result: ProcessResult = { succeeded: 0, retrying: 0, failed: 0 };
+
+    await requeueStaleJobs();
+    const running = await prisma.analysisJob.count({ where: { status: 'running' } });
+    const slots = Math.max(0, CONCURRENCY - running);
+
+    let started = 0;
+    const worker = async () => {
+        while (started < maxJobs) {
+            const job = await claimNextJob();
+            if (!job) return;
+            started++;
+
+            const status = await runJob(job);
+            if (status === 'succeeded') result.succeeded++;
+            else if (status === 'queued') result.retrying++;
+            else result.failed++;
+        }
+    };
+
+    await Promise.all(Array.from({ length: slots }, worker));
+    return result;
+}
+
+/**
+ * Starts processing once the current response has been sent. Outside a request
+ * (scripts) it simply runs in the background. Either way the jobs are already
+ * persisted, so the cron route picks up anything this doesn't finish.
+ */
+export function scheduleAnalysisJobs(): void {
+    const run = () => processAnalysisJobs().catch(error => console.error('Processing analysis jobs failed:', error));
+    try {
+        after(run);
+    } catch {
+        void run();
+    }
+}
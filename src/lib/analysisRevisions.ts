@@ -0,0 +1,205 @@
+import { prisma } from './db';
+import { AnalysisMode, AnalysisResult } from './analyzer';
+import { StructuredAnalysis, StructuredAnalysisColumns, decodeStructuredAnalysis, encodeStructuredAnalysis } from './analysisFields';
+import { LockablePaper, lockAwareUpdate } from './paperOverrides';
+
+/**
+ * History of a paper's analyses, in the AnalysisRevision table.
+ *
+ * Papers are shared by every user who saved them, so an analysis never overwrites the
+ * previous one: each run is stored as a revision with the provider, model and prompt
+ * version that produced it and who asked for it, and Paper keeps a copy of the current
+ * revision. Reverting makes an earlier revision current again; pinning also keeps it
+ * current while later analyses are only added to the history. Fields a user edited
+ * by hand are never overwritten (see paperOverrides.ts).
+ */
+
+export type AnalysisTrigger = 'save' | 'regenerate' | 'bulk' | 'new_version';
+
+export interface AnalysisProvenance {
+    paperVersion: number | null;
+    trigger: AnalysisTrigger;
+    triggeredById: string | null;
+}
+
+export interface AnalysisRevisionEntry {
+    id: string;
+    summary: string;
+    institution: string | null;
+    topics: string[];
+    fields: StructuredAnalysis;
+    paperVersion: number | null;
+    provider: string | null;
+    model: string | null;
+    promptVersion: string | null;
+    mode: AnalysisMode | null;
+    templateId: string | null;
+    templateName: string | null;  // Prompt template, as named when the summary was written
+    templateVersion: number | null;
+    trigger: AnalysisTrigger | null;
+    triggeredBy: string | null;  // Name of the user who asked for it
+    createdAt: Date;
+    current: boolean;
+}
+
+interface RevisionRow {
+    id: string;
+    paperId: string;
+    summary: string;
+    institution: string | null;
+    topics: string;
+    fields: string;
+    paperVersion: number | null;
+    createdAt: Date;
+}
+
+interface PaperAnalysisRow extends StructuredAnalysisColumns, LockablePaper {
+    analyzedVersion: number | null;
+    analyzedAt: Date | null;
+    currentRevisionId: string | null;
+    analysisPinned: boolean;
+    topics: { name: string }[];
+}
+
+// Paper columns that mirror a revision, apart from the ones users can lock
+function paperData(revision: RevisionRow) {
+    return {
+        ...encodeStructuredAnalysis(JSON.parse(revision.fields) as StructuredAnalysis),
+        analyzedVersion: revision.paperVersion,
+        analyzedAt: revision.createdAt,
+        currentRevisionId: revision.id,
+    };
+}
+
+// Papers analyzed before revisions were kept have their summary only on Paper; store it
+// as a revision without provenance before anything replaces it
+async function snapshotUntrackedAnalysis(paperId: string, paper: PaperAnalysisRow): Promise<void> {
+    if (paper.currentRevisionId || !paper.summary) return;
+    const revision: RevisionRow = await prisma.analysisRevision.create({
+        data: {
+            paperId,
+            summary: paper.summary,
+            institution: paper.institution,
+            topics: JSON.stringify(paper.topics.map(topic => topic.name)),
+            fields: JSON.stringify(decodeStructuredAnalysis(paper)),
+            paperVersion: paper.analyzedVersion,
+            createdAt: paper.analyzedAt ?? undefined,
+        },
+    });
+    await prisma.paper.update({ where: { id: paperId }, data: { currentRevisionId: revision.id } });
+}
+
+/**
+ * Stores a finished analysis as a new revision and makes it current, unless the paper
+ * has a pinned revision. Returns whether the paper now shows the new analysis.
+ */
+export async function recordAnalysis(paperId: string, result: AnalysisResult, provenance: AnalysisProvenance): Promise<boolean> {
+    const paper: PaperAnalysisRow | null = await prisma.paper.findUnique({ where: { id: paperId }, include: { topics: true } });
+    if (!paper) throw new Error('Paper not found');
+    await snapshotUntrackedAnalysis(paperId, paper);
+
+    const { analysis } = result;
+    const revision: RevisionRow = await prisma.analysisRevision.create({
+        data: {
+            paperId,
+            summary: analysis.summary,
+            institution: analysis.institution,
+            topics: JSON.stringify(analysis.topics ?? []),
+            fields: JSON.stringify(decodeStructuredAnalysis(encodeStructuredAnalysis(analysis))),
+            paperVersion: provenance.paperVersion,
+            provider: result.provider,
+            model: result.model,
+            promptVersion: result.promptVersion,
+            mode: result.mode,
+            templateId: result.template.id,
+            templateName: result.template.name,
+            templateVersion: result.template.version,
+            trigger: provenance.trigger,
+            triggeredById: provenance.triggeredById,
+        },
+    });
+
+    if (paper.analysisPinned) {
+        await prisma.paper.update({ where: { id: paperId }, data: { analysisStatus: 'ok', analysisError: null } });
+        return false;
+    }
+
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: {
+            ...paperData(revision),
+            ...await lockAwareUpdate(paper, {
+                summary: analysis.summary,
+                institution: analysis.institution,
+                topics: analysis.topics ?? [],
+            }),
+            analysisStatus: 'ok',
+            analysisError: null,
+        },
+    });
+    return true;
+}
+
+/**
+ * Makes a stored revision the paper's current analysis. Topics are left alone: the
+ * model's picks were added when the revision was made and may have been curated since.
+ */
+export async function setCurrentRevision(paperId: string, revisionId: string, options: { pinned: boolean }): Promise<void> {
+    const revision: RevisionRow | null = await prisma.analysisRevision.findUnique({ where: { id: revisionId } });
+    const paper: LockablePaper | null = await prisma.paper.findUnique({ where: { id: paperId } });
+    if (!revision || !paper || revision.paperId !== paperId) throw new Error('Revision not found');
+
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: {
+            ...paperData(revision),
+            ...await lockAwareUpdate(paper, { summary: revision.summary, institution: revision.institution }),
+            analysisPinned: options.pinned,
+        },
+    });
+}
+
+export async function unpinAnalysis(paperId: string): Promise<void> {
+    await prisma.paper.update({ where: { id: paperId }, data: { analysisPinned: false } });
+}
+
+/**
+ * Revisions of a paper's analysis, newest first.
+ */
+export async function getAnalysisRevisions(paperId: string): Promise<{ revisions: AnalysisRevisionEntry[]; pinned: boolean }> {
+    const paper: { currentRevisionId: string | null; analysisPinned: boolean } | null = await prisma.paper.findUnique({
+        where: { id: paperId },
+        select: { currentRevisionId: true, analysisPinned: true },
+    });
+    if (!paper) return { revisions: [], pinned: false };
+
+    const rows: (RevisionRow & Omit<AnalysisRevisionEntry, 'topics' | 'fields' | 'triggeredBy' | 'current'> & { triggeredBy: { name: string | null; email: string } | null })[] =
+        await prisma.analysisRevision.findMany({
+            where: { paperId },
+            orderBy: { createdAt: 'desc' },
+            include: { triggeredBy: { select: { name: true, email: true } } },
+        });
+
+    return {
+        pinned: paper.analysisPinned,
+        revisions: rows.map(row => ({
+            id: row.id,
+            summary: row.summary,
+            institution: row.institution,
+            topics: JSON.parse(row.topics) as string[],
+            fields: JSON.parse(row.fields) as StructuredAnalysis,
+            paperVersion: row.paperVersion,
+            provider: row.provider,
+            model: row.model,
+            promptVersion: row.promptVersion,
+            mode: row.mode,
+            templateId: row.templateId,
+            templateName: row.templateName,
+            templateVersion: row.templateVersion,
+            trigger: row.trigger,
+            triggeredBy: row.triggeredBy ? row.triggeredBy.name || row.triggeredBy.email : null,
+            createdAt: row.createdAt,
+            current: row.id === paper.currentRevisionId,
+        })),
+    };
+}
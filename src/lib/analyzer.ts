@@ -1,88 +1,253 @@
-import fs from 'fs';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { StructuredAnalysis } from './analysisFields';
+import { JsonSchema, LlmProviderId, generateStructured } from './llm';
+import { ExtractedPaper, PaperSection, PdfExtractionError, extractPdfText, paperToText } from './pdfText';
+import { DEFAULT_TEMPLATE_ID, PromptTemplate, getPromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { TaxonomyTopic, formatTopicsForPrompt, getTaxonomy } from './taxonomy';
 
-// Initialize Gemini lazily
-let genAI: GoogleGenerativeAI | null = null;
+export interface PaperAnalysis extends StructuredAnalysis {
+    summary: string;
+    institution: string;
+    topics: string[];
+}
 
-function getGenAI() {
-    if (!genAI) {
-        genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-    }
-    return genAI;
+// How the paper reached the model: its whole text, notes on its sections, or the PDF file
+export type AnalysisMode = 'full_text' | 'section_notes' | 'pdf';
+
+export interface AnalysisResult {
+    analysis: PaperAnalysis;
+    provider: LlmProviderId;
+    model: string;
+    promptVersion: string;
+    mode: AnalysisMode;
+    template: { id: string; name: string; version: number };
 }
 
-/**
- * Analyzes a PDF buffer using Google Gemini's native multimodal capabilities.
- */
-export async function analyzePdfBuffer(buffer: Buffer): Promise<{ summary: string; institution: string; topics: string[] }> {
-    if (!process.env.GEMINI_API_KEY) {
-        throw new Error("GEMINI_API_KEY not found in environment variables.");
-    }
+export interface AnalysisOptions {
+    template?: PromptTemplate;      // How the summary is written; the standard template by default
+    title?: string | null;          // For the template variables; taken from the PDF text when missing
+    abstract?: string | null;
+}
 
-    try {
-        const model = getGenAI().getGenerativeModel({ model: "gemini-flash-latest" });
-
-        // Convert Buffer to base64 string
-        const base64Data = buffer.toString('base64');
-
-        const allowedTopics = [
-            "Distributed Machine Learning",
-            "Model Performance Optimization",
-            "Personalized Advertising",
-            "Recommendation System",
-            "Generative Recommendation",
-            "Reinforcement Learning",
-            "Agent",
-            "Large Language Models",
-            "Model Architecture"
-        ];
-
-        const prompt = `Analyze the following research paper and provide:
-        1. A concise summary focusing on main contributions, methodology, and key results.
+// Recorded on every analysis revision; bump when the analysis prompt or schema changes
+export const ANALYSIS_PROMPT_VERSION = 'analysis-v4';
+
+// Papers up to this many characters are analyzed in one call; longer ones are
+// condensed section by section first (map) and analyzed from the notes (reduce)
+const SINGLE_PASS_CHARS = 120_000;
+const CHUNK_CHARS = 30_000;
+
+const NOTES_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        notes: { type: 'string', minLength: 1, description: 'Dense notes on the contributions, methods, experiments and results in these sections' },
+    },
+    required: ['notes'],
+};
+
+const nullableText = (description: string): JsonSchema => ({ type: 'string', nullable: true, description });
+const nameList = (description: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+function analysisSchema(topicNames: string[]): JsonSchema {
+    return {
+        type: 'object',
+        properties: {
+            summary: { type: 'string', minLength: 1, description: 'The summary, written as the instructions ask' },
+            institution: { type: 'string', description: 'Primary company or research institution of the authors' },
+            topics: topicNames.length > 0
+                ? { type: 'array', items: { type: 'string', enum: topicNames }, minItems: 1, maxItems: 3 }
+                : { type: 'array', items: { type: 'string' }, maxItems: 0 },
+            problem: nullableText('The problem the paper addresses'),
+            method: nullableText('The proposed method or approach'),
+            datasets: nameList('Datasets and benchmarks the paper evaluates on, by their usual names'),
+            metrics: {
+                type: 'array',
+                description: 'Headline metric values reported for the proposed method',
+                items: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string', minLength: 1 },
+                        value: { type: 'string', minLength: 1 },
+                        dataset: { type: 'string', nullable: true },
+                    },
+                    required: ['name', 'value', 'dataset'],
+                },
+            },
+            results: nullableText('Headline results in one or two sentences'),
+            baselines: nameList('Methods the paper compares against'),
+            limitations: nullableText('Limitations stated by the authors or evident from the paper'),
+            compute: nullableText('Hardware, training time or budget, if reported'),
+            codeAvailable: { type: 'boolean', nullable: true, description: 'Whether code is released; null if the paper does not say' },
+            codeUrl: nullableText('Link to the released code'),
+        },
+        required: [
+            'summary', 'institution', 'topics', 'problem', 'method', 'datasets', 'metrics',
+            'results', 'baselines', 'limitations', 'compute', 'codeAvailable', 'codeUrl',
+        ],
+    };
+}
+
+function analysisPrompt(topics: TaxonomyTopic[], subject: string, summaryInstructions: string): string {
+    return `Analyze ${subject} and provide:
+        1. Summary: ${summaryInstructions}
         2. The name of the primary company or research institution associated with the authors.
-        3. A list of exactly 3 key topic labels or tags relevant to the paper. 
+        3. A list of exactly 3 key topic labels or tags relevant to the paper.
+        4. The problem statement, the proposed method, and the headline results.
+        5. The datasets evaluated on, the metrics reported for the proposed method (with their values), and the baselines compared against.
+        6. Limitations, compute requirements, and whether code is available (with its URL).
+        Use null (or an empty list) for anything the paper doesn't report; don't guess.
 
         Allowed Topics:
-        ${allowedTopics.map(t => `- ${t}`).join('\n')}
+        ${formatTopicsForPrompt(topics)}
 
         Return ONLY a JSON object with the following format:
         {
             "summary": "The summary text...",
             "institution": "The institution name...",
-            "topics": ["Topic 1", "Topic 2", "Topic 3"]
+            "topics": ["Topic 1", "Topic 2", "Topic 3"],
+            "problem": "...",
+            "method": "...",
+            "datasets": ["MovieLens-1M", "..."],
+            "metrics": [{"name": "NDCG@10", "value": "0.412", "dataset": "MovieLens-1M"}],
+            "results": "...",
+            "baselines": ["SASRec", "..."],
+            "limitations": "...",
+            "compute": "8x A100 for 2 days",
+            "codeAvailable": true,
+            "codeUrl": "https://github.com/..."
         }`;
+}
 
-        const result = await model.generateContent([
-            prompt,
-            {
-                inlineData: {
-                    data: base64Data,
-                    mimeType: "application/pdf",
-                },
-            },
-        ]);
+// The template's summary instructions with this paper's title, abstract and our taxonomy filled in
+async function summaryInstructions(options: AnalysisOptions, topics: TaxonomyTopic[], paper?: ExtractedPaper) {
+    const template = options.template ?? (await getPromptTemplate(DEFAULT_TEMPLATE_ID))!;
+    const instructions = renderPromptTemplate(template.body, {
+        title: options.title ?? paper?.title ?? 'this paper',
+        abstract: options.abstract ?? paper?.abstract ?? '(no abstract available)',
+        taxonomy: topics.map(topic => topic.name).join(', '),
+    });
+    return { instructions, template: { id: template.id, name: template.name, version: template.version } };
+}
+
+/**
+ * Groups consecutive sections into chunks of at most `maxChars`, splitting sections
+ * that are larger than that at line breaks.
+ */
+export function chunkSections(sections: PaperSection[], maxChars = CHUNK_CHARS): PaperSection[][] {
+    const pieces: PaperSection[] = sections.flatMap(section => {
+        if (section.text.length <= maxChars) return [section];
+        const parts: string[] = [];
+        let part = '';
+        for (const line of section.text.split('\n')) {
+            // A line longer than a chunk is cut where it has to be
+            for (let rest = line; rest; rest = rest.slice(maxChars)) {
+                const piece = rest.slice(0, maxChars);
+                if (part && part.length + piece.length + 1 > maxChars) {
+                    parts.push(part);
+                    part = '';
+                }
+                part += (part ? '\n' : '') + piece;
+            }
+        }
+        if (part) parts.push(part);
+        return parts.map((text, i) => ({ ...section, heading: `${section.heading} (part ${i + 1}/${parts.length})`, text }));
+    });
 
-        const response = await result.response;
-        const text = response.text();
+    const chunks: PaperSection[][] = [];
+    let size = 0;
+    for (const piece of pieces) {
+        if (chunks.length === 0 || size + piece.text.length > maxChars) {
+            chunks.push([]);
+            size = 0;
+        }
+        chunks[chunks.length - 1].push(piece);
+        size += piece.text.length;
+    }
+    return chunks;
+}
 
-        // Clean up markdown code blocks if present
-        const jsonString = text.replace(/```json|```/g, '').trim();
+// Map step: condenses one chunk of sections into notes for the final analysis
+async function summarizeChunk(paper: ExtractedPaper, chunk: PaperSection[], index: number, total: number): Promise<string> {
+    const prompt = `You are reading part ${index + 1} of ${total} of a research paper${paper.title ? ` titled "${paper.title}"` : ''}.
+        Write dense notes on what these sections contribute: claims, methods, datasets, metrics and numbers, baselines, limitations, compute and code links.
+        The notes will be combined with notes on the other parts to summarize the whole paper.
 
-        try {
-            return JSON.parse(jsonString);
-        } catch (e) {
-            console.error('Failed to parse Gemini response as JSON:', text);
-            // Fallback for non-JSON response
-            return {
-                summary: text,
-                institution: '',
-                topics: []
-            };
+        Return ONLY a JSON object: {"notes": "..."}
+
+        ${chunk.map(section => `${section.heading}\n${section.text}`).join('\n\n')}`;
+
+    const { data } = await generateStructured<{ notes: string }>('section_notes', {
+        parts: [{ type: 'text', text: prompt }],
+    }, NOTES_SCHEMA);
+    return `Notes on ${chunk.map(section => section.heading).join(', ')}:\n${data.notes}`;
+}
+
+/**
+ * Analyzes a paper from its extracted text. Short papers go to the model in one
+ * call; long ones are summarized chunk by chunk and analyzed from those notes.
+ */
+export async function analyzeExtractedPaper(paper: ExtractedPaper, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    const topics = await getTaxonomy();
+    const { instructions, template } = await summaryInstructions(options, topics, paper);
+    const schema = analysisSchema(topics.map(topic => topic.name));
+    const fullText = paperToText(paper);
+
+    let body: string;
+    const mode: AnalysisMode = fullText.length <= SINGLE_PASS_CHARS ? 'full_text' : 'section_notes';
+    if (mode === 'full_text') {
+        body = `Paper text:\n${fullText}`;
+    } else {
+        const chunks = chunkSections(paper.sections);
+        const notes: string[] = [];
+        for (const [i, chunk] of chunks.entries()) {
+            notes.push(await summarizeChunk(paper, chunk, i, chunks.length));
         }
-    } catch (error) {
-        console.error('Error analyzing PDF with Gemini:', error);
-        throw new Error(`Failed to analyze PDF. ${(error as Error).message}`);
+        body = [
+            paper.title && `Title: ${paper.title}`,
+            paper.abstract && `Abstract\n${paper.abstract}`,
+            `Section notes:\n${notes.join('\n\n')}`,
+        ].filter(Boolean).join('\n\n');
     }
+
+    const { data, response } = await generateStructured<PaperAnalysis>('analysis', {
+        parts: [{ type: 'text', text: `${analysisPrompt(topics, 'the following research paper', instructions)}\n\n${body}` }],
+    }, schema);
+    return { analysis: data, provider: response.provider, model: response.model, promptVersion: ANALYSIS_PROMPT_VERSION, mode, template };
 }
 
+/**
+ * Analyzes a PDF by sending the file itself to the model, for PDFs without a text
+ * layer. Needs a provider that accepts PDF input.
+ */
+export async function analyzePdfInline(buffer: Buffer, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    const topics = await getTaxonomy();
+    const { instructions, template } = await summaryInstructions(options, topics);
+    const { data, response } = await generateStructured<PaperAnalysis>('analysis', {
+        parts: [
+            { type: 'text', text: analysisPrompt(topics, 'the attached research paper', instructions) },
+            { type: 'file', data: buffer, mimeType: 'application/pdf' },
+        ],
+    }, analysisSchema(topics.map(topic => topic.name)));
+    return { analysis: data, provider: response.provider, model: response.model, promptVersion: ANALYSIS_PROMPT_VERSION, mode: 'pdf', template };
+}
 
+/**
+ * Analyzes a PDF with the LLM configured for the `analysis` task, from its locally
+ * extracted text when it has a text layer and from the file itself otherwise.
+ * Throws LlmError when the provider fails and LlmOutputError when it never produces
+ * output matching the schema.
+ */
+export async function analyzePdfBuffer(buffer: Buffer, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+    try {
+        let paper: ExtractedPaper | null = null;
+        try {
+            paper = await extractPdfText(buffer);
+        } catch (error) {
+            if (!(error instanceof PdfExtractionError)) throw error;
+            console.warn(`Text extraction failed (${error.message}); sending the PDF itself`);
+        }
+        return paper ? await analyzeExtractedPaper(paper, options) : await analyzePdfInline(buffer, options);
+    } catch (error) {
+        console.error('Error analyzing PDF:', error);
+        throw error;
+    }
+}
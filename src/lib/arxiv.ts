@@ -1,8 +1,11 @@
-import axios from 'axios';
 import { parseStringPromise } from 'xml2js';
+import { ArxivQuery, compileArxivQuery } from './arxivQuery';
+import { ArxivApiError, LOOKUP_CACHE_TTL_MS, SEARCH_CACHE_TTL_MS, cachedArxivRequest } from './arxivClient';
+import { formatArxivId, parseArxivId } from './arxivId';
 
 export interface ArxivPaper {
-    id: string;
+    id: string;              // Canonical, unversioned arXiv ID
+    version?: number;        // Version this snapshot was taken from
     title: string;
     summary: string;
     authors: string[];
@@ -10,58 +13,137 @@ export interface ArxivPaper {
     link: string;
     pdfLink?: string;
     institution?: string | null;
+    updated?: string;
+    primaryCategory?: string;
+    categories?: string[];
+    comment?: string;        // Free-text author comment, often "Accepted at <venue>"
+    journalRef?: string;
+    doi?: string;
+    affiliations?: Record<string, string[]>; // Author name -> affiliations, when arXiv has them
 }
 
-const ARXIV_API_URL = 'http://export.arxiv.org/api/query';
-
-async function fetchWithRetry(url: string, params: any, retries = 3, backoff = 1000): Promise<any> {
-    try {
-        return await axios.get(url, { params });
-    } catch (error: any) {
-        if (retries > 0 && error.response?.status === 429) {
-            console.warn(`ArXiv API rate limit hit. Retrying in ${backoff}ms...`);
-            await new Promise(resolve => setTimeout(resolve, backoff));
-            return fetchWithRetry(url, params, retries - 1, backoff * 2);
-        }
-        throw error;
+// xml2js yields a plain string for bare elements and { _: text, $: attrs } once attributes are present
+export type XmlNode = string | { _?: string; $?: Record<string, string> };
+
+interface AtomEntry {
+    id: string[];
+    title?: XmlNode[];
+    summary: XmlNode[];
+    published: string[];
+    updated?: string[];
+    author?: { name: string[]; 'arxiv:affiliation'?: XmlNode[] }[];
+    link: { $: { href: string; title?: string } }[];
+    category?: { $: { term: string } }[];
+    'arxiv:primary_category'?: { $: { term: string } }[];
+    'arxiv:comment'?: XmlNode[];
+    'arxiv:journal_ref'?: XmlNode[];
+    'arxiv:doi'?: XmlNode[];
+}
+
+export function textOf(node: XmlNode | undefined): string | undefined {
+    const text = typeof node === 'string' ? node : node?._;
+    const cleaned = text?.trim().replace(/\s+/g, ' ');
+    return cleaned || undefined;
+}
+
+function parseEntry(entry: AtomEntry): ArxivPaper {
+    const parsedId = parseArxivId(entry.id[0]);
+    const authors = entry.author ?? [];
+
+    const affiliations: Record<string, string[]> = {};
+    for (const author of authors) {
+        const names = (author['arxiv:affiliation'] ?? []).map(textOf).filter((a): a is string => !!a);
+        if (names.length > 0) affiliations[author.name[0]] = names;
     }
+
+    return {
+        id: parsedId?.base ?? getCleanId(entry.id[0]),
+        version: parsedId?.version ?? undefined,
+        title: textOf(entry.title?.[0]) ?? '',
+        summary: textOf(entry.summary[0]) ?? '',
+        authors: authors.map(a => a.name[0]),
+        published: entry.published[0],
+        updated: entry.updated?.[0],
+        link: entry.id[0],
+        pdfLink: entry.link.find(l => l.$.title === 'pdf')?.$.href,
+        primaryCategory: entry['arxiv:primary_category']?.[0]?.$.term,
+        categories: (entry.category ?? []).map(c => c.$.term),
+        comment: textOf(entry['arxiv:comment']?.[0]),
+        journalRef: textOf(entry['arxiv:journal_ref']?.[0]),
+        doi: textOf(entry['arxiv:doi']?.[0]),
+        affiliations: Object.keys(affiliations).length > 0 ? affiliations : undefined,
+    };
 }
 
+/**
+ * Parses an Atom feed from the arXiv API into papers.
+ * arXiv reports bad queries as a 200 response whose only entry points at /api/errors.
+ */
+export async function parseArxivFeed(xml: string): Promise<ArxivPaper[]> {
+    const result = await parseStringPromise(xml);
+    const entries = result.feed.entry || [];
+
+    if (entries.length === 1 && String(entries[0].id?.[0] ?? '').includes('/api/errors')) {
+        throw new ArxivApiError(`arXiv rejected the query: ${String(entries[0].summary?.[0] ?? '').trim()}`, 400);
+    }
+
+    // Lookups of IDs arXiv doesn't know come back as entries without a title
+    return (entries as AtomEntry[]).filter(entry => entry.title && entry.author).map(parseEntry);
+}
+
+/**
+ * Searches arXiv. Throws ArxivApiError when the API fails and no cached result is available.
+ */
 export async function searchArxiv(
-    query: string,
+    query: string | ArxivQuery,
     maxResults = 10,
     start = 0,
     sortBy: 'relevance' | 'lastUpdatedDate' | 'submittedDate' = 'submittedDate',
     sortOrder: 'ascending' | 'descending' = 'descending'
 ): Promise<ArxivPaper[]> {
-    try {
-        const response = await fetchWithRetry(ARXIV_API_URL, {
-            search_query: query,
-            start: start,
-            max_results: maxResults,
-            sortBy: sortBy,
-            sortOrder: sortOrder
-        });
-
-        const result = await parseStringPromise(response.data);
-        const entries = result.feed.entry || [];
-
-        return entries.map((entry: any) => ({
-            id: getCleanId(entry.id[0]),
-            title: entry.title[0].trim().replace(/\s+/g, ' '),
-            summary: entry.summary[0].trim().replace(/\s+/g, ' '),
-            authors: entry.author.map((a: any) => a.name[0]),
-            published: entry.published[0],
-            link: entry.id[0],
-            pdfLink: entry.link.find((l: any) => l.$.title === 'pdf')?.$.href,
-        }));
-    } catch (error) {
-        console.error('Error fetching from ArXiv:', error);
-        return [];
-    }
+    const searchQuery = typeof query === 'string' ? query : compileArxivQuery(query);
+
+    return cachedArxivRequest({
+        search_query: searchQuery,
+        start: start,
+        max_results: maxResults,
+        sortBy: sortBy,
+        sortOrder: sortOrder
+    }, parseArxivFeed, SEARCH_CACHE_TTL_MS);
 }
 
+const ID_LIST_BATCH_SIZE = 50;
+
+/**
+ * Fetches papers by exact arXiv ID using `id_list`, in batches.
+ * Versioned IDs return that version; unversioned IDs return the latest one.
+ * IDs that aren't valid arXiv identifiers are skipped.
+ */
+export async function fetchArxivPapersByIds(ids: string[], ttlMs: number = LOOKUP_CACHE_TTL_MS): Promise<ArxivPaper[]> {
+    const parsed = ids.map(id => parseArxivId(id)).filter(id => id !== null);
+    const unique = Array.from(new Set(parsed.map(formatArxivId)));
 
+    const papers: ArxivPaper[] = [];
+    for (let i = 0; i < unique.length; i += ID_LIST_BATCH_SIZE) {
+        const batch = unique.slice(i, i + ID_LIST_BATCH_SIZE);
+        papers.push(...await cachedArxivRequest({
+            id_list: batch.join(','),
+            start: 0,
+            max_results: batch.length,
+        }, parseArxivFeed, ttlMs));
+    }
+    return papers;
+}
+
+/**
+ * Resolves a single arXiv ID (bare, versioned or URL form). Returns null if arXiv doesn't know it.
+ */
+export async function getArxivPaperById(id: string): Promise<ArxivPaper | null> {
+    const parsed = parseArxivId(id);
+    if (!parsed) return null;
+    const [paper] = await fetchArxivPapersByIds([formatArxivId(parsed)]);
+    return paper && paper.id === parsed.base ? paper : null;
+}
 
 function getCleanId(id: string): string {
     return id.replace(/^http:\/\/arxiv\.org\/abs\//, '').replace(/^https:\/\/arxiv\.org\/abs\//, '');
@@ -0,0 +1,154 @@
+import axios, { AxiosError } from 'axios';
+import crypto from 'crypto';
+import { prisma } from './db';
+
+/**
+ * Shared access layer for the arXiv export API.
+ *
+ * arXiv asks clients to make no more than one request every three seconds, so every
+ * call in this process goes through a single queue. Parsed responses are cached in
+ * the database and served stale when the API is unavailable.
+ */
+
+const ARXIV_API_URL = 'https://export.arxiv.org/api/query';
+
+const MIN_INTERVAL_MS = Number(process.env.ARXIV_MIN_INTERVAL_MS || 3000);
+const MAX_RETRIES = 3;
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export const SEARCH_CACHE_TTL_MS = 60 * 60 * 1000;        // 1 hour
+export const LOOKUP_CACHE_TTL_MS = 24 * 60 * 60 * 1000;   // 1 day
+
+export type ArxivParams = Record<string, string | number>;
+
+export class ArxivApiError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'ArxivApiError';
+        this.status = status;
+    }
+}
+
+// Kept on globalThis so hot reloads in development don't create a second queue
+const globalForArxiv = globalThis as unknown as {
+    arxivQueue?: Promise<unknown>;
+    arxivLastRequestAt?: number;
+};
+
+function sleep(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `fn` once every earlier request has finished and the minimum interval has passed.
+ */
+function throttled<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = globalForArxiv.arxivQueue ?? Promise.resolve();
+    const run = previous.then(async () => {
+        const wait = (globalForArxiv.arxivLastRequestAt ?? 0) + MIN_INTERVAL_MS - Date.now();
+        if (wait > 0) await sleep(wait);
+        try {
+            return await fn();
+        } finally {
+            globalForArxiv.arxivLastRequestAt = Date.now();
+        }
+    });
+    globalForArxiv.arxivQueue = run.catch(() => undefined);
+    return run;
+}
+
+function retryDelay(error: AxiosError, attempt: number): number {
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) return retryAfter * 1000;
+    return 1000 * 2 ** attempt;
+}
+
+/**
+ * Fetches raw XML from an arXiv endpoint, retrying rate limits, server errors and network failures.
+ */
+export async function fetchArxivXml(params: ArxivParams, url: string = ARXIV_API_URL): Promise<string> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const response = await throttled(() => axios.get<string>(url, {
+                params,
+                responseType: 'text',
+                timeout: 30000,
+            }));
+            return response.data;
+        } catch (error) {
+            const axiosError = error as AxiosError;
+            const status = axiosError.response?.status;
+            const retryable = status === undefined || RETRYABLE_STATUSES.has(status);
+
+            if (!retryable || attempt >= MAX_RETRIES) {
+                throw new ArxivApiError(
+                    `arXiv request failed${status ? ` with HTTP ${status}` : ''}: ${axiosError.message}`,
+                    status
+                );
+            }
+
+            const delay = retryDelay(axiosError, attempt);
+            console.warn(`arXiv request failed (${status ?? axiosError.code}). Retrying in ${delay}ms...`);
+            await sleep(delay);
+        }
+    }
+}
+
+function cacheKey(url: string, params: ArxivParams): string {
+    const sorted = Object.keys(params).sort().map(key => [key, String(params[key])]);
+    return crypto.createHash('sha256').update(JSON.stringify([url, sorted])).digest('hex');
+}
+
+/**
+ * Fetches and parses an arXiv response, going through the database cache.
+ *
+ * Fresh cache entries are returned without touching the network. When the API fails,
+ * an expired entry is returned instead of an error if one exists.
+ */
+export async function cachedArxivRequest<T>(
+    params: ArxivParams,
+    parse: (xml: string) => Promise<T>,
+    ttlMs: number = SEARCH_CACHE_TTL_MS,
+    url: string = ARXIV_API_URL
+): Promise<T> {
+    const key = cacheKey(url, params);
+
+    let cached: { payload: string; expiresAt: Date } | null = null;
+    try {
+        cached = await prisma.arxivCache.findUnique({ where: { key } });
+    } catch (error) {
+        // A broken cache must never take search down with it
+        console.warn('arXiv cache read failed:', error);
+    }
+
+    if (cached && cached.expiresAt > new Date()) {
+        return JSON.parse(cached.payload) as T;
+    }
+
+    let data: T;
+    try {
+        data = await parse(await fetchArxivXml(params, url));
+    } catch (error) {
+        if (cached) {
+            console.warn(`Serving stale arXiv response after error: ${(error as Error).message}`);
+            return JSON.parse(cached.payload) as T;
+        }
+        throw error;
+    }
+
+    try {
+        const payload = JSON.stringify(data);
+        const expiresAt = new Date(Date.now() + ttlMs);
+        await prisma.arxivCache.upsert({
+            where: { key },
+            update: { payload, fetchedAt: new Date(), expiresAt },
+            create: { key, payload, expiresAt },
+        });
+    } catch (error) {
+        console.warn('arXiv cache write failed:', error);
+    }
+
+    return data;
+}
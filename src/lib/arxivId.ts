@@ -0,0 +1,88 @@
+/**
+ * Parsing and normalization of arXiv identifiers.
+ *
+ * New-style IDs look like `2309.12307` (or `0704.0001` for 4-digit sequence numbers),
+ * old-style IDs like `hep-th/9901001` or `math.GT/0309136`. Either may carry a `vN` suffix.
+ * Papers are stored under their unversioned ID so every revision maps to one catalog row.
+ */
+
+export interface ArxivId {
+    base: string;            // Unversioned ID, used as the canonical Paper.id
+    version: number | null;  // null when the input didn't name a version
+    style: 'new' | 'old';
+}
+
+const NEW_STYLE = /^(\d{4}\.\d{4,5})(?:v(\d+))?$/;
+const OLD_STYLE = /^([a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v(\d+))?$/;
+
+const URL_PREFIX = /^(?:https?:\/\/)?(?:www\.|export\.)?arxiv\.org\/(?:abs|pdf)\//i;
+
+function safeDecode(value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Parses an arXiv ID from a bare ID, an `arXiv:` prefixed ID or an abs/pdf URL.
+ * Returns null when the input isn't an arXiv identifier.
+ */
+export function parseArxivId(input: string): ArxivId | null {
+    const cleaned = safeDecode(input.trim())
+        .replace(URL_PREFIX, '')
+        .replace(/^arxiv:/i, '')
+        .replace(/\.pdf$/i, '')
+        .replace(/[/?#]+$/, '');
+
+    const newMatch = NEW_STYLE.exec(cleaned);
+    if (newMatch) {
+        return { base: newMatch[1], version: newMatch[2] ? Number(newMatch[2]) : null, style: 'new' };
+    }
+
+    const oldMatch = OLD_STYLE.exec(cleaned);
+    if (oldMatch) {
+        return { base: oldMatch[1], version: oldMatch[2] ? Number(oldMatch[2]) : null, style: 'old' };
+    }
+
+    return null;
+}
+
+/**
+ * Returns the canonical (unversioned) ID, or null if the input isn't an arXiv identifier.
+ */
+export function normalizeArxivId(input: string): string | null {
+    return parseArxivId(input)?.base ?? null;
+}
+
+export function isVersionedArxivId(input: string): boolean {
+    return parseArxivId(input)?.version != null;
+}
+
+export function formatArxivId(id: ArxivId): string {
+    return id.version != null ? `${id.base}v${id.version}` : id.base;
+}
+
+export function arxivAbsUrl(base: string, version?: number | null): string {
+    return `https://arxiv.org/abs/${base}${version ? `v${version}` : ''}`;
+}
+
+export function arxivPdfUrl(base: string, version?: number | null): string {
+    return `https://arxiv.org/pdf/${base}${version ? `v${version}` : ''}`;
+}
+
+/**
+ * Builds the detail page URL for a paper. Old-style IDs keep their slash as a path
+ * separator, which the catch-all `/paper/[...id]` route joins back together.
+ */
+export function paperHref(id: string): string {
+    return `/paper/${id.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Reassembles a paper ID from the catch-all route segments.
+ */
+export function paperIdFromRouteSegments(segments: string[]): string {
+    return segments.map(safeDecode).join('/');
+}
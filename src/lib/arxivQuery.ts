@@ -0,0 +1,146 @@
+/**
+ * Typed model for arXiv's `search_query` syntax.
+ *
+ * See https://info.arxiv.org/help/api/user-manual.html#query_details for the
+ * field prefixes and boolean operators this compiles to.
+ */
+
+export type ArxivField = 'all' | 'ti' | 'au' | 'abs' | 'cat' | 'co' | 'jr';
+
+export type ArxivOperator = 'AND' | 'OR' | 'ANDNOT';
+
+export interface ArxivTerm {
+    kind: 'term';
+    field: ArxivField;
+    value: string;
+}
+
+export interface ArxivGroup {
+    kind: 'group';
+    operator: ArxivOperator;
+    clauses: ArxivQueryNode[];
+}
+
+export type ArxivQueryNode = ArxivTerm | ArxivGroup;
+
+export interface ArxivDateRange {
+    from?: string; // YYYY-MM-DD, inclusive
+    to?: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface ArxivQuery {
+    root: ArxivQueryNode;
+    submittedDate?: ArxivDateRange;
+}
+
+export const ARXIV_FIELDS: { value: ArxivField; label: string; placeholder: string }[] = [
+    { value: 'all', label: 'All fields', placeholder: 'e.g. generative retrieval' },
+    { value: 'ti', label: 'Title', placeholder: 'e.g. semantic IDs' },
+    { value: 'au', label: 'Author', placeholder: 'e.g. Hinton or Hinton_G' },
+    { value: 'abs', label: 'Abstract', placeholder: 'e.g. click-through rate' },
+    { value: 'cat', label: 'Category', placeholder: 'e.g. cs.IR' },
+    { value: 'co', label: 'Comment', placeholder: 'e.g. NeurIPS' },
+    { value: 'jr', label: 'Journal ref', placeholder: 'e.g. SIGIR' },
+];
+
+const CATEGORY_PATTERN = /^[a-z-]+(\.[A-Za-z-]+)?\*?$/;
+
+export class ArxivQueryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ArxivQueryError';
+    }
+}
+
+function compileTerm(term: ArxivTerm): string {
+    // arXiv has no escape for quotes inside a phrase, so drop them.
+    const value = term.value.replace(/["()]/g, ' ').trim().replace(/\s+/g, ' ');
+    if (!value) {
+        throw new ArxivQueryError(`Empty value for field "${term.field}"`);
+    }
+
+    if (term.field === 'cat') {
+        if (!CATEGORY_PATTERN.test(value)) {
+            throw new ArxivQueryError(`"${value}" is not an arXiv category (expected something like cs.IR)`);
+        }
+        return `cat:${value}`;
+    }
+
+    // Author names are matched on surname, optionally with an initial joined by "_" (au:Hinton_G).
+    // Multi-word values become phrases so "Geoffrey Hinton" isn't split into separate terms.
+    return value.includes(' ') ? `${term.field}:"${value}"` : `${term.field}:${value}`;
+}
+
+function compileNode(node: ArxivQueryNode, nested: boolean): string {
+    if (node.kind === 'term') return compileTerm(node);
+
+    const parts = node.clauses.map(clause => compileNode(clause, true));
+    if (parts.length === 0) {
+        throw new ArxivQueryError('A group needs at least one clause');
+    }
+    if (parts.length === 1) return parts[0];
+
+    // arXiv evaluates operators left to right, so "a ANDNOT b ANDNOT c" excludes both b and c.
+    const joined = parts.join(` ${node.operator} `);
+    return nested ? `(${joined})` : joined;
+}
+
+function toArxivTimestamp(date: string, endOfDay: boolean): string {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    if (!match) {
+        throw new ArxivQueryError(`Invalid date "${date}" (expected YYYY-MM-DD)`);
+    }
+    return `${match[1]}${match[2]}${match[3]}${endOfDay ? '2359' : '0000'}`;
+}
+
+function compileDateRange(range: ArxivDateRange): string | null {
+    if (!range.from && !range.to) return null;
+    const from = range.from ? toArxivTimestamp(range.from, false) : '199101010000';
+    const to = range.to ? toArxivTimestamp(range.to, true) : '209912312359';
+    if (from > to) {
+        throw new ArxivQueryError('Start date is after end date');
+    }
+    return `submittedDate:[${from} TO ${to}]`;
+}
+
+/**
+ * Compiles a structured query into the string arXiv expects for `search_query`.
+ * Throws ArxivQueryError when the query is empty or malformed.
+ */
+export function compileArxivQuery(query: ArxivQuery): string {
+    const dateClause = query.submittedDate ? compileDateRange(query.submittedDate) : null;
+    const body = compileNode(query.root, dateClause !== null);
+    return dateClause ? `${body} AND ${dateClause}` : body;
+}
+
+export function isArxivQuery(value: unknown): value is ArxivQuery {
+    return typeof value === 'object' && value !== null && 'root' in value;
+}
+
+export interface QueryRow {
+    operator: ArxivOperator; // How this row joins the rows before it; ignored on the first row
+    field: ArxivField;
+    value: string;
+}
+
+/**
+ * Builds a query tree from a flat list of rows as entered in the advanced search panel.
+ * Rows are combined left to right, so `a AND b OR c` means `(a AND b) OR c`.
+ */
+export function buildQueryFromRows(rows: QueryRow[], submittedDate?: ArxivDateRange): ArxivQuery {
+    const filled = rows.filter(row => row.value.trim());
+    if (filled.length === 0) {
+        throw new ArxivQueryError('Enter at least one search term');
+    }
+
+    const toTerm = (row: QueryRow): ArxivTerm => ({ kind: 'term', field: row.field, value: row.value });
+
+    const root = filled.slice(1).reduce<ArxivQueryNode>((acc, row) => {
+        if (acc.kind === 'group' && acc.operator === row.operator && row.operator !== 'ANDNOT') {
+            return { ...acc, clauses: [...acc.clauses, toTerm(row)] };
+        }
+        return { kind: 'group', operator: row.operator, clauses: [acc, toTerm(row)] };
+    }, toTerm(filled[0]));
+
+    return { root, submittedDate };
+}
@@ -0,0 +1,183 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { ArxivPaper } from './arxiv';
+import { forgetVectors } from './embeddings';
+import { ExternalIds } from './sources/types';
+
+// The target's IDs win where both rows have one
+export function mergeExternalIds(target: string | null, source: string | null): string | null {
+    if (!source) return target;
+    if (!target) return source;
+    const merged: ExternalIds = { ...JSON.parse(source), ...JSON.parse(target) };
+    return JSON.stringify(merged);
+}
+
+/**
+ * Folds one catalog row into another and deletes it.
+ *
+ * Each user's SavedPaper link moves to the target; when a user saved both rows their
+ * read/star flags are OR-ed, the earliest save date and the latest acknowledged version
+ * win. Topics, references, collections, chat history, analysis revisions and arXiv
+ * versions move across, and empty fields on the target are filled from the source.
+ * A target that was never analyzed takes the source's analysis and extracted text.
+ */
+export async function mergePaperInto(sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) return;
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const source = await tx.paper.findUnique({
+            where: { id: sourceId },
+            include: { topics: true, savedBy: true, collections: { select: { id: true } }, versions: { select: { id: true, version: true } }, content: { select: { paperId: true } } },
+        });
+        const target = await tx.paper.findUnique({
+            where: { id: targetId },
+            include: { versions: { select: { version: true } }, content: { select: { paperId: true } } },
+        });
+        if (!source || !target) {
+            throw new Error(`Cannot merge ${sourceId} into ${targetId}: paper not found`);
+        }
+
+        for (const entry of source.savedBy) {
+            const existing = await tx.savedPaper.findUnique({
+                where: { userId_paperId: { userId: entry.userId, paperId: targetId } },
+            });
+
+            if (existing) {
+                await tx.savedPaper.update({
+                    where: { id: existing.id },
+                    data: {
+                        isRead: existing.isRead || entry.isRead,
+                        isStarred: existing.isStarred || entry.isStarred,
+                        savedAt: existing.savedAt < entry.savedAt ? existing.savedAt : entry.savedAt,
+                        seenVersion: Math.max(existing.seenVersion ?? 0, entry.seenVersion ?? 0) || null,
+                    },
+                });
+                await tx.savedPaper.delete({ where: { id: entry.id } });
+            } else {
+                await tx.savedPaper.update({
+                    where: { id: entry.id },
+                    data: { paperId: targetId },
+                });
+            }
+        }
+
+        await tx.reference.updateMany({ where: { sourcePaperId: sourceId }, data: { sourcePaperId: targetId } });
+        await tx.reference.updateMany({ where: { targetPaperId: sourceId }, data: { targetPaperId: targetId } });
+        // A duplicate citing its twin would now cite itself
+        await tx.reference.updateMany({ where: { sourcePaperId: targetId, targetPaperId: targetId }, data: { targetPaperId: null } });
+
+        await tx.paperChatMessage.updateMany({ where: { paperId: sourceId }, data: { paperId: targetId } });
+        await tx.analysisRevision.updateMany({ where: { paperId: sourceId }, data: { paperId: targetId } });
+        const knownVersions = new Set(target.versions.map((entry: { version: number }) => entry.version));
+        const newVersions = source.versions.filter((entry: { version: number }) => !knownVersions.has(entry.version));
+        await tx.paperVersion.updateMany({
+            where: { id: { in: newVersions.map((entry: { id: string }) => entry.id) } },
+            data: { paperId: targetId },
+        });
+
+        // The source's analysis only carries over whole, so its fields stay consistent
+        const adoptAnalysis = !target.summary && !!source.summary;
+        if (adoptAnalysis) {
+            await tx.paperTranslation.updateMany({ where: { paperId: sourceId }, data: { paperId: targetId } });
+        }
+        if (!target.content && source.content) {
+            await tx.paperContent.update({ where: { paperId: sourceId }, data: { paperId: targetId } });
+            await tx.paperChunk.updateMany({ where: { paperId: sourceId }, data: { paperId: targetId } });
+        }
+
+        await tx.paper.update({
+            where: { id: targetId },
+            data: {
+                abstract: target.abstract ?? source.abstract,
+                institution: target.institution ?? source.institution,
+                url: target.url ?? source.url,
+                filePath: target.filePath ?? source.filePath,
+                publishedDate: target.publishedDate ?? source.publishedDate,
+                journalRef: target.journalRef ?? source.journalRef,
+                doi: target.doi ?? source.doi,
+                comment: target.comment ?? source.comment,
+                externalIds: mergeExternalIds(target.externalIds, source.externalIds),
+                ...(adoptAnalysis ? {
+                    summary: source.summary,
+                    problem: source.problem,
+                    method: source.method,
+                    datasets: source.datasets,
+                    metrics: source.metrics,
+                    results: source.results,
+                    baselines: source.baselines,
+                    limitations: source.limitations,
+                    compute: source.compute,
+                    codeAvailable: source.codeAvailable,
+                    codeUrl: source.codeUrl,
+                    analyzedVersion: source.analyzedVersion,
+                    analysisStatus: source.analysisStatus,
+                    analysisError: source.analysisError,
+                    analyzedAt: source.analyzedAt,
+                    currentRevisionId: source.currentRevisionId,
+                } : {}),
+                topics: {
+                    connect: source.topics.map((topic: { id: string }) => ({ id: topic.id })),
+                },
+                collections: {
+                    connect: source.collections.map((collection: { id: string }) => ({ id: collection.id })),
+                },
+            },
+        });
+
+        await tx.paper.delete({ where: { id: sourceId } });
+    });
+    forgetVectors([sourceId]);
+}
+
+export interface CatalogPaper {
+    id: string;
+    title: string;
+    authors: string;
+    abstract: string | null;
+    url: string | null;
+    filePath: string | null;
+    publishedDate: Date | null;
+    updatedDate: Date | null;
+    arxivVersion: number | null;
+    primaryCategory: string | null;
+    categories: string | null;
+    comment: string | null;
+    journalRef: string | null;
+    doi: string | null;
+}
+
+/**
+ * Newest papers in an arXiv category from the local catalog, as filled by the harvester.
+ */
+export async function getLatestCatalogPapers(category: string, limit = 10): Promise<ArxivPaper[]> {
+    const papers: CatalogPaper[] = await prisma.paper.findMany({
+        // categories is a JSON array string, so match the quoted category name
+        where: { categories: { contains: JSON.stringify(category) } },
+        orderBy: { publishedDate: 'desc' },
+        take: limit,
+    });
+
+    return papers.map(toArxivPaper);
+}
+
+/**
+ * A catalog row in the shape search results and paper cards use.
+ */
+export function toArxivPaper(paper: CatalogPaper): ArxivPaper {
+    return {
+        id: paper.id,
+        version: paper.arxivVersion ?? undefined,
+        title: paper.title,
+        summary: paper.abstract ?? '',
+        authors: JSON.parse(paper.authors),
+        published: paper.publishedDate?.toISOString() ?? '',
+        updated: paper.updatedDate?.toISOString(),
+        link: paper.url ?? '',
+        pdfLink: paper.filePath ?? undefined,
+        primaryCategory: paper.primaryCategory ?? undefined,
+        categories: paper.categories ? JSON.parse(paper.categories) : [],
+        comment: paper.comment ?? undefined,
+        journalRef: paper.journalRef ?? undefined,
+        doi: paper.doi ?? undefined,
+    };
+}
@@ -0,0 +1,158 @@
+import { prisma } from './db';
+
+/**
+ * Citation graph of a user's library, built from the Reference table.
+ *
+ * Nodes are the saved papers plus the papers they cite that at least
+ * FOUNDATIONAL_MIN_CITATIONS saved papers have in common: those are the candidates for
+ * "everyone cites it but we haven't saved it". A cited paper that isn't in the catalog
+ * is identified by its arXiv ID or, failing that, by its normalized title, so the same
+ * work cited from different papers still becomes one node.
+ */
+
+const FOUNDATIONAL_MIN_CITATIONS = 2;
+
+export interface GraphNode {
+    id: string;         // Paper ID, or "ref:<normalized title>" for works we can't identify
+    title: string;
+    saved: boolean;
+    canSave: boolean;   // In the catalog or on arXiv
+    topics: string[];
+    institution: string | null;
+    year: number | null;
+}
+
+export interface GraphEdge {
+    source: string;     // The citing paper
+    target: string;
+}
+
+export interface CitationGraph {
+    nodes: GraphNode[];
+    edges: GraphEdge[];
+}
+
+interface ReferenceRow {
+    sourcePaperId: string;
+    targetPaperId: string | null;
+    arxivId: string | null;
+    title: string;
+    year: number | null;
+}
+
+interface PaperRow {
+    id: string;
+    title: string;
+    institution: string | null;
+    publishedDate: Date | null;
+    topics: { name: string }[];
+}
+
+function referenceKey(ref: ReferenceRow): string {
+    return ref.targetPaperId ?? ref.arxivId ?? `ref:${ref.title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()}`;
+}
+
+function paperNode(paper: PaperRow, saved: boolean): GraphNode {
+    return {
+        id: paper.id,
+        title: paper.title,
+        saved,
+        canSave: true,
+        topics: paper.topics.map(topic => topic.name),
+        institution: paper.institution,
+        year: paper.publishedDate?.getFullYear() ?? null,
+    };
+}
+
+// Nodes for the given keys: catalog papers where we have them, the reference itself otherwise
+async function nodesFor(keys: string[], refs: ReferenceRow[], savedIds: Set<string>): Promise<GraphNode[]> {
+    const papers: PaperRow[] = await prisma.paper.findMany({
+        where: { id: { in: keys } },
+        include: { topics: true },
+    });
+    const byId = new Map(papers.map(paper => [paper.id, paper]));
+    const sample = new Map(refs.map(ref => [referenceKey(ref), ref]));
+
+    return keys.map(key => {
+        const paper = byId.get(key);
+        if (paper) return paperNode(paper, savedIds.has(key));
+        const ref = sample.get(key)!;
+        return {
+            id: key,
+            title: ref.title,
+            saved: false,
+            canSave: !!ref.arxivId,
+            topics: [],
+            institution: null,
+            year: ref.year,
+        };
+    });
+}
+
+function addEdge(edges: Map<string, GraphEdge>, source: string, target: string) {
+    if (source !== target) edges.set(`${source}->${target}`, { source, target });
+}
+
+export async function getCitationGraph(userId: string): Promise<CitationGraph> {
+    const saved: { paper: PaperRow }[] = await prisma.savedPaper.findMany({
+        where: { userId },
+        include: { paper: { include: { topics: true } } },
+    });
+    const savedIds = new Set(saved.map(entry => entry.paper.id));
+
+    const refs: ReferenceRow[] = await prisma.reference.findMany({
+        where: { sourcePaperId: { in: Array.from(savedIds) } },
+        select: { sourcePaperId: true, targetPaperId: true, arxivId: true, title: true, year: true },
+    });
+
+    const edges = new Map<string, GraphEdge>();
+    const citers = new Map<string, Set<string>>();
+    for (const ref of refs) {
+        const key = referenceKey(ref);
+        addEdge(edges, ref.sourcePaperId, key);
+        if (!citers.has(key)) citers.set(key, new Set());
+        citers.get(key)!.add(ref.sourcePaperId);
+    }
+
+    const external = Array.from(citers.entries())
+        .filter(([key, sources]) => !savedIds.has(key) && sources.size >= FOUNDATIONAL_MIN_CITATIONS)
+        .map(([key]) => key);
+    const included = new Set([...savedIds, ...external]);
+
+    return {
+        nodes: [
+            ...saved.map(entry => paperNode(entry.paper, true)),
+            ...await nodesFor(external, refs, savedIds),
+        ],
+        edges: Array.from(edges.values()).filter(edge => included.has(edge.target)),
+    };
+}
+
+/**
+ * Everything a paper cites and every catalog paper citing it, for expanding one node
+ * of the graph.
+ */
+export async function getCitationNeighborhood(userId: string, paperId: string): Promise<CitationGraph> {
+    if (paperId.startsWith('ref:')) return { nodes: [], edges: [] };
+
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({ where: { userId }, select: { paperId: true } });
+    const savedIds = new Set(saved.map(entry => entry.paperId));
+
+    const select = { sourcePaperId: true, targetPaperId: true, arxivId: true, title: true, year: true };
+    const cited: ReferenceRow[] = await prisma.reference.findMany({ where: { sourcePaperId: paperId }, select });
+    const citing: ReferenceRow[] = await prisma.reference.findMany({
+        where: { OR: [{ targetPaperId: paperId }, { arxivId: paperId }] },
+        select,
+    });
+
+    const edges = new Map<string, GraphEdge>();
+    cited.forEach(ref => addEdge(edges, paperId, referenceKey(ref)));
+    citing.forEach(ref => addEdge(edges, ref.sourcePaperId, paperId));
+
+    const keys = new Set([...cited.map(referenceKey), ...citing.map(ref => ref.sourcePaperId)]);
+    keys.delete(paperId);
+    return {
+        nodes: await nodesFor(Array.from(keys), cited, savedIds),
+        edges: Array.from(edges.values()),
+    };
+}
@@ -1,46 +1,364 @@
-import { ArxivPaper } from './arxiv';
+import { prisma } from './db';
+import { dot, getVectors, normalize, refreshEmbeddings, vectorFromBytes, vectorToBytes } from './embeddings';
+import { JsonSchema, generateStructured, getEmbeddingConfig, isEmbeddingConfigured } from './llm';
 
-export interface Cluster {
+/**
+ * Groups papers by what they are about.
+ *
+ * A clustering covers one user's library or the whole catalog. Papers are grouped by
+ * spherical k-means over their embeddings (see embeddings.ts) and each group is named
+ * and described by the LLM from its most central papers. Clusters are stored with
+ * their centroid, so a newly saved paper joins the nearest one right away; once enough
+ * papers have joined since the clustering was built it is rebuilt, and clusters that
+ * barely changed keep their names. A library is rebuilt right after the save that
+ * makes it due; the catalog, too big for that, is rebuilt by the scheduler
+ * (refreshCatalogClusters). A paper removed from a library leaves its clusters.
+ */
+
+export class ClusteringError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ClusteringError';
+    }
+}
+
+interface ClusterRow {
     id: string;
+    userId: string | null;
     name: string;
-    papers: ArxivPaper[];
+    description: string | null;
+    centroid: Uint8Array;
+    size: number;
+    joined: number;
+    provider: string | null;
+    namedBy: string | null;
+    builtAt: Date;
 }
 
-export function groupPapers(papers: ArxivPaper[]): Cluster[] {
-    // Simple keyword-based clustering for demonstration
-    const clusters: Record<string, ArxivPaper[]> = {};
+interface ClusterGroup {
+    centroid: Float32Array;
+    members: string[];  // Most central first
+}
+
+// Fewer papers than this aren't worth clustering
+const MIN_PAPERS = 6;
+const MAX_CLUSTERS = 24;
+const MAX_ITERATIONS = 30;
+// Papers per cluster the LLM sees when naming it
+const NAMING_PAPERS = 6;
+// Rebuild once this many papers, relative to the clustering's size, joined since it was built
+const REBUILD_GROWTH = 0.25;
+// A rebuilt cluster keeps an old cluster's name when their members overlap this much (Jaccard)
+const KEEP_NAME_OVERLAP = 0.6;
+
+// Deterministic (mulberry32), so rebuilding an unchanged library gives the same clusters
+function seededRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
 
-    papers.forEach(paper => {
-        const title = paper.title.toLowerCase();
-        let assigned = false;
+function clusterCount(papers: number): number {
+    return Math.min(MAX_CLUSTERS, Math.max(2, Math.round(Math.sqrt(papers / 2))));
+}
 
-        if (title.includes('llm') || title.includes('language model') || title.includes('gpt')) {
-            if (!clusters['LLMs']) clusters['LLMs'] = [];
-            clusters['LLMs'].push(paper);
-            assigned = true;
+function nearestCentroid(vector: Float32Array, centroids: Float32Array[]): number {
+    let best = 0;
+    let bestSimilarity = -Infinity;
+    centroids.forEach((centroid, index) => {
+        const similarity = dot(vector, centroid);
+        if (similarity > bestSimilarity) {
+            best = index;
+            bestSimilarity = similarity;
         }
+    });
+    return best;
+}
 
-        if (title.includes('vision') || title.includes('image') || title.includes('diffusion')) {
-            if (!clusters['Computer Vision']) clusters['Computer Vision'] = [];
-            clusters['Computer Vision'].push(paper);
-            assigned = true;
+/**
+ * Spherical k-means: unit vectors grouped by cosine similarity to their cluster's mean
+ * direction, seeded with k-means++. Clusters that end up empty are left out.
+ */
+function kMeans(ids: string[], vectors: Float32Array[], k: number): ClusterGroup[] {
+    const random = seededRandom(1);
+    let centroids = [vectors[Math.floor(random() * vectors.length)]];
+    const distances = vectors.map(vector => 1 - dot(vector, centroids[0]));
+    while (centroids.length < k) {
+        const weights = distances.map(distance => Math.max(distance, 0) ** 2);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        // Fewer distinct papers than clusters
+        if (total === 0) break;
+        let index = 0;
+        for (let pick = random() * total; index < weights.length - 1; index++) {
+            pick -= weights[index];
+            if (pick <= 0) break;
         }
+        const centroid = vectors[index];
+        centroids.push(centroid);
+        vectors.forEach((vector, i) => {
+            distances[i] = Math.min(distances[i], 1 - dot(vector, centroid));
+        });
+    }
+
+    const assignments = new Array<number>(vectors.length).fill(-1);
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        let changed = false;
+        vectors.forEach((vector, i) => {
+            const nearest = nearestCentroid(vector, centroids);
+            if (nearest !== assignments[i]) {
+                assignments[i] = nearest;
+                changed = true;
+            }
+        });
+        if (!changed) break;
+        centroids = centroids.map((centroid, cluster) => {
+            const sum = new Float32Array(centroid.length);
+            let members = 0;
+            vectors.forEach((vector, i) => {
+                if (assignments[i] !== cluster) return;
+                members++;
+                for (let d = 0; d < sum.length; d++) sum[d] += vector[d];
+            });
+            return members > 0 ? normalize(sum) : centroid;
+        });
+    }
+
+    return centroids
+        .map((centroid, cluster) => ({
+            centroid,
+            members: ids
+                .map((id, i) => ({ id, cluster: assignments[i], similarity: dot(vectors[i], centroid) }))
+                .filter(member => member.cluster === cluster)
+                .sort((a, b) => b.similarity - a.similarity)
+                .map(member => member.id),
+        }))
+        .filter(group => group.members.length > 0);
+}
+
+function overlap(a: string[], b: string[]): number {
+    const members = new Set(a);
+    const shared = b.filter(id => members.has(id)).length;
+    return shared / (a.length + b.length - shared);
+}
+
+const NAMES_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        clusters: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    cluster: { type: 'integer', description: 'The cluster number' },
+                    name: { type: 'string', minLength: 1 },
+                    description: { type: 'string', minLength: 1 },
+                },
+                required: ['cluster', 'name', 'description'],
+            },
+        },
+    },
+    required: ['clusters'],
+};
+
+async function nameClusters(groups: ClusterGroup[], otherNames: string[]) {
+    const central = groups.flatMap(group => group.members.slice(0, NAMING_PAPERS));
+    const papers: { id: string; title: string }[] = await prisma.paper.findMany({ where: { id: { in: central } }, select: { id: true, title: true } });
+    const titles = new Map(papers.map(paper => [paper.id, paper.title]));
+
+    const { data, response } = await generateStructured<{ clusters: { cluster: number; name: string; description: string }[] }>('cluster_names', {
+        parts: [{
+            type: 'text',
+            text: `These clusters of research papers were found by grouping papers with similar content; each lists its most
+        typical papers. For every cluster, give a short name (2 to 5 words) for what its papers have in common and a
+        one-sentence description. Names should tell the clusters apart${otherNames.length > 0 ? `, also from these existing clusters: ${otherNames.join('; ')}` : ''}.
+
+        ${groups.map((group, index) => `Cluster ${index + 1}:\n${group.members.slice(0, NAMING_PAPERS).map(id => `- ${titles.get(id) ?? id}`).join('\n')}`).join('\n\n')}`,
+        }],
+    }, NAMES_SCHEMA);
+
+    const names = new Map(data.clusters.map(entry => [entry.cluster, entry]));
+    return groups.map((_group, index) => ({
+        name: names.get(index + 1)?.name.trim() || `Cluster ${index + 1}`,
+        description: names.get(index + 1)?.description.trim() || null,
+        provider: response.provider,
+        namedBy: response.model,
+    }));
+}
+
+async function libraryPaperIds(userId: string): Promise<string[]> {
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({ where: { userId }, select: { paperId: true } });
+    return saved.map(entry => entry.paperId);
+}
 
-        if (title.includes('reinforcement') || title.includes('rl')) {
-            if (!clusters['Reinforcement Learning']) clusters['Reinforcement Learning'] = [];
-            clusters['Reinforcement Learning'].push(paper);
-            assigned = true;
+// Clusterings being rebuilt, by owner ('' for the catalog)
+const building = new Set<string>();
+
+async function buildClusters(owner: string | null): Promise<void> {
+    const key = owner ?? '';
+    if (building.has(key)) throw new ClusteringError('These clusters are already being rebuilt');
+    building.add(key);
+    try {
+        let paperIds: string[] | undefined;
+        if (owner) {
+            paperIds = await libraryPaperIds(owner);
+            // Papers saved before embeddings were kept
+            await refreshEmbeddings(paperIds);
+        }
+        const vectors = await getVectors(paperIds);
+        if (vectors.size < MIN_PAPERS) {
+            throw new ClusteringError(`Clustering needs at least ${MIN_PAPERS} papers with embeddings; ${vectors.size} have one`);
         }
 
-        if (!assigned) {
-            if (!clusters['Other']) clusters['Other'] = [];
-            clusters['Other'].push(paper);
+        const ids = Array.from(vectors.keys());
+        const groups = kMeans(ids, ids.map(id => vectors.get(id)!), clusterCount(ids.length));
+
+        // Clusters that barely changed keep their names; the rest are named afresh
+        const previous: (ClusterRow & { papers: { id: string }[] })[] = await prisma.cluster.findMany({
+            where: { userId: owner },
+            include: { papers: { select: { id: true } } },
+        });
+        const kept = new Map<ClusterGroup, ClusterRow>();
+        for (const group of groups) {
+            const match = previous
+                .filter(cluster => !Array.from(kept.values()).includes(cluster))
+                .map(cluster => ({ cluster, overlap: overlap(group.members, cluster.papers.map(paper => paper.id)) }))
+                .sort((a, b) => b.overlap - a.overlap)[0];
+            if (match && match.overlap >= KEEP_NAME_OVERLAP) kept.set(group, match.cluster);
         }
+        const unnamed = groups.filter(group => !kept.has(group));
+        const names = unnamed.length > 0 ? await nameClusters(unnamed, Array.from(kept.values(), cluster => cluster.name)) : [];
+
+        const { model } = getEmbeddingConfig();
+        await prisma.$transaction([
+            prisma.cluster.deleteMany({ where: { userId: owner } }),
+            ...groups.map(group => {
+                const keptCluster = kept.get(group);
+                const naming = keptCluster ?? names[unnamed.indexOf(group)];
+                return prisma.cluster.create({
+                    data: {
+                        userId: owner,
+                        name: naming.name,
+                        description: naming.description,
+                        provider: naming.provider,
+                        namedBy: naming.namedBy,
+                        centroid: vectorToBytes(group.centroid),
+                        model,
+                        size: group.members.length,
+                        papers: { connect: group.members.map(id => ({ id })) },
+                    },
+                });
+            }),
+        ]);
+    } finally {
+        building.delete(key);
+    }
+}
+
+// Whether enough papers joined a clustering since it was built to rebuild it
+function hasGrown(clusters: { size: number; joined: number }[]): boolean {
+    const size = clusters.reduce((sum, cluster) => sum + cluster.size, 0);
+    const joined = clusters.reduce((sum, cluster) => sum + cluster.joined, 0);
+    return joined >= size * REBUILD_GROWTH;
+}
+
+/**
+ * Clusters the user's library from scratch.
+ */
+export async function rebuildClusters(userId: string): Promise<void> {
+    if (!isEmbeddingConfigured()) throw new ClusteringError('Clustering needs an embedding model; see LLM_EMBEDDING_PROVIDER');
+    await buildClusters(userId);
+}
+
+/**
+ * Clusters the whole catalog from scratch if it has none yet or enough papers joined
+ * since it was built, or always with `force`. Meant for the scheduler and scripts: it
+ * takes too long for a request. Returns whether it was rebuilt.
+ */
+export async function refreshCatalogClusters(options: { force?: boolean } = {}): Promise<boolean> {
+    if (!isEmbeddingConfigured()) throw new ClusteringError('Clustering needs an embedding model; see LLM_EMBEDDING_PROVIDER');
+    if (!options.force) {
+        const { model } = getEmbeddingConfig();
+        const clusters: { size: number; joined: number }[] = await prisma.cluster.findMany({
+            where: { userId: null, model },
+            select: { size: true, joined: true },
+        });
+        const due = clusters.length > 0 ? hasGrown(clusters) : (await getVectors()).size >= MIN_PAPERS;
+        if (!due) return false;
+    }
+    await buildClusters(null);
+    return true;
+}
+
+// Adds the paper to the nearest of the owner's clusters. A library's are rebuilt once they have
+// grown enough; for the catalog's, the papers that joined only count towards refreshCatalogClusters
+async function joinNearest(paperId: string, vector: Float32Array, owner: string | null): Promise<void> {
+    const { model } = getEmbeddingConfig();
+    const clusters: (ClusterRow & { papers: { id: string }[] })[] = await prisma.cluster.findMany({
+        where: { userId: owner, model },
+        include: { papers: { where: { id: paperId }, select: { id: true } } },
     });
 
-    return Object.entries(clusters).map(([name, papers], index) => ({
-        id: `cluster-${index}`,
-        name,
-        papers
-    }));
+    if (clusters.length === 0) {
+        // A library gets its first clusters once it is big enough; the catalog's come from refreshCatalogClusters
+        if (owner && (await getVectors(await libraryPaperIds(owner))).size >= MIN_PAPERS && !building.has(owner)) {
+            await buildClusters(owner);
+        }
+        return;
+    }
+    if (clusters.some(cluster => cluster.papers.length > 0)) return;
+
+    const centroids = clusters.map(cluster => vectorFromBytes(cluster.centroid));
+    const nearest = nearestCentroid(vector, centroids);
+    const target = clusters[nearest];
+    // Running mean: the centroid moves towards the new member by its share of the cluster
+    const members = target.size + target.joined;
+    const centroid = normalize(centroids[nearest].map((value, i) => value * members + vector[i]));
+    await prisma.cluster.update({
+        where: { id: target.id },
+        data: { joined: { increment: 1 }, centroid: vectorToBytes(centroid), papers: { connect: { id: paperId } } },
+    });
+
+    if (!owner || building.has(owner)) return;
+    if (hasGrown(clusters.map(cluster => (cluster === target ? { ...cluster, joined: cluster.joined + 1 } : cluster)))) {
+        await buildClusters(owner);
+    }
+}
+
+/**
+ * Places a newly saved paper in the saver's library clusters and the catalog's.
+ * Failures are logged and skipped: the paper joins at the next rebuild.
+ */
+export async function clusterSavedPaper(paperId: string, userId: string): Promise<void> {
+    if (!isEmbeddingConfigured()) return;
+    try {
+        await refreshEmbeddings([paperId]);
+        const vector = (await getVectors([paperId])).get(paperId);
+        if (!vector) return;
+        for (const owner of [userId, null]) {
+            await joinNearest(paperId, vector, owner);
+        }
+    } catch (error) {
+        console.error(`Clustering ${paperId} failed:`, error);
+    }
+}
+
+/**
+ * Takes a paper the user removed from their library out of their clusters, so it no
+ * longer counts towards them.
+ */
+export async function removeFromLibraryClusters(paperId: string, userId: string): Promise<void> {
+    const clusters: { id: string }[] = await prisma.cluster.findMany({
+        where: { userId, papers: { some: { id: paperId } } },
+        select: { id: true },
+    });
+    for (const cluster of clusters) {
+        await prisma.cluster.update({
+            where: { id: cluster.id },
+            data: { size: { decrement: 1 }, papers: { disconnect: { id: paperId } } },
+        });
+    }
 }
@@ -0,0 +1,65 @@
+import { prisma } from './db';
+
+/**
+ * Collections: named sets of papers a user keeps from their library, such as an area
+ * lassoed on the research map. Removing a paper from the library leaves it out of the
+ * user's collections too.
+ */
+
+export class CollectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CollectionError';
+    }
+}
+
+export interface PaperCollection {
+    id: string;
+    name: string;
+    paperIds: string[];
+    createdAt: Date;
+}
+
+interface CollectionRow {
+    id: string;
+    userId: string;
+    name: string;
+    createdAt: Date;
+    papers: { id: string }[];
+}
+
+function toCollection(row: CollectionRow): PaperCollection {
+    return { id: row.id, name: row.name, paperIds: row.papers.map(paper => paper.id), createdAt: row.createdAt };
+}
+
+export async function listCollections(userId: string): Promise<PaperCollection[]> {
+    const rows: CollectionRow[] = await prisma.collection.findMany({
+        where: { userId },
+        include: { papers: { where: { savedBy: { some: { userId } } }, select: { id: true } } },
+        orderBy: { createdAt: 'desc' },
+    });
+    return rows.map(toCollection);
+}
+
+export async function createCollection(userId: string, name: string, paperIds: string[]): Promise<PaperCollection> {
+    const trimmed = name.trim();
+    if (!trimmed) throw new CollectionError('Give the collection a name');
+
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({
+        where: { userId, paperId: { in: paperIds } },
+        select: { paperId: true },
+    });
+    if (saved.length === 0) throw new CollectionError('Pick some papers from your library first');
+
+    const row: CollectionRow = await prisma.collection.create({
+        data: { userId, name: trimmed, papers: { connect: saved.map(entry => ({ id: entry.paperId })) } },
+        include: { papers: { select: { id: true } } },
+    });
+    return toCollection(row);
+}
+
+export async function deleteCollection(userId: string, collectionId: string): Promise<void> {
+    const collection: { userId: string } | null = await prisma.collection.findUnique({ where: { id: collectionId } });
+    if (!collection || collection.userId !== userId) throw new CollectionError('Collection not found');
+    await prisma.collection.delete({ where: { id: collectionId } });
+}
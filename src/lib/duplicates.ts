@@ -0,0 +1,258 @@
+import { prisma } from './db';
+import { mergePaperInto } from './catalog';
+import { normalizeArxivId, parseArxivId } from './arxivId';
+import { dot, getVectors, refreshEmbeddings } from './embeddings';
+import { ExternalIds, SourceId } from './sources/types';
+
+/**
+ * Finds catalog rows that are the same work and folds them into one.
+ *
+ * The catalog can hold a paper twice: under a versioned and an unversioned arXiv ID, a
+ * URL saved before IDs were normalized, or a DOI from another source. Rows are grouped
+ * when they share an arXiv ID, a DOI or a title. Rows with the same first author are
+ * also compared pairwise, by title words and by embedding (see embeddings.ts), to catch
+ * a preprint and its published version whose titles drifted apart. Looking for the
+ * duplicates of given papers only loads the rows sharing one of those with them; the
+ * whole catalog is searched by scripts/find-duplicates.ts.
+ */
+
+export class DuplicateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DuplicateError';
+    }
+}
+
+export type DuplicateReason = 'same_id' | 'same_doi' | 'same_title' | 'similar_title' | 'similar_content';
+
+export interface DuplicatePaper {
+    id: string;
+    title: string;
+    authors: string[];
+    published: string | null;
+    source: SourceId;
+    savedBy: number;  // Users with it in their library
+    analyzed: boolean;
+}
+
+export interface DuplicateGroup {
+    papers: DuplicatePaper[];  // The suggested record to keep first
+    reasons: DuplicateReason[];
+}
+
+interface CandidateRow {
+    id: string;
+    title: string;
+    authors: string;
+    doi: string | null;
+    externalIds: string | null;
+    publishedDate: Date | null;
+    source: string;
+    summary: string | null;
+    createdAt: Date;
+    _count: { savedBy: number };
+}
+
+// Word overlap (Jaccard) of two titles from which they count as the same
+const TITLE_SIMILARITY = 0.8;
+// Embedding similarity from which papers count as the same, when their titles overlap this much
+const CONTENT_SIMILARITY = 0.95;
+const CONTENT_TITLE_SIMILARITY = 0.5;
+// Shorter titles ("Introduction", "Notes") are too generic to match on alone
+const MIN_TITLE_CHARS = 16;
+
+function titleWords(title: string): string[] {
+    return title.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+    let shared = 0;
+    a.forEach(word => { if (b.has(word)) shared++; });
+    return shared / (a.size + b.size - shared || 1);
+}
+
+function normalizeDoi(doi: string): string {
+    return doi.trim().toLowerCase().replace(/^(?:https?:\/\/)?(?:dx\.)?doi\.org\//, '').replace(/^doi:/, '');
+}
+
+function firstAuthorSurname(authors: string): string | null {
+    const names: string[] = JSON.parse(authors);
+    const parts = names[0]?.trim().toLowerCase().split(/\s+/) ?? [];
+    return parts.length > 0 ? parts[parts.length - 1].replace(/[^a-z]/g, '') || null : null;
+}
+
+// Exact-match keys: rows sharing any of them are the same paper
+function matchKeys(row: CandidateRow): { key: string; reason: DuplicateReason }[] {
+    const externalIds: ExternalIds = row.externalIds ? JSON.parse(row.externalIds) : {};
+    const arxivIds = [normalizeArxivId(row.id) ?? row.id, externalIds.arxiv && normalizeArxivId(externalIds.arxiv)];
+    const dois = [row.doi, externalIds.doi].filter((doi): doi is string => !!doi).map(normalizeDoi);
+    const title = titleWords(row.title).join(' ');
+    return [
+        ...arxivIds.filter((id): id is string => !!id).map(id => ({ key: `id:${id}`, reason: 'same_id' as const })),
+        ...dois.map(doi => ({ key: `doi:${doi}`, reason: 'same_doi' as const })),
+        ...(title.length >= MIN_TITLE_CHARS ? [{ key: `title:${title}`, reason: 'same_title' as const }] : []),
+    ];
+}
+
+// Keys for finding the rows that may duplicate `row`: its arXiv IDs, DOIs, title and first author
+function lookupKeys(row: CandidateRow): { arxivIds: string[]; dois: string[]; title: string; surname: string | null } {
+    const externalIds: ExternalIds = row.externalIds ? JSON.parse(row.externalIds) : {};
+    const arxivIds = [row.id, externalIds.arxiv].map(id => id && normalizeArxivId(id)).filter((id): id is string => !!id);
+    const dois = [row.doi, externalIds.doi].filter((doi): doi is string => !!doi).map(normalizeDoi);
+    return { arxivIds, dois, title: row.title.trim(), surname: firstAuthorSurname(row.authors) };
+}
+
+// The row to keep: a canonical arXiv ID, then the one most users saved, then an analyzed one, then the oldest
+function keepOrder(a: CandidateRow, b: CandidateRow): number {
+    const canonical = (row: CandidateRow) => (parseArxivId(row.id)?.base === row.id ? 1 : 0);
+    return canonical(b) - canonical(a)
+        || b._count.savedBy - a._count.savedBy
+        || Number(!!b.summary) - Number(!!a.summary)
+        || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+function toDuplicatePaper(row: CandidateRow): DuplicatePaper {
+    return {
+        id: row.id,
+        title: row.title,
+        authors: JSON.parse(row.authors),
+        published: row.publishedDate?.toISOString() ?? null,
+        source: row.source as SourceId,
+        savedBy: row._count.savedBy,
+        analyzed: !!row.summary,
+    };
+}
+
+const CANDIDATE_SELECT = {
+    id: true, title: true, authors: true, doi: true, externalIds: true, publishedDate: true,
+    source: true, summary: true, createdAt: true, _count: { select: { savedBy: true } },
+};
+
+/**
+ * Groups the rows that look like the same paper. With `wanted`, only groups containing
+ * one of those IDs are returned.
+ */
+async function groupDuplicates(rows: CandidateRow[], wanted?: Set<string>): Promise<DuplicateGroup[]> {
+    // Union-find over row indexes, remembering why rows were joined
+    const parent = rows.map((_, index) => index);
+    const find = (index: number): number => {
+        while (parent[index] !== index) index = parent[index] = parent[parent[index]];
+        return index;
+    };
+    const reasons = new Map<number, Set<DuplicateReason>>();
+    const join = (a: number, b: number, reason: DuplicateReason) => {
+        const [rootA, rootB] = [find(a), find(b)];
+        if (rootA === rootB) return;
+        const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+        parent[rootB] = rootA;
+        reasons.delete(rootB);
+        reasons.set(rootA, merged);
+    };
+
+    const firstWithKey = new Map<string, number>();
+    rows.forEach((row, index) => {
+        for (const { key, reason } of matchKeys(row)) {
+            const other = firstWithKey.get(key);
+            if (other === undefined) firstWithKey.set(key, index);
+            else join(other, index, reason);
+        }
+    });
+
+    // Near-duplicates are only looked for among papers by the same first author
+    const byAuthor = new Map<string, number[]>();
+    rows.forEach((row, index) => {
+        const surname = firstAuthorSurname(row.authors);
+        if (!surname) return;
+        if (!byAuthor.has(surname)) byAuthor.set(surname, []);
+        byAuthor.get(surname)!.push(index);
+    });
+    const vectors = await getVectors(rows.map(row => row.id));
+    const words = rows.map(row => new Set(titleWords(row.title)));
+    for (const indexes of byAuthor.values()) {
+        for (let i = 0; i < indexes.length; i++) {
+            for (let j = i + 1; j < indexes.length; j++) {
+                const [a, b] = [indexes[i], indexes[j]];
+                if (find(a) === find(b)) continue;
+                const overlap = jaccard(words[a], words[b]);
+                if (overlap >= TITLE_SIMILARITY) {
+                    join(a, b, 'similar_title');
+                    continue;
+                }
+                const [vectorA, vectorB] = [vectors.get(rows[a].id), vectors.get(rows[b].id)];
+                if (overlap >= CONTENT_TITLE_SIMILARITY && vectorA && vectorB && dot(vectorA, vectorB) >= CONTENT_SIMILARITY) {
+                    join(a, b, 'similar_content');
+                }
+            }
+        }
+    }
+
+    const groups = new Map<number, CandidateRow[]>();
+    rows.forEach((row, index) => {
+        const root = find(index);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(row);
+    });
+    return Array.from(groups.entries())
+        .filter(([, members]) => members.length > 1 && (!wanted || members.some(row => wanted.has(row.id))))
+        .map(([root, members]) => ({
+            papers: members.sort(keepOrder).map(toDuplicatePaper),
+            reasons: Array.from(reasons.get(root) ?? []),
+        }));
+}
+
+/**
+ * Groups of catalog rows that look like the same paper, over the whole catalog.
+ */
+export async function findDuplicates(): Promise<DuplicateGroup[]> {
+    const rows: CandidateRow[] = await prisma.paper.findMany({ select: CANDIDATE_SELECT });
+    return groupDuplicates(rows);
+}
+
+/**
+ * The groups of duplicates containing one of `paperIds`, e.g. those touching a user's
+ * library. Only rows sharing an arXiv ID, DOI, title or first author's surname with one
+ * of the papers are compared.
+ */
+export async function findDuplicatesOf(paperIds: string[]): Promise<DuplicateGroup[]> {
+    const papers: CandidateRow[] = await prisma.paper.findMany({ where: { id: { in: paperIds } }, select: CANDIDATE_SELECT });
+    if (papers.length === 0) return [];
+
+    const keys = papers.map(lookupKeys);
+    const arxivIds = Array.from(new Set(keys.flatMap(key => key.arxivIds)));
+    const dois = Array.from(new Set(keys.flatMap(key => key.dois)));
+    const titles = Array.from(new Set(keys.map(key => key.title).filter(title => title.length >= MIN_TITLE_CHARS)));
+    const surnames = Array.from(new Set(keys.flatMap(key => (key.surname ? [key.surname] : []))));
+    const rows: CandidateRow[] = await prisma.paper.findMany({
+        where: {
+            OR: [
+                { id: { in: paperIds } },
+                // Versioned IDs and URLs, and papers from other sources that list the arXiv ID
+                ...arxivIds.flatMap(id => [{ id: { contains: id } }, { externalIds: { contains: `"${id}` } }]),
+                { doi: { in: dois, mode: 'insensitive' } },
+                ...dois.map(doi => ({ externalIds: { contains: doi, mode: 'insensitive' } })),
+                { title: { in: titles, mode: 'insensitive' } },
+                // Authors are stored as a JSON list of full names
+                ...surnames.map(surname => ({ authors: { contains: ` ${surname}"`, mode: 'insensitive' } })),
+            ],
+        },
+        select: CANDIDATE_SELECT,
+    });
+    return groupDuplicates(rows, new Set(paperIds));
+}
+
+/**
+ * Folds `duplicateIds` into `keepId` (see mergePaperInto) and re-embeds the result.
+ * Detection is run again first: only papers found to be duplicates of `keepId` are
+ * merged.
+ */
+export async function mergeDuplicates(keepId: string, duplicateIds: string[]): Promise<void> {
+    const sources = duplicateIds.filter(id => id !== keepId);
+    if (sources.length === 0) throw new DuplicateError('Pick at least one duplicate to merge');
+    const groups = await findDuplicatesOf([keepId, ...sources]);
+    const group = groups.find(entry => entry.papers.some(paper => paper.id === keepId));
+    const notDuplicates = sources.filter(id => !group?.papers.some(paper => paper.id === id));
+    if (notDuplicates.length > 0) throw new DuplicateError(`Not duplicates of ${keepId}: ${notDuplicates.join(', ')}`);
+
+    for (const sourceId of sources) await mergePaperInto(sourceId, keepId);
+    await refreshEmbeddings([keepId]);
+}
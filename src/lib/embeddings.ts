@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { prisma } from './db';
+import { EmbeddingPurpose, getEmbedder, getEmbeddingConfig, isEmbeddingConfigured } from './llm';
+
+/**
+ * Paper embeddings for semantic search.
+ *
+ * A paper's title, abstract and AI summary are embedded together into one
+ * PaperEmbedding by the embedding model the LLM layer is configured with (a local
+ * model through the `local` provider keeps papers on the network). Vectors are
+ * searched in process: those of the configured model are kept in memory and topped up
+ * from the table as papers are embedded. Vectors from another model are ignored until
+ * the paper is embedded again.
+ */
+
+// Texts per embeddings request
+const EMBED_BATCH = 32;
+// Embedding models read a few thousand tokens at most; the title and abstract come first
+const MAX_EMBEDDED_CHARS = 8_000;
+
+interface EmbeddablePaper {
+    id: string;
+    title: string;
+    abstract: string | null;
+    summary: string | null;
+    embedding: { model: string; sourceHash: string } | null;
+}
+
+interface EmbeddingRow {
+    paperId: string;
+    vector: Uint8Array;
+    updatedAt: Date;
+}
+
+function embeddingText(paper: Pick<EmbeddablePaper, 'title' | 'abstract' | 'summary'>): string {
+    return [paper.title, paper.abstract, paper.summary].filter(Boolean).join('\n\n').slice(0, MAX_EMBEDDED_CHARS);
+}
+
+function hashText(text: string): string {
+    return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// Unit length, so cosine similarity is a dot product
+export function normalize(values: ArrayLike<number>): Float32Array {
+    let squares = 0;
+    for (let i = 0; i < values.length; i++) squares += values[i] * values[i];
+    const length = Math.sqrt(squares) || 1;
+    return Float32Array.from(values, value => value / length);
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+// Vectors are stored as raw Float32 bytes
+export function vectorToBytes(vector: Float32Array): Buffer {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function vectorFromBytes(bytes: Uint8Array): Float32Array {
+    // Copy: the bytes Prisma returns aren't necessarily aligned for Float32Array
+    return new Float32Array(Uint8Array.from(bytes).buffer);
+}
+
+async function embed(texts: string[], purpose: EmbeddingPurpose): Promise<Float32Array[]> {
+    const vectors = await getEmbedder().embed(texts, purpose);
+    return vectors.map(normalize);
+}
+
+/**
+ * Embeds the given papers, skipping those whose vector is current. Returns how many
+ * were embedded.
+ */
+export async function embedPapers(paperIds: string[]): Promise<number> {
+    const embedder = getEmbedder();
+    const papers: EmbeddablePaper[] = await prisma.paper.findMany({
+        where: { id: { in: paperIds } },
+        select: { id: true, title: true, abstract: true, summary: true, embedding: { select: { model: true, sourceHash: true } } },
+    });
+    const stale = papers
+        .map(paper => ({ paper, text: embeddingText(paper) }))
+        .map(entry => ({ ...entry, hash: hashText(entry.text) }))
+        .filter(({ paper, hash }) => paper.embedding?.model !== embedder.model || paper.embedding.sourceHash !== hash);
+
+    for (let start = 0; start < stale.length; start += EMBED_BATCH) {
+        const batch = stale.slice(start, start + EMBED_BATCH);
+        const vectors = await embed(batch.map(entry => entry.text), 'document');
+        for (const [index, { paper, hash }] of batch.entries()) {
+            const vector = vectors[index];
+            const data = {
+                provider: embedder.id,
+                model: embedder.model,
+                dimensions: vector.length,
+                vector: vectorToBytes(vector),
+                sourceHash: hash,
+            };
+            await prisma.paperEmbedding.upsert({ where: { paperId: paper.id }, update: data, create: { paperId: paper.id, ...data } });
+        }
+    }
+    return stale.length;
+}
+
+/**
+ * Re-embeds papers after their title, abstract or summary changed. Failures are
+ * logged and skipped: keyword search still finds the paper.
+ */
+export async function refreshEmbeddings(paperIds: string[]): Promise<void> {
+    if (!isEmbeddingConfigured()) return;
+    try {
+        await embedPapers(paperIds);
+    } catch (error) {
+        console.error(`Embedding ${paperIds.join(', ')} failed:`, error);
+    }
+}
+
+/**
+ * Embeds every paper in the catalog that has no current vector, a page at a time.
+ */
+export async function embedAllPapers(onProgress?: (embedded: number, checked: number) => void): Promise<number> {
+    const pageSize = 500;
+    let embedded = 0;
+    let checked = 0;
+    let cursor: string | undefined;
+    for (;;) {
+        const page: { id: string }[] = await prisma.paper.findMany({
+            select: { id: true },
+            orderBy: { id: 'asc' },
+            take: pageSize,
+            ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        if (page.length === 0) return embedded;
+        embedded += await embedPapers(page.map(paper => paper.id));
+        checked += page.length;
+        cursor = page[page.length - 1].id;
+        onProgress?.(embedded, checked);
+    }
+}
+
+interface VectorIndex {
+    model: string;
+    vectors: Map<string, Float32Array>;
+    loadedUpTo: Date | null;
+}
+
+let index: VectorIndex | null = null;
+
+// The in-memory vectors of the configured model, topped up with those embedded since the last load
+async function loadIndex(): Promise<VectorIndex> {
+    const { model } = getEmbeddingConfig();
+    if (index?.model !== model) index = { model, vectors: new Map(), loadedUpTo: null };
+    const current = index;
+
+    const rows: EmbeddingRow[] = await prisma.paperEmbedding.findMany({
+        // gte: rows written in the same millisecond as the last load may have been missed
+        where: { model, ...(current.loadedUpTo ? { updatedAt: { gte: current.loadedUpTo } } : {}) },
+        select: { paperId: true, vector: true, updatedAt: true },
+    });
+    for (const row of rows) {
+        current.vectors.set(row.paperId, vectorFromBytes(row.vector));
+        if (!current.loadedUpTo || row.updatedAt > current.loadedUpTo) current.loadedUpTo = row.updatedAt;
+    }
+    return current;
+}
+
+/**
+ * Drops deleted papers' vectors from this process's index. Other processes drop them
+ * the next time they list every vector (getVectors without IDs).
+ */
+export function forgetVectors(paperIds: string[]): void {
+    for (const paperId of paperIds) index?.vectors.delete(paperId);
+}
+
+/**
+ * Stored vectors of the configured model for the given papers, or for every paper;
+ * papers without one are left out.
+ */
+export async function getVectors(paperIds?: string[]): Promise<Map<string, Float32Array>> {
+    const { model, vectors } = await loadIndex();
+    if (!paperIds) {
+        // The index only grows, so it can still hold papers deleted since they were loaded
+        const stored: { paperId: string }[] = await prisma.paperEmbedding.findMany({ where: { model }, select: { paperId: true } });
+        const existing = new Set(stored.map(row => row.paperId));
+        forgetVectors(Array.from(vectors.keys()).filter(paperId => !existing.has(paperId)));
+        return new Map(vectors);
+    }
+    return new Map(paperIds.flatMap(paperId => {
+        const vector = vectors.get(paperId);
+        return vector ? [[paperId, vector] as const] : [];
+    }));
+}
+
+/**
+ * Papers closest in meaning to `query`, most similar first. Papers deleted since they
+ * were embedded can still appear; callers look the IDs up anyway.
+ */
+export async function nearestPapers(
+    query: string,
+    options: { limit: number; paperIds?: Set<string> }
+): Promise<{ paperId: string; similarity: number }[]> {
+    const [[target], { vectors }] = await Promise.all([embed([query], 'query'), loadIndex()]);
+    const scored: { paperId: string; similarity: number }[] = [];
+    for (const [paperId, vector] of vectors) {
+        if (options.paperIds && !options.paperIds.has(paperId)) continue;
+        // Vectors from a model with another size can't be compared
+        if (vector.length !== target.length) continue;
+        const similarity = dot(vector, target);
+        if (similarity > 0) scored.push({ paperId, similarity });
+    }
+    return scored.sort((a, b) => b.similarity - a.similarity).slice(0, options.limit);
+}
@@ -0,0 +1,80 @@
+/**
+ * Fields of a paper that users can correct by hand, and the locks that keep their
+ * corrections. Once a user edits a field it is locked: analyses and metadata refreshes
+ * no longer write it but leave their value as a suggestion, which a user can accept or
+ * reject. Locks and suggestions are stored on Paper as JSON strings.
+ *
+ * No server imports: client components use these types and labels.
+ */
+
+export type EditableField = 'title' | 'institution' | 'summary' | 'topics';
+
+export const EDITABLE_FIELD_LABELS: Record<EditableField, string> = {
+    title: 'Title',
+    institution: 'Institution',
+    summary: 'Summary',
+    topics: 'Topics',
+};
+
+export interface EditableValues {
+    title?: string;
+    institution?: string | null;
+    summary?: string | null;
+    topics?: string[];  // Topic names
+}
+
+export interface FieldLocks {
+    locked: EditableField[];
+    suggestions: EditableValues;
+}
+
+// Paper columns, as stored
+export interface FieldLockColumns {
+    lockedFields: string | null;
+    fieldSuggestions: string | null;
+}
+
+export function decodeFieldLocks(columns: FieldLockColumns): FieldLocks {
+    return {
+        locked: columns.lockedFields ? JSON.parse(columns.lockedFields) as EditableField[] : [],
+        suggestions: columns.fieldSuggestions ? JSON.parse(columns.fieldSuggestions) as EditableValues : {},
+    };
+}
+
+export function encodeFieldLocks(locks: FieldLocks): FieldLockColumns {
+    return {
+        lockedFields: locks.locked.length > 0 ? JSON.stringify(locks.locked) : null,
+        fieldSuggestions: Object.keys(locks.suggestions).length > 0 ? JSON.stringify(locks.suggestions) : null,
+    };
+}
+
+// Topics are only ever added by analyses, so a suggestion is news only if it adds one
+function isSameValue(field: EditableField, current: EditableValues, value: EditableValues[EditableField]): boolean {
+    if (field === 'topics') {
+        const names = new Set((current.topics ?? []).map(name => name.toLowerCase()));
+        return (value as string[]).every(name => names.has(name.toLowerCase()));
+    }
+    return (current[field] ?? null) === (value ?? null);
+}
+
+/**
+ * Splits values an automatic update wants to write into the ones it may write and
+ * suggestions for the locked fields. Suggestions equal to the current value are
+ * dropped; a new suggestion replaces an older one for the same field.
+ */
+export function applyFieldLocks(locks: FieldLocks, incoming: EditableValues, current: EditableValues): { writable: EditableValues; locks: FieldLocks } {
+    const writable: EditableValues = {};
+    const suggestions: EditableValues = { ...locks.suggestions };
+
+    for (const field of Object.keys(incoming) as EditableField[]) {
+        const value = incoming[field];
+        if (!locks.locked.includes(field)) {
+            Object.assign(writable, { [field]: value });
+        } else if (isSameValue(field, current, value)) {
+            delete suggestions[field];
+        } else {
+            Object.assign(suggestions, { [field]: value });
+        }
+    }
+    return { writable, locks: { locked: locks.locked, suggestions } };
+}
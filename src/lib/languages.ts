@@ -0,0 +1,24 @@
+/**
+ * Languages summaries can be read in. Analyses are written in English; the other
+ * languages are translations of them (see translations.ts).
+ *
+ * No server imports: client components use these for their language pickers.
+ */
+
+export const SOURCE_LANGUAGE = 'en';
+
+export const SUMMARY_LANGUAGES = {
+    en: { label: 'English', name: 'English' },
+    zh: { label: '简体中文', name: 'Simplified Chinese' },
+    ja: { label: '日本語', name: 'Japanese' },
+    ko: { label: '한국어', name: 'Korean' },
+    de: { label: 'Deutsch', name: 'German' },
+    fr: { label: 'Français', name: 'French' },
+    es: { label: 'Español', name: 'Spanish' },
+} as const;
+
+export type SummaryLanguage = keyof typeof SUMMARY_LANGUAGES;
+
+export function isSummaryLanguage(value: string): value is SummaryLanguage {
+    return Object.prototype.hasOwnProperty.call(SUMMARY_LANGUAGES, value);
+}
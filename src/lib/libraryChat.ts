@@ -0,0 +1,327 @@
+import { prisma } from './db';
+import { nearestPapers } from './embeddings';
+import { LlmError, isEmbeddingConfigured } from './llm';
+import { getChunks, rankChunks, tokenize } from './paperChunks';
+import { ChatCitation, ChatMessage, answerFromExcerpts, chunkLabel, excerptOf, replyTime } from './paperChat';
+
+/**
+ * "Ask my library": questions answered across many saved papers at once.
+ *
+ * A conversation has a scope, fixed when it starts: the user's library, everything
+ * the team has saved, the user's papers on one topic, or a given set of papers (a
+ * Library filter result or a hand-picked list). Each question ranks the chunks of the
+ * papers in scope together and keeps the best few per paper, so comparative questions
+ * see several papers; papers without extracted text take part through their abstract
+ * and summary. In larger scopes only the papers nearest the question by embedding (see
+ * embeddings.ts) and the passages containing its words are ranked. Answers cite papers
+ * and passages.
+ */
+
+export class LibraryChatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LibraryChatError';
+    }
+}
+
+export type LibraryChatScope =
+    | { kind: 'library' }
+    | { kind: 'team' }
+    | { kind: 'topic'; topicId: string; name?: string }
+    | { kind: 'papers'; paperIds: string[]; label: string };
+
+export interface LibraryChatCitation extends Omit<ChatCitation, 'chunkId'> {
+    paperId: string;
+    paperTitle: string;
+    chunkId: string | null;  // Null when the abstract and summary stood in for the text
+}
+
+export interface LibraryChatMessage extends Omit<ChatMessage, 'citations'> {
+    citations: LibraryChatCitation[];
+}
+
+export interface LibraryChatSummary {
+    id: string;
+    title: string;
+    scope: LibraryChatScope;
+    scopeLabel: string;
+    updatedAt: Date;
+}
+
+interface LibraryChatRow {
+    id: string;
+    userId: string;
+    title: string;
+    scope: string;
+    updatedAt: Date;
+}
+
+interface MessageRow {
+    id: string;
+    role: string;
+    content: string;
+    citations: string | null;
+    createdAt: Date;
+}
+
+interface Candidate {
+    paperId: string;
+    paperTitle: string;
+    chunkId: string | null;
+    heading: string;
+    pageStart: number | null;
+    pageEnd: number | null;
+    text: string;
+}
+
+// The most recently saved papers in a scope that take part, so huge team libraries
+// stay answerable
+const MAX_SCOPE_PAPERS = 300;
+// Excerpts per question, and how many of them may come from one paper
+const RETRIEVED_CHUNKS = 12;
+const CHUNKS_PER_PAPER = 2;
+// Scopes up to this size are ranked whole
+const RANKED_WHOLE = 20;
+// Otherwise these papers nearest the question are ranked whole, plus passages containing its words
+const NEAREST_PAPERS = 12;
+const KEYWORD_CHUNKS = 200;
+const MAX_QUERY_TERMS = 8;
+const HISTORY_MESSAGES = 6;
+
+function scopeLabel(scope: LibraryChatScope): string {
+    switch (scope.kind) {
+        case 'library':
+            return 'My library';
+        case 'team':
+            return 'Team library';
+        case 'topic':
+            return `Topic: ${scope.name ?? 'unknown'}`;
+        case 'papers':
+            return scope.label;
+    }
+}
+
+function toSummary(row: LibraryChatRow): LibraryChatSummary {
+    const scope = JSON.parse(row.scope) as LibraryChatScope;
+    return { id: row.id, title: row.title, scope, scopeLabel: scopeLabel(scope), updatedAt: row.updatedAt };
+}
+
+function toMessage(row: MessageRow): LibraryChatMessage {
+    return {
+        id: row.id,
+        role: row.role as LibraryChatMessage['role'],
+        content: row.content,
+        citations: row.citations ? JSON.parse(row.citations) as LibraryChatCitation[] : [],
+        createdAt: row.createdAt,
+    };
+}
+
+/**
+ * IDs of the papers a scope covers, most recently saved first.
+ */
+async function scopePaperIds(userId: string, scope: LibraryChatScope): Promise<string[]> {
+    const where = scope.kind === 'library' ? { userId }
+        : scope.kind === 'team' ? {}
+            : scope.kind === 'topic' ? { userId, paper: { topics: { some: { id: scope.topicId } } } }
+                // Only papers someone saved: the chat isn't a way into the wider catalog
+                : { paperId: { in: scope.paperIds } };
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({
+        where,
+        select: { paperId: true },
+        orderBy: { savedAt: 'desc' },
+    });
+    return Array.from(new Set(saved.map(entry => entry.paperId))).slice(0, MAX_SCOPE_PAPERS);
+}
+
+// Papers in scope closest in meaning to the question; none when embeddings aren't available
+async function nearestInScope(query: string, paperIds: string[]): Promise<string[]> {
+    if (!isEmbeddingConfigured()) return [];
+    try {
+        const nearest = await nearestPapers(query, { limit: NEAREST_PAPERS, paperIds: new Set(paperIds) });
+        return nearest.map(entry => entry.paperId);
+    } catch (error) {
+        if (!(error instanceof LlmError)) throw error;
+        console.error('Embedding the question failed, using keyword matches only:', error);
+        return [];
+    }
+}
+
+/**
+ * What of a large scope is worth ranking: papers to take whole (the nearest ones, and
+ * those without extracted text that mention the question's words) and single passages
+ * containing its words.
+ */
+async function narrowScope(query: string, paperIds: string[]): Promise<{ wholePaperIds: string[]; chunkIds: string[] }> {
+    const terms = Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_TERMS);
+    const containsTerm = (fields: string[]) => terms.flatMap(term => fields.map(field => ({ [field]: { contains: term, mode: 'insensitive' } })));
+    const [nearest, keywordPapers, keywordChunks]: [string[], { id: string }[], { id: string }[]] = await Promise.all([
+        nearestInScope(query, paperIds),
+        terms.length > 0
+            ? prisma.paper.findMany({
+                where: { id: { in: paperIds }, content: null, OR: containsTerm(['title', 'abstract', 'summary']) },
+                select: { id: true },
+                take: NEAREST_PAPERS,
+            })
+            : [],
+        terms.length > 0
+            ? prisma.paperChunk.findMany({ where: { paperId: { in: paperIds }, OR: containsTerm(['text']) }, select: { id: true }, take: KEYWORD_CHUNKS })
+            : [],
+    ]);
+    return {
+        wholePaperIds: Array.from(new Set([...nearest, ...keywordPapers.map(paper => paper.id)])),
+        chunkIds: keywordChunks.map(chunk => chunk.id),
+    };
+}
+
+async function candidates(query: string, scopeIds: string[]): Promise<Candidate[]> {
+    const { wholePaperIds, chunkIds } = scopeIds.length > RANKED_WHOLE
+        ? await narrowScope(query, scopeIds)
+        : { wholePaperIds: scopeIds, chunkIds: [] };
+
+    const papers: { id: string; title: string; abstract: string | null; summary: string | null; content: { paperId: string } | null; _count: { chunks: number } }[] =
+        await prisma.paper.findMany({
+            where: { id: { in: wholePaperIds } },
+            select: { id: true, title: true, abstract: true, summary: true, content: { select: { paperId: true } }, _count: { select: { chunks: true } } },
+        });
+
+    // Papers whose text was extracted before chunks were kept
+    for (const paper of papers.filter(candidate => candidate.content && candidate._count.chunks === 0)) {
+        await getChunks(paper.id);
+    }
+
+    const chunks: { id: string; paperId: string; heading: string; pageStart: number | null; pageEnd: number | null; text: string; paper: { title: string } }[] =
+        await prisma.paperChunk.findMany({
+            where: { OR: [{ paperId: { in: wholePaperIds } }, { id: { in: chunkIds } }] },
+            include: { paper: { select: { title: true } } },
+        });
+
+    return [
+        ...chunks.map(({ paper, ...chunk }) => ({ ...chunk, chunkId: chunk.id, paperTitle: paper.title })),
+        ...papers
+            .filter(paper => !paper.content && (paper.abstract || paper.summary))
+            .map(paper => ({
+                paperId: paper.id,
+                paperTitle: paper.title,
+                chunkId: null,
+                heading: 'Abstract and summary',
+                pageStart: null,
+                pageEnd: null,
+                text: [paper.abstract, paper.summary].filter(Boolean).join('\n\n'),
+            })),
+    ];
+}
+
+// Best-ranked passages, at most a few per paper so one paper can't crowd out the rest
+function pickExcerpts(query: string, pool: Candidate[]): Candidate[] {
+    // Paper titles count towards the match, so questions naming a paper find it
+    const ranked = rankChunks(query, pool.map(candidate => ({ heading: `${candidate.paperTitle}\n${candidate.heading}`, text: candidate.text, candidate })), pool.length);
+    const perPaper = new Map<string, number>();
+    const picked: Candidate[] = [];
+    for (const { candidate } of ranked) {
+        const count = perPaper.get(candidate.paperId) ?? 0;
+        if (count >= CHUNKS_PER_PAPER) continue;
+        perPaper.set(candidate.paperId, count + 1);
+        picked.push(candidate);
+        if (picked.length >= RETRIEVED_CHUNKS) break;
+    }
+    return picked;
+}
+
+export async function listLibraryChats(userId: string): Promise<LibraryChatSummary[]> {
+    const rows: LibraryChatRow[] = await prisma.libraryChat.findMany({ where: { userId }, orderBy: { updatedAt: 'desc' } });
+    return rows.map(toSummary);
+}
+
+async function ownChat(userId: string, chatId: string): Promise<LibraryChatRow> {
+    const chat: LibraryChatRow | null = await prisma.libraryChat.findUnique({ where: { id: chatId } });
+    if (!chat || chat.userId !== userId) throw new LibraryChatError('Conversation not found');
+    return chat;
+}
+
+export async function getLibraryChat(userId: string, chatId: string): Promise<{ chat: LibraryChatSummary; messages: LibraryChatMessage[] }> {
+    const chat = await ownChat(userId, chatId);
+    const rows: MessageRow[] = await prisma.libraryChatMessage.findMany({ where: { chatId }, orderBy: { createdAt: 'asc' } });
+    return { chat: toSummary(chat), messages: rows.map(toMessage) };
+}
+
+/**
+ * Answers a question in an existing conversation, or starts one over `scope`.
+ * Returns the conversation and the question and answer as stored.
+ */
+export async function askLibrary(
+    userId: string,
+    target: { chatId: string } | { scope: LibraryChatScope },
+    question: string
+): Promise<{ chat: LibraryChatSummary; messages: LibraryChatMessage[] }> {
+    const text = question.trim();
+    if (!text) throw new LibraryChatError('Ask a question first');
+    const askedAt = new Date();
+
+    let scope: LibraryChatScope;
+    let history: LibraryChatMessage[] = [];
+    if ('chatId' in target) {
+        const existing = await getLibraryChat(userId, target.chatId);
+        scope = existing.chat.scope;
+        history = existing.messages.slice(-HISTORY_MESSAGES);
+    } else {
+        scope = target.scope;
+        if (scope.kind === 'papers' && scope.paperIds.length === 0) throw new LibraryChatError('Pick some papers first');
+        if (scope.kind === 'topic') {
+            const topic: { name: string } | null = await prisma.topic.findUnique({ where: { id: scope.topicId } });
+            if (!topic) throw new LibraryChatError('Topic not found');
+            scope = { ...scope, name: topic.name };
+        }
+    }
+
+    const paperIds = await scopePaperIds(userId, scope);
+    if (paperIds.length === 0) throw new LibraryChatError('There are no saved papers in this scope');
+    // A follow-up is searched together with the question before it
+    const previousQuestion = [...history].reverse().find(message => message.role === 'user')?.content ?? '';
+    const query = `${text}\n${previousQuestion}`;
+    const pool = await candidates(query, paperIds);
+    if (pool.length === 0) throw new LibraryChatError('None of the papers in this scope have text, an abstract or a summary yet');
+
+    const excerpts = pickExcerpts(query, pool);
+
+    const { answer, cited, response } = await answerFromExcerpts({
+        subject: `a library of ${paperIds.length} research papers`,
+        instructions: 'Name the papers you draw on, and when comparing papers say which result comes from which.',
+        excerpts: excerpts.map(excerpt => ({ label: `"${excerpt.paperTitle}": ${chunkLabel(excerpt)}`, text: excerpt.text })),
+        history,
+        question: text,
+    });
+    const citations: LibraryChatCitation[] = cited.map(index => ({
+        ref: index + 1,
+        paperId: excerpts[index].paperId,
+        paperTitle: excerpts[index].paperTitle,
+        chunkId: excerpts[index].chunkId,
+        heading: excerpts[index].heading,
+        pageStart: excerpts[index].pageStart,
+        pageEnd: excerpts[index].pageEnd,
+        excerpt: excerptOf(excerpts[index].text),
+    }));
+
+    const chat: LibraryChatRow = 'chatId' in target
+        ? await prisma.libraryChat.update({ where: { id: target.chatId }, data: { updatedAt: new Date() } })
+        : await prisma.libraryChat.create({ data: { userId, title: text.slice(0, 200), scope: JSON.stringify(scope) } });
+    const asked: MessageRow = await prisma.libraryChatMessage.create({
+        data: { chatId: chat.id, role: 'user', content: text, createdAt: askedAt },
+    });
+    const answered: MessageRow = await prisma.libraryChatMessage.create({
+        data: {
+            chatId: chat.id,
+            role: 'assistant',
+            content: answer,
+            citations: JSON.stringify(citations),
+            provider: response.provider,
+            model: response.model,
+            createdAt: replyTime(askedAt),
+        },
+    });
+    return { chat: toSummary(chat), messages: [toMessage(asked), toMessage(answered)] };
+}
+
+export async function deleteLibraryChat(userId: string, chatId: string): Promise<void> {
+    await ownChat(userId, chatId);
+    await prisma.libraryChat.delete({ where: { id: chatId } });
+}
@@ -0,0 +1,97 @@
+import { GoogleGenerativeAI, Part, Schema, SchemaType, TaskType } from '@google/generative-ai';
+import { JsonSchema } from './schema';
+import { EmbeddingPurpose, LlmEmbedder, LlmError, LlmProvider, LlmRequest, LlmResponse } from './types';
+
+export const GEMINI_DEFAULT_MODEL = 'gemini-flash-latest';
+export const GEMINI_DEFAULT_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Gemini takes an OpenAPI-style schema; length constraints aren't supported and are left to validation
+function toGeminiSchema(schema: JsonSchema): Schema {
+    const common = { description: schema.description, nullable: schema.nullable };
+    switch (schema.type) {
+        case 'string':
+            return schema.enum
+                ? { ...common, type: SchemaType.STRING, format: 'enum', enum: schema.enum }
+                : { ...common, type: SchemaType.STRING };
+        case 'number':
+            return { ...common, type: SchemaType.NUMBER };
+        case 'integer':
+            return { ...common, type: SchemaType.INTEGER };
+        case 'boolean':
+            return { ...common, type: SchemaType.BOOLEAN };
+        case 'array':
+            return {
+                ...common,
+                type: SchemaType.ARRAY,
+                items: toGeminiSchema(schema.items ?? { type: 'string' }),
+                minItems: schema.minItems,
+                maxItems: schema.maxItems,
+            };
+        case 'object':
+            return {
+                ...common,
+                type: SchemaType.OBJECT,
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties ?? {}).map(([key, value]) => [key, toGeminiSchema(value)])
+                ),
+                required: schema.required,
+            };
+    }
+}
+
+export class GeminiProvider implements LlmProvider, LlmEmbedder {
+    readonly id = 'gemini' as const;
+    readonly model: string;
+    private client: GoogleGenerativeAI | null = null;
+
+    constructor(model: string = GEMINI_DEFAULT_MODEL, private apiKey: string | undefined = process.env.GEMINI_API_KEY) {
+        this.model = model;
+    }
+
+    private getClient(): GoogleGenerativeAI {
+        if (!this.apiKey) {
+            throw new LlmError('GEMINI_API_KEY not found in environment variables.', this.id);
+        }
+        this.client ??= new GoogleGenerativeAI(this.apiKey);
+        return this.client;
+    }
+
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+        const model = this.getClient().getGenerativeModel({
+            model: this.model,
+            systemInstruction: request.system,
+            generationConfig: {
+                temperature: request.temperature,
+                responseMimeType: request.json || request.schema ? 'application/json' : undefined,
+                responseSchema: request.schema ? toGeminiSchema(request.schema) : undefined,
+            },
+        });
+
+        // Gemini reads PDFs natively, so files go inline
+        const parts: Part[] = request.parts.map(part => part.type === 'text'
+            ? { text: part.text }
+            : { inlineData: { data: part.data.toString('base64'), mimeType: part.mimeType } });
+
+        try {
+            const result = await model.generateContent(parts);
+            return { text: result.response.text(), provider: this.id, model: this.model };
+        } catch (error) {
+            throw new LlmError(`Gemini request failed: ${(error as Error).message}`, this.id, (error as { status?: number }).status);
+        }
+    }
+
+    async embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]> {
+        const model = this.getClient().getGenerativeModel({ model: this.model });
+        try {
+            const result = await model.batchEmbedContents({
+                requests: texts.map(text => ({
+                    content: { role: 'user', parts: [{ text }] },
+                    taskType: purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT,
+                })),
+            });
+            return result.embeddings.map(embedding => embedding.values);
+        } catch (error) {
+            throw new LlmError(`Gemini embedding request failed: ${(error as Error).message}`, this.id, (error as { status?: number }).status);
+        }
+    }
+}
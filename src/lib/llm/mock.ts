@@ -0,0 +1,95 @@
+import crypto from 'crypto';
+import { LlmEmbedder, LlmProvider, LlmRequest, LlmResponse, LlmTask } from './types';
+
+type MockResponder = (prompt: string, request: LlmRequest) => string;
+
+// Prompts list their allowed options as "- Option" lines; the mock picks from those
+function listedOptions(prompt: string): string[] {
+    return Array.from(prompt.matchAll(/^\s*- (.+)$/gm), match => match[1].trim());
+}
+
+function fingerprint(request: LlmRequest): string {
+    const hash = crypto.createHash('sha256');
+    for (const part of request.parts) {
+        hash.update(part.type === 'text' ? part.text : part.data);
+    }
+    return hash.digest('hex').slice(0, 8);
+}
+
+const MOCK_RESPONDERS: Record<LlmTask, MockResponder> = {
+    analysis: (prompt, request) => JSON.stringify({
+        summary: `Mock summary ${fingerprint(request)}.`,
+        institution: 'Mock Institute',
+        topics: listedOptions(prompt).slice(0, 3),
+        problem: 'Mock problem.',
+        method: 'Mock method.',
+        datasets: ['Mock Dataset'],
+        metrics: [{ name: 'Accuracy', value: '0.9', dataset: 'Mock Dataset' }],
+        results: 'Mock results.',
+        baselines: ['Mock Baseline'],
+        limitations: null,
+        compute: null,
+        codeAvailable: null,
+        codeUrl: null,
+    }),
+    section_notes: (_prompt, request) => JSON.stringify({ notes: `Mock notes ${fingerprint(request)}.` }),
+    topics: prompt => JSON.stringify({ topics: listedOptions(prompt).slice(0, 3) }),
+    // Topic names are listed like options; anything else is a paper's analysis
+    translation: (prompt, request) => request.schema?.properties?.names
+        ? JSON.stringify({ names: listedOptions(prompt).map(name => ({ name, translation: `${name} (mock)` })) })
+        : JSON.stringify({
+            summary: `Mock translation ${fingerprint(request)}.`,
+            problem: null,
+            method: null,
+            results: null,
+            limitations: null,
+        }),
+    chat: (_prompt, request) => JSON.stringify({ answer: `Mock answer ${fingerprint(request)} [1].` }),
+    // Clusters are listed as "Cluster n:" followed by their papers
+    cluster_names: (prompt, request) => JSON.stringify({
+        clusters: Array.from(prompt.matchAll(/^\s*Cluster (\d+):/gm), match => ({
+            cluster: Number(match[1]),
+            name: `Mock cluster ${match[1]}`,
+            description: `Mock description ${fingerprint(request)}.`,
+        })),
+    }),
+};
+
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+// Hashed bag of words: texts sharing words get similar vectors, which is enough to try search out
+function mockEmbedding(text: string): number[] {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        vector[crypto.createHash('sha256').update(word).digest().readUInt32BE(0) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+    }
+    return vector;
+}
+
+/**
+ * Deterministic stand-in used in development and tests: the same request always gets
+ * the same reply, and no network or API key is involved.
+ */
+export class MockProvider implements LlmProvider {
+    readonly id = 'mock' as const;
+    readonly model = 'mock';
+    private respond: MockResponder;
+
+    constructor(task: LlmTask, respond?: MockResponder) {
+        this.respond = respond ?? MOCK_RESPONDERS[task];
+    }
+
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+        const prompt = request.parts.map(part => part.type === 'text' ? part.text : '').join('\n');
+        return { text: this.respond(prompt, request), provider: this.id, model: this.model };
+    }
+}
+
+export class MockEmbedder implements LlmEmbedder {
+    readonly id = 'mock' as const;
+    readonly model = 'mock';
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(mockEmbedding);
+    }
+}
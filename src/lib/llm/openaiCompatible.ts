@@ -0,0 +1,107 @@
+import axios, { AxiosError } from 'axios';
+import { toStandardJsonSchema } from './schema';
+import { LlmEmbedder, LlmError, LlmProvider, LlmProviderId, LlmRequest, LlmResponse } from './types';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+export const LOCAL_DEFAULT_MODEL = 'llama3.1';
+export const OPENAI_DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const LOCAL_DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000; // Local models on modest hardware can be slow
+
+interface ChatCompletionResponse {
+    choices: { message: { content: string | null } }[];
+}
+
+interface EmbeddingsResponse {
+    data: { index: number; embedding: number[] }[];
+}
+
+function responseFormat(request: LlmRequest) {
+    if (request.schema) {
+        return {
+            // Not strict: strict mode requires every property to be required, which our schemas don't promise
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'response', schema: toStandardJsonSchema(request.schema), strict: false },
+            },
+        };
+    }
+    return request.json ? { response_format: { type: 'json_object' } } : {};
+}
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API: OpenAI itself,
+ * or a self-hosted Ollama / vLLM / llama.cpp server for the `local` provider. Embeddings
+ * use the same servers' embeddings API.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider, LlmEmbedder {
+    readonly id: LlmProviderId;
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(options: { id: LlmProviderId; model: string; baseUrl: string; apiKey?: string }) {
+        this.id = options.id;
+        this.model = options.model;
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.apiKey = options.apiKey;
+    }
+
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+        const content = request.parts.map(part => part.type === 'text'
+            ? { type: 'text', text: part.text }
+            // OpenAI accepts PDFs as file parts; servers that don't will reject the request
+            : { type: 'file', file: { filename: 'paper.pdf', file_data: `data:${part.mimeType};base64,${part.data.toString('base64')}` } });
+
+        const messages = [
+            ...(request.system ? [{ role: 'system', content: request.system }] : []),
+            { role: 'user', content },
+        ];
+
+        try {
+            const response = await axios.post<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, {
+                model: this.model,
+                messages,
+                temperature: request.temperature,
+                ...responseFormat(request),
+            }, {
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+                timeout: REQUEST_TIMEOUT_MS,
+            });
+
+            return {
+                text: response.data.choices[0]?.message.content ?? '',
+                provider: this.id,
+                model: this.model,
+            };
+        } catch (error) {
+            const axiosError = error as AxiosError;
+            throw new LlmError(
+                `${this.id} request to ${this.baseUrl} failed: ${axiosError.message}`,
+                this.id,
+                axiosError.response?.status
+            );
+        }
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        try {
+            const response = await axios.post<EmbeddingsResponse>(`${this.baseUrl}/embeddings`, {
+                model: this.model,
+                input: texts,
+            }, {
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+                timeout: REQUEST_TIMEOUT_MS,
+            });
+            return [...response.data.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding);
+        } catch (error) {
+            const axiosError = error as AxiosError;
+            throw new LlmError(
+                `${this.id} embedding request to ${this.baseUrl} failed: ${axiosError.message}`,
+                this.id,
+                axiosError.response?.status
+            );
+        }
+    }
+}
@@ -0,0 +1,148 @@
+import { GEMINI_DEFAULT_EMBEDDING_MODEL, GEMINI_DEFAULT_MODEL, GeminiProvider } from './gemini';
+import {
+    LOCAL_DEFAULT_EMBEDDING_MODEL,
+    LOCAL_DEFAULT_MODEL,
+    OPENAI_DEFAULT_EMBEDDING_MODEL,
+    OPENAI_DEFAULT_MODEL,
+    OpenAiCompatibleProvider,
+} from './openaiCompatible';
+import { MockEmbedder, MockProvider } from './mock';
+import { LlmEmbedder, LlmProvider, LlmProviderId, LlmTask } from './types';
+
+/**
+ * Provider selection.
+ *
+ * LLM_PROVIDER / LLM_MODEL set the deployment default; LLM_<TASK>_PROVIDER and
+ * LLM_<TASK>_MODEL (e.g. LLM_ANALYSIS_PROVIDER=local) override it for one task.
+ * Papers that must not leave the network can be routed to the `local` provider, an
+ * OpenAI-compatible server at LOCAL_LLM_BASE_URL (Ollama by default).
+ *
+ * Embeddings are configured the same way with LLM_EMBEDDING_PROVIDER and
+ * LLM_EMBEDDING_MODEL, falling back to LLM_PROVIDER but never to LLM_MODEL: a chat
+ * model can't embed.
+ */
+
+const PROVIDER_IDS: LlmProviderId[] = ['gemini', 'openai', 'local', 'mock'];
+
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+    gemini: GEMINI_DEFAULT_MODEL,
+    openai: OPENAI_DEFAULT_MODEL,
+    local: LOCAL_DEFAULT_MODEL,
+    mock: 'mock',
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<LlmProviderId, string> = {
+    gemini: GEMINI_DEFAULT_EMBEDDING_MODEL,
+    openai: OPENAI_DEFAULT_EMBEDDING_MODEL,
+    local: LOCAL_DEFAULT_EMBEDDING_MODEL,
+    mock: 'mock',
+};
+
+function providerId(value: string, purpose: string): LlmProviderId {
+    if (!PROVIDER_IDS.includes(value as LlmProviderId)) {
+        throw new Error(`Unknown LLM provider "${value}" for ${purpose}. Expected one of ${PROVIDER_IDS.join(', ')}.`);
+    }
+    return value as LlmProviderId;
+}
+
+export interface LlmConfig {
+    provider: LlmProviderId;
+    model: string;
+}
+
+export function getLlmConfig(task: LlmTask): LlmConfig {
+    const prefix = `LLM_${task.toUpperCase()}_`;
+    const provider = providerId(process.env[`${prefix}PROVIDER`] || process.env.LLM_PROVIDER || 'gemini', `task ${task}`);
+
+    // A deployment-wide model only applies when the task uses the deployment-wide provider
+    const taskOverridesProvider = !!process.env[`${prefix}PROVIDER`];
+    const model = process.env[`${prefix}MODEL`]
+        || (!taskOverridesProvider && process.env.LLM_MODEL)
+        || DEFAULT_MODELS[provider];
+
+    return { provider, model };
+}
+
+export function getEmbeddingConfig(): LlmConfig {
+    const provider = providerId(process.env.LLM_EMBEDDING_PROVIDER || process.env.LLM_PROVIDER || 'gemini', 'embeddings');
+    return { provider, model: process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider] };
+}
+
+function hasCredentials(provider: LlmProviderId): boolean {
+    switch (provider) {
+        case 'gemini':
+            return !!process.env.GEMINI_API_KEY;
+        case 'openai':
+            return !!process.env.OPENAI_API_KEY;
+        case 'local':
+        case 'mock':
+            return true;
+    }
+}
+
+/**
+ * Whether the task's provider has the credentials it needs. Lets optional features
+ * (like topic suggestions) switch themselves off instead of failing.
+ */
+export function isLlmConfigured(task: LlmTask): boolean {
+    return hasCredentials(getLlmConfig(task).provider);
+}
+
+export function isEmbeddingConfigured(): boolean {
+    return hasCredentials(getEmbeddingConfig().provider);
+}
+
+// Gemini and the OpenAI-compatible servers both generate and embed
+function createRemoteProvider(provider: Exclude<LlmProviderId, 'mock'>, model: string): GeminiProvider | OpenAiCompatibleProvider {
+    switch (provider) {
+        case 'gemini':
+            return new GeminiProvider(model);
+        case 'openai':
+            return new OpenAiCompatibleProvider({
+                id: 'openai',
+                model,
+                baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+                apiKey: process.env.OPENAI_API_KEY,
+            });
+        case 'local':
+            return new OpenAiCompatibleProvider({
+                id: 'local',
+                model,
+                baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+                apiKey: process.env.LOCAL_LLM_API_KEY,
+            });
+    }
+}
+
+function createProvider(task: LlmTask, { provider, model }: LlmConfig): LlmProvider {
+    return provider === 'mock' ? new MockProvider(task) : createRemoteProvider(provider, model);
+}
+
+const providers = new Map<string, LlmProvider>();
+
+/**
+ * Returns the provider configured for a task.
+ */
+export function getLlm(task: LlmTask): LlmProvider {
+    const config = getLlmConfig(task);
+    const key = `${task}:${config.provider}:${config.model}`;
+    let provider = providers.get(key);
+    if (!provider) {
+        provider = createProvider(task, config);
+        providers.set(key, provider);
+    }
+    return provider;
+}
+
+let embedder: LlmEmbedder | null = null;
+
+/**
+ * Returns the configured embedding model.
+ */
+export function getEmbedder(): LlmEmbedder {
+    const { provider, model } = getEmbeddingConfig();
+    if (embedder?.id !== provider || embedder.model !== model) {
+        embedder = provider === 'mock' ? new MockEmbedder() : createRemoteProvider(provider, model);
+    }
+    return embedder;
+}
@@ -0,0 +1,113 @@
+/**
+ * The subset of JSON Schema that LLM calls declare their output with. It's the
+ * common ground of what Gemini's responseSchema and OpenAI's json_schema accept.
+ */
+export interface JsonSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+    description?: string;
+    nullable?: boolean;
+    enum?: string[];
+    minLength?: number;
+    minimum?: number;
+    maximum?: number;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+/**
+ * Validates a parsed value against a schema. Returns human-readable errors (with
+ * JSON paths) that can be fed back to the model; an empty list means valid.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [`${path}: expected ${schema.type}, got ${value === null ? 'null' : 'nothing'}`];
+    }
+
+    const actual = typeOf(value);
+    const matchesType = actual === schema.type || (schema.type === 'number' && actual === 'integer');
+    if (!matchesType) {
+        return [`${path}: expected ${schema.type}, got ${actual}`];
+    }
+
+    const errors: string[] = [];
+    switch (schema.type) {
+        case 'string': {
+            const text = value as string;
+            if (schema.enum && !schema.enum.includes(text)) {
+                errors.push(`${path}: "${text}" is not one of ${schema.enum.map(e => `"${e}"`).join(', ')}`);
+            }
+            if (schema.minLength !== undefined && text.trim().length < schema.minLength) {
+                errors.push(`${path}: must be at least ${schema.minLength} characters`);
+            }
+            break;
+        }
+        case 'number':
+        case 'integer': {
+            const number = value as number;
+            if (schema.minimum !== undefined && number < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+            if (schema.maximum !== undefined && number > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+            break;
+        }
+        case 'array': {
+            const items = value as unknown[];
+            if (schema.minItems !== undefined && items.length < schema.minItems) errors.push(`${path}: needs at least ${schema.minItems} items`);
+            if (schema.maxItems !== undefined && items.length > schema.maxItems) errors.push(`${path}: allows at most ${schema.maxItems} items`);
+            if (schema.items) {
+                items.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+            }
+            break;
+        }
+        case 'object': {
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required ?? []) {
+                if (!(key in record)) errors.push(`${path}.${key}: is required`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (key in record) errors.push(...validateJson(record[key], propertySchema, `${path}.${key}`));
+            }
+            break;
+        }
+    }
+    return errors;
+}
+
+/**
+ * Converts to standard JSON Schema, as OpenAI-compatible servers expect it.
+ */
+export function toStandardJsonSchema(schema: JsonSchema): Record<string, unknown> {
+    const { nullable, items, properties, ...rest } = schema;
+    return {
+        ...rest,
+        type: nullable ? [schema.type, 'null'] : schema.type,
+        ...(items ? { items: toStandardJsonSchema(items) } : {}),
+        ...(properties
+            ? { properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toStandardJsonSchema(value)])) }
+            : {}),
+    };
+}
+
+/**
+ * Pulls the JSON value out of a model reply, tolerating code fences and chatter
+ * around it. Throws a SyntaxError when there's no parseable JSON.
+ */
+export function parseJsonReply(text: string): unknown {
+    const unfenced = text.replace(/```(?:json)?/g, '').trim();
+    try {
+        return JSON.parse(unfenced);
+    } catch (error) {
+        const start = unfenced.search(/[[{]/);
+        const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+        if (start === -1 || end <= start) throw error;
+        return JSON.parse(unfenced.slice(start, end + 1));
+    }
+}
@@ -0,0 +1,116 @@
+import { getLlm } from './registry';
+import { JsonSchema, parseJsonReply, validateJson } from './schema';
+import { LlmRequest, LlmResponse, LlmTask } from './types';
+
+/**
+ * Thrown when the model keeps replying with output that doesn't match the schema,
+ * after every repair and retry pass.
+ */
+export class LlmOutputError extends Error {
+    rawOutput: string;
+    validationErrors: string[];
+
+    constructor(message: string, rawOutput: string, validationErrors: string[]) {
+        super(message);
+        this.name = 'LlmOutputError';
+        this.rawOutput = rawOutput;
+        this.validationErrors = validationErrors;
+    }
+}
+
+export type AnalysisStatus = 'ok' | 'invalid_output' | 'provider_error';
+
+/**
+ * Classifies a failed LLM call for Paper.analysisStatus.
+ */
+export function analysisStatusOf(error: unknown): Exclude<AnalysisStatus, 'ok'> {
+    return error instanceof LlmOutputError ? 'invalid_output' : 'provider_error';
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    response: LlmResponse;
+}
+
+function check(text: string, schema: JsonSchema): { value?: unknown; errors: string[] } {
+    let value: unknown;
+    try {
+        value = parseJsonReply(text);
+    } catch (error) {
+        return { errors: [`reply is not valid JSON (${(error as Error).message})`] };
+    }
+    return { value, errors: validateJson(value, schema) };
+}
+
+// Repairs resend only the text parts: the model fixes its own output and doesn't need the PDF again
+function repairRequest(request: LlmRequest, schema: JsonSchema, reply: string, errors: string[]): LlmRequest {
+    const instructions = request.parts.filter(part => part.type === 'text').map(part => part.text).join('\n\n');
+    return {
+        system: request.system,
+        schema,
+        temperature: 0,
+        parts: [{
+            type: 'text',
+            text: `The reply below was meant to follow these instructions but does not match the required JSON schema.
+
+Instructions:
+${instructions}
+
+JSON schema:
+${JSON.stringify(schema, null, 2)}
+
+Problems:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Reply:
+${reply}
+
+Return ONLY the corrected JSON.`,
+        }],
+    };
+}
+
+/**
+ * Calls the task's model and returns output that validates against `schema`.
+ *
+ * Uses the backend's structured-output mode, then validates. An invalid reply gets
+ * `repairs` repair passes (the model is shown its output and the errors); if that
+ * doesn't help the whole request is retried, up to `retries` times. Provider
+ * failures surface as LlmError straight away; exhausted attempts as LlmOutputError.
+ */
+export async function generateStructured<T>(
+    task: LlmTask,
+    request: LlmRequest,
+    schema: JsonSchema,
+    options: { repairs?: number; retries?: number } = {}
+): Promise<StructuredResult<T>> {
+    const { repairs = 1, retries = 1 } = options;
+    const llm = getLlm(task);
+
+    let lastReply = '';
+    let lastErrors: string[] = [];
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+        let response = await llm.generate({ ...request, schema });
+
+        for (let repair = 0; ; repair++) {
+            const { value, errors } = check(response.text, schema);
+            if (errors.length === 0) {
+                return { data: value as T, response };
+            }
+
+            lastReply = response.text;
+            lastErrors = errors;
+            console.warn(`${task}: invalid ${llm.id} output (attempt ${attempt + 1}, repair ${repair}): ${errors.join('; ')}`);
+            if (repair >= repairs) break;
+
+            response = await llm.generate(repairRequest(request, schema, response.text, errors));
+        }
+    }
+
+    throw new LlmOutputError(
+        `${llm.id} returned output that does not match the ${task} schema: ${lastErrors.join('; ')}`,
+        lastReply,
+        lastErrors
+    );
+}
@@ -0,0 +1,61 @@
+import type { JsonSchema } from './schema';
+
+/**
+ * Provider-neutral types for LLM calls. Features ask `getLlm(task)` for a provider
+ * and never talk to an SDK directly, so each task can run on a different backend.
+ */
+
+export type LlmProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+// Tasks that can be routed to their own provider/model via LLM_<TASK>_PROVIDER / LLM_<TASK>_MODEL
+export type LlmTask = 'analysis' | 'section_notes' | 'topics' | 'translation' | 'chat' | 'cluster_names';
+
+export type LlmPart =
+    | { type: 'text'; text: string }
+    | { type: 'file'; data: Buffer; mimeType: string };
+
+export interface LlmRequest {
+    system?: string;
+    parts: LlmPart[];
+    json?: boolean;       // Ask for a JSON reply where the backend supports it
+    schema?: JsonSchema;  // Constrain the reply to this schema (structured output) where supported; implies json
+    temperature?: number;
+}
+
+export interface LlmResponse {
+    text: string;
+    provider: LlmProviderId;
+    model: string;
+}
+
+export interface LlmProvider {
+    id: LlmProviderId;
+    model: string;
+    generate(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Documents are embedded for storage, queries for searching them; some models embed the two differently
+export type EmbeddingPurpose = 'document' | 'query';
+
+/**
+ * Turns texts into vectors for semantic search. Configured separately from the
+ * generation tasks (LLM_EMBEDDING_PROVIDER / LLM_EMBEDDING_MODEL), since vectors are
+ * only comparable when they come from the same model.
+ */
+export interface LlmEmbedder {
+    id: LlmProviderId;
+    model: string;
+    embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+}
+
+export class LlmError extends Error {
+    provider: LlmProviderId;
+    status?: number;
+
+    constructor(message: string, provider: LlmProviderId, status?: number) {
+        super(message);
+        this.name = 'LlmError';
+        this.provider = provider;
+        this.status = status;
+    }
+}
@@ -0,0 +1,313 @@
+import { parseStringPromise } from 'xml2js';
+import { prisma } from './db';
+import { ArxivPaper, XmlNode, textOf } from './arxiv';
+import { ArxivParams, fetchArxivXml } from './arxivClient';
+import { arxivAbsUrl, arxivPdfUrl, parseArxivId } from './arxivId';
+import { checkForNewVersions } from './versions';
+
+/**
+ * Bulk harvesting of arXiv categories into the shared catalog over OAI-PMH.
+ *
+ * Each category has a HarvestState row. A harvest asks for every record changed since
+ * the last complete one and follows resumption tokens page by page, saving the token
+ * after each page so a run that stops early (page limit, timeout, crash) picks up where
+ * it left off. Requests share the arXiv client's throttle.
+ */
+
+const OAI_URL = process.env.ARXIV_OAI_URL || 'https://oaipmh.arxiv.org/oai';
+
+// arXivRaw is the only format that lists every version, which version tracking relies on
+const METADATA_PREFIX = 'arXivRaw';
+
+export const DEFAULT_HARVEST_CATEGORIES = (process.env.HARVEST_CATEGORIES || 'cs.AI,cs.LG,cs.IR,cs.CL')
+    .split(',')
+    .map(c => c.trim())
+    .filter(Boolean);
+
+// Archives that OAI-PMH groups under the physics set
+const PHYSICS_ARCHIVES = new Set([
+    'astro-ph', 'cond-mat', 'gr-qc', 'hep-ex', 'hep-lat', 'hep-ph', 'hep-th',
+    'math-ph', 'nlin', 'nucl-ex', 'nucl-th', 'physics', 'quant-ph',
+]);
+
+export class OaiError extends Error {
+    code: string;
+
+    constructor(message: string, code: string) {
+        super(message);
+        this.name = 'OaiError';
+        this.code = code;
+    }
+}
+
+export interface HarvestResult {
+    category: string;
+    pages: number;
+    records: number;
+    complete: boolean; // false when the page limit stopped the run before the last page
+}
+
+interface OaiRecord {
+    header: { $?: { status?: string }; identifier: string[]; datestamp: string[] }[];
+    metadata?: { arXivRaw: ArxivRawMetadata[] }[];
+}
+
+interface ArxivRawMetadata {
+    id: string[];
+    version?: { $: { version: string }; date: string[] }[];
+    title?: XmlNode[];
+    authors?: XmlNode[];
+    categories?: XmlNode[];
+    comments?: XmlNode[];
+    'journal-ref'?: XmlNode[];
+    doi?: XmlNode[];
+    abstract?: XmlNode[];
+}
+
+interface ListRecordsPage {
+    papers: ArxivPaper[];
+    resumptionToken?: string;
+}
+
+/**
+ * Maps an arXiv category to its OAI-PMH set, e.g. cs.LG -> cs:cs:LG, hep-th -> physics:hep-th.
+ */
+export function categoryToSetSpec(category: string): string {
+    const [archive, subject] = category.split('.');
+    const group = PHYSICS_ARCHIVES.has(archive) ? 'physics' : archive;
+    return subject ? `${group}:${archive}:${subject}` : `${group}:${archive}`;
+}
+
+// arXivRaw gives authors as one string: "A. Author (Affiliation), B. Author and C. Author"
+function parseAuthors(raw: string | undefined): string[] {
+    if (!raw) return [];
+    return raw
+        .replace(/\([^)]*\)/g, '')
+        .split(/,\s*(?:and\s+)?|\s+and\s+/)
+        .map(name => name.trim())
+        .filter(Boolean);
+}
+
+function parseRecord(record: OaiRecord): ArxivPaper | null {
+    if (record.header[0].$?.status === 'deleted') return null;
+
+    const raw = record.metadata?.[0]?.arXivRaw[0];
+    const parsedId = raw && parseArxivId(raw.id[0]);
+    if (!raw || !parsedId) return null;
+
+    const versions = (raw.version ?? [])
+        .map(v => ({ version: Number(v.$.version.replace(/^v/, '')), date: new Date(v.date[0]) }))
+        .sort((a, b) => a.version - b.version);
+    const first = versions[0];
+    const latest = versions[versions.length - 1];
+    const categories = (textOf(raw.categories?.[0]) ?? '').split(' ').filter(Boolean);
+
+    return {
+        id: parsedId.base,
+        version: latest?.version,
+        title: textOf(raw.title?.[0]) ?? '',
+        summary: textOf(raw.abstract?.[0]) ?? '',
+        authors: parseAuthors(textOf(raw.authors?.[0])),
+        published: first?.date.toISOString() ?? '',
+        updated: latest?.date.toISOString(),
+        link: arxivAbsUrl(parsedId.base, latest?.version),
+        pdfLink: arxivPdfUrl(parsedId.base, latest?.version),
+        primaryCategory: categories[0],
+        categories,
+        comment: textOf(raw.comments?.[0]),
+        journalRef: textOf(raw['journal-ref']?.[0]),
+        doi: textOf(raw.doi?.[0]),
+    };
+}
+
+/**
+ * Parses one ListRecords response. "No records match" is an empty page, not an error.
+ */
+export async function parseListRecords(xml: string): Promise<ListRecordsPage> {
+    const result = await parseStringPromise(xml);
+    const root = result['OAI-PMH'];
+
+    const error = root.error?.[0];
+    if (error) {
+        const code = typeof error === 'string' ? 'unknown' : error.$?.code ?? 'unknown';
+        if (code === 'noRecordsMatch') return { papers: [] };
+        throw new OaiError(`OAI-PMH request failed (${code}): ${textOf(error) ?? ''}`, code);
+    }
+
+    const list = root.ListRecords?.[0] ?? {};
+    const records: OaiRecord[] = list.record ?? [];
+
+    return {
+        papers: records.map(parseRecord).filter((paper): paper is ArxivPaper => paper !== null),
+        // The last page carries an empty token element
+        resumptionToken: textOf(list.resumptionToken?.[0]),
+    };
+}
+
+function toPaperData(paper: ArxivPaper) {
+    return {
+        title: paper.title,
+        authors: JSON.stringify(paper.authors),
+        abstract: paper.summary,
+        url: paper.link,
+        filePath: paper.pdfLink,
+        publishedDate: paper.published ? new Date(paper.published) : null,
+        updatedDate: paper.updated ? new Date(paper.updated) : null,
+        arxivVersion: paper.version ?? null,
+        primaryCategory: paper.primaryCategory ?? null,
+        categories: JSON.stringify(paper.categories ?? []),
+        comment: paper.comment ?? null,
+        journalRef: paper.journalRef ?? null,
+        doi: paper.doi ?? null,
+    };
+}
+
+/**
+ * Writes harvested papers to the catalog. New papers are inserted and unsaved ones
+ * refreshed. Saved papers are left to the version check so their history and
+ * "new version" flags stay accurate.
+ */
+async function storeHarvestedPapers(papers: ArxivPaper[]): Promise<void> {
+    if (papers.length === 0) return;
+
+    const existing: { id: string; arxivVersion: number | null; _count: { savedBy: number } }[] = await prisma.paper.findMany({
+        where: { id: { in: papers.map(p => p.id) } },
+        select: { id: true, arxivVersion: true, _count: { select: { savedBy: true } } },
+    });
+    const existingById = new Map(existing.map(p => [p.id, p]));
+
+    // Someone may save a paper mid-harvest, so duplicates are skipped rather than fatal
+    await prisma.paper.createMany({
+        data: papers.filter(p => !existingById.has(p.id)).map(p => ({ id: p.id, ...toPaperData(p) })),
+        skipDuplicates: true,
+    });
+
+    const savedWithNewVersion: string[] = [];
+    for (const paper of papers) {
+        const current = existingById.get(paper.id);
+        if (!current) continue;
+
+        if (current._count.savedBy > 0) {
+            if ((paper.version ?? 0) > (current.arxivVersion ?? 1)) savedWithNewVersion.push(paper.id);
+            continue;
+        }
+        await prisma.paper.update({ where: { id: paper.id }, data: toPaperData(paper) });
+    }
+
+    if (savedWithNewVersion.length > 0) {
+        await checkForNewVersions(savedWithNewVersion);
+    }
+}
+
+function formatOaiDate(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Harvests one category, resuming an interrupted run if there is one.
+ *
+ * `from` overrides the date of the last complete harvest (pass it for a first harvest
+ * to avoid pulling the category's whole history). `maxPages` bounds the run; the
+ * saved resumption token continues it next time.
+ */
+export async function harvestCategory(
+    category: string,
+    options: { from?: Date; maxPages?: number } = {}
+): Promise<HarvestResult> {
+    const maxPages = options.maxPages ?? Infinity;
+    const state = await prisma.harvestState.upsert({
+        where: { category },
+        update: {},
+        create: { category },
+    });
+
+    let token: string | null = state.resumptionToken;
+    let runStartedAt: Date = token && state.runStartedAt ? state.runStartedAt : new Date();
+    const from: Date | null = options.from ?? state.lastHarvestDate;
+
+    const result: HarvestResult = { category, pages: 0, records: 0, complete: false };
+
+    try {
+        while (result.pages < maxPages) {
+            const params: ArxivParams = token
+                ? { verb: 'ListRecords', resumptionToken: token }
+                : {
+                    verb: 'ListRecords',
+                    metadataPrefix: METADATA_PREFIX,
+                    set: categoryToSetSpec(category),
+                    ...(from ? { from: formatOaiDate(from) } : {}),
+                };
+
+            let page: ListRecordsPage;
+            try {
+                page = await parseListRecords(await fetchArxivXml(params, OAI_URL));
+            } catch (error) {
+                if (token && error instanceof OaiError && error.code === 'badResumptionToken') {
+                    // Tokens expire after a while; start the run over from the last complete harvest
+                    console.warn(`Resumption token for ${category} expired, restarting harvest`);
+                    token = null;
+                    runStartedAt = new Date();
+                    continue;
+                }
+                throw error;
+            }
+
+            // Sets can be broader than the category (and records list secondary categories)
+            const papers = page.papers.filter(p => p.categories?.includes(category));
+            await storeHarvestedPapers(papers);
+
+            result.pages++;
+            result.records += papers.length;
+            token = page.resumptionToken ?? null;
+
+            await prisma.harvestState.update({
+                where: { category },
+                data: {
+                    resumptionToken: token,
+                    runStartedAt: token ? runStartedAt : null,
+                    // Only a finished run moves the window forward
+                    ...(token ? {} : { lastHarvestDate: runStartedAt }),
+                    lastRunAt: new Date(),
+                    lastError: null,
+                    recordsHarvested: { increment: papers.length },
+                },
+            });
+
+            if (!token) {
+                result.complete = true;
+                break;
+            }
+        }
+    } catch (error) {
+        await prisma.harvestState.update({
+            where: { category },
+            data: { lastRunAt: new Date(), lastError: (error as Error).message },
+        });
+        throw error;
+    }
+
+    return result;
+}
+
+/**
+ * Harvests several categories one after another. A failing category is logged and
+ * skipped so the others still sync.
+ */
+export async function harvestCategories(
+    categories: string[] = DEFAULT_HARVEST_CATEGORIES,
+    options: { from?: Date; maxPages?: number } = {}
+): Promise<{ results: HarvestResult[]; errors: Record<string, string> }> {
+    const results: HarvestResult[] = [];
+    const errors: Record<string, string> = {};
+
+    for (const category of categories) {
+        try {
+            results.push(await harvestCategory(category, options));
+        } catch (error) {
+            console.error(`Harvest failed for ${category}:`, error);
+            errors[category] = (error as Error).message;
+        }
+    }
+
+    return { results, errors };
+}
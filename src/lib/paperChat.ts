@@ -0,0 +1,193 @@
+import { prisma } from './db';
+import { JsonSchema, LlmResponse, generateStructured } from './llm';
+import { PaperChunk, getChunks, rankChunks } from './paperChunks';
+
+/**
+ * Questions about a single paper, answered from its extracted text.
+ *
+ * Each question retrieves the paper's best-matching chunks (see paperChunks.ts) and
+ * the model answers from those alone, citing them as [1], [2], ... The citations are
+ * stored with the answer as the section and pages they came from. Every user has one
+ * conversation per paper, kept until they clear it. The library chat (libraryChat.ts)
+ * answers the same way from excerpts of many papers.
+ */
+
+export class PaperChatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaperChatError';
+    }
+}
+
+export interface ChatCitation {
+    ref: number;  // The number the answer cites it by
+    chunkId: string;
+    heading: string;
+    pageStart: number | null;
+    pageEnd: number | null;
+    excerpt: string;
+}
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    citations: ChatCitation[];
+    createdAt: Date;
+}
+
+interface ChatMessageRow {
+    id: string;
+    role: string;
+    content: string;
+    citations: string | null;
+    createdAt: Date;
+}
+
+// Chunks given to the model per question, and earlier turns it sees
+const RETRIEVED_CHUNKS = 6;
+const HISTORY_MESSAGES = 6;
+const EXCERPT_CHARS = 300;
+
+function toMessage(row: ChatMessageRow): ChatMessage {
+    return {
+        id: row.id,
+        role: row.role as ChatMessage['role'],
+        content: row.content,
+        citations: row.citations ? JSON.parse(row.citations) as ChatCitation[] : [],
+        createdAt: row.createdAt,
+    };
+}
+
+// "Section (p. 4)" for prompts
+export function chunkLabel(chunk: Pick<PaperChunk, 'heading' | 'pageStart' | 'pageEnd'>): string {
+    if (chunk.pageStart === null) return chunk.heading;
+    const pages = chunk.pageEnd !== null && chunk.pageEnd !== chunk.pageStart ? `pp. ${chunk.pageStart}-${chunk.pageEnd}` : `p. ${chunk.pageStart}`;
+    return `${chunk.heading} (${pages})`;
+}
+
+export function excerptOf(text: string): string {
+    return text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS)}…` : text;
+}
+
+// Strictly after the question, so a conversation always loads in order
+export function replyTime(askedAt: Date): Date {
+    return new Date(Math.max(Date.now(), askedAt.getTime() + 1));
+}
+
+// The numbers cited in an answer, as "[2]" or "[1, 3]"
+function citedRefs(answer: string): number[] {
+    const refs = Array.from(answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))
+        .flatMap(match => match[1].split(',').map(ref => Number(ref.trim())));
+    return Array.from(new Set(refs));
+}
+
+export async function getPaperChat(userId: string, paperId: string): Promise<ChatMessage[]> {
+    const rows: ChatMessageRow[] = await prisma.paperChatMessage.findMany({
+        where: { userId, paperId },
+        orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toMessage);
+}
+
+const ANSWER_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        answer: { type: 'string', minLength: 1, description: 'Markdown answer citing excerpts as [n]' },
+    },
+    required: ['answer'],
+};
+
+// A retrieved passage as the model sees it: "[n] label", then the text
+export interface Excerpt {
+    label: string;
+    text: string;
+}
+
+/**
+ * Asks the chat model a question about `subject` that it must answer from the
+ * numbered excerpts, given the conversation so far. Returns the answer and the
+ * (zero-based) excerpts it cites.
+ */
+export async function answerFromExcerpts(input: {
+    subject: string;
+    instructions?: string;
+    excerpts: Excerpt[];
+    history: Pick<ChatMessage, 'role' | 'content'>[];
+    question: string;
+}): Promise<{ answer: string; cited: number[]; response: LlmResponse }> {
+    const { subject, instructions, excerpts, history, question } = input;
+    const prompt = `You answer questions about ${subject} using only the numbered excerpts below.
+        Cite the excerpts each statement relies on by number in square brackets, e.g. [2] or [1, 3]. If the excerpts don't
+        answer the question, say so instead of guessing. Answer in the language of the question.${instructions ? `\n        ${instructions}` : ''}
+
+        Excerpts:
+        ${excerpts.map((excerpt, i) => `[${i + 1}] ${excerpt.label}\n${excerpt.text}`).join('\n\n')}
+        ${history.length > 0 ? `\nConversation so far:\n${history.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n')}\n` : ''}
+        Question: ${question}`;
+
+    const { data, response } = await generateStructured<{ answer: string }>('chat', {
+        parts: [{ type: 'text', text: prompt }],
+    }, ANSWER_SCHEMA);
+
+    const cited = citedRefs(data.answer).filter(ref => ref >= 1 && ref <= excerpts.length).map(ref => ref - 1);
+    return { answer: data.answer, cited, response };
+}
+
+/**
+ * Answers a question about a paper and stores both in the user's conversation.
+ * Returns the question and the answer as stored.
+ */
+export async function askPaper(userId: string, paperId: string, question: string): Promise<ChatMessage[]> {
+    const text = question.trim();
+    if (!text) throw new PaperChatError('Ask a question first');
+
+    const paper: { title: string } | null = await prisma.paper.findUnique({ where: { id: paperId }, select: { title: true } });
+    if (!paper) throw new PaperChatError('Paper not found');
+    const chunks = await getChunks(paperId);
+    if (chunks.length === 0) {
+        throw new PaperChatError("This paper's text hasn't been extracted yet. Save it or regenerate its analysis first.");
+    }
+
+    const askedAt = new Date();
+    const history = (await getPaperChat(userId, paperId)).slice(-HISTORY_MESSAGES);
+    // Follow-ups like "and its limitations?" lean on the previous question for retrieval
+    const previousQuestion = [...history].reverse().find(message => message.role === 'user')?.content ?? '';
+    const excerpts = rankChunks(`${text}\n${previousQuestion}`, chunks, RETRIEVED_CHUNKS);
+
+    const { answer, cited, response } = await answerFromExcerpts({
+        subject: `the research paper "${paper.title}"`,
+        excerpts: excerpts.map(chunk => ({ label: chunkLabel(chunk), text: chunk.text })),
+        history,
+        question: text,
+    });
+    const citations: ChatCitation[] = cited.map(index => ({
+        ref: index + 1,
+        chunkId: excerpts[index].id,
+        heading: excerpts[index].heading,
+        pageStart: excerpts[index].pageStart,
+        pageEnd: excerpts[index].pageEnd,
+        excerpt: excerptOf(excerpts[index].text),
+    }));
+
+    const asked: ChatMessageRow = await prisma.paperChatMessage.create({
+        data: { userId, paperId, role: 'user', content: text, createdAt: askedAt },
+    });
+    const answered: ChatMessageRow = await prisma.paperChatMessage.create({
+        data: {
+            userId,
+            paperId,
+            role: 'assistant',
+            content: answer,
+            citations: JSON.stringify(citations),
+            provider: response.provider,
+            model: response.model,
+            createdAt: replyTime(askedAt),
+        },
+    });
+    return [toMessage(asked), toMessage(answered)];
+}
+
+export async function clearPaperChat(userId: string, paperId: string): Promise<void> {
+    await prisma.paperChatMessage.deleteMany({ where: { userId, paperId } });
+}
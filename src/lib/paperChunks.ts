@@ -0,0 +1,136 @@
+import { prisma } from './db';
+import { ExtractedPaper, PaperSection } from './pdfText';
+import { getPaperContent } from './paperContent';
+
+/**
+ * A paper's extracted text cut into passages for retrieval, in the PaperChunk table.
+ *
+ * Chunks stay inside one section and remember the pages they span, so answers built
+ * from them can point back to "3.2 Training, p. 5". They are dropped when the paper's
+ * text is extracted again and rebuilt on next use. Ranking is lexical (BM25):
+ * questions about a paper mostly reuse its own terms.
+ */
+
+export interface PaperChunk {
+    id: string;
+    position: number;
+    heading: string;
+    pageStart: number | null;
+    pageEnd: number | null;
+    text: string;
+}
+
+// Long enough to hold a paragraph or two with its context, short enough that a
+// handful fit in a prompt
+const CHUNK_CHARS = 1_200;
+
+function pageAt(section: PaperSection, offset: number): number | null {
+    if (section.page === undefined) return null;
+    return section.page + (section.pageBreaks ?? []).filter(pageBreak => pageBreak <= offset).length;
+}
+
+function chunkSection(section: PaperSection): Omit<PaperChunk, 'id' | 'position'>[] {
+    const chunks: Omit<PaperChunk, 'id' | 'position'>[] = [];
+    let start = 0;
+    let lines: string[] = [];
+
+    const flush = (end: number) => {
+        const text = lines.join('\n').trim();
+        if (text) chunks.push({ heading: section.heading, pageStart: pageAt(section, start), pageEnd: pageAt(section, Math.max(start, end - 1)), text });
+        lines = [];
+        start = end;
+    };
+
+    let offset = 0;
+    for (const line of section.text.split('\n')) {
+        if (lines.length > 0 && lines.join('\n').length + line.length > CHUNK_CHARS) flush(offset);
+        lines.push(line);
+        offset += line.length + 1;
+    }
+    flush(section.text.length);
+    return chunks;
+}
+
+/**
+ * Cuts extracted text into chunks, the abstract first.
+ */
+export function chunkPaper(paper: Pick<ExtractedPaper, 'abstract' | 'sections'>): Omit<PaperChunk, 'id' | 'position'>[] {
+    // The abstract is on the first page, as far as we know pages at all
+    const paged = paper.sections.some(section => section.page !== undefined);
+    const abstract: PaperSection[] = paper.abstract ? [{ heading: 'Abstract', level: 1, text: paper.abstract, page: paged ? 1 : undefined }] : [];
+    return [...abstract, ...paper.sections].flatMap(chunkSection);
+}
+
+export async function storeChunks(paperId: string, paper: Pick<ExtractedPaper, 'abstract' | 'sections'>): Promise<void> {
+    const chunks = chunkPaper(paper);
+    await prisma.$transaction([
+        prisma.paperChunk.deleteMany({ where: { paperId } }),
+        prisma.paperChunk.createMany({ data: chunks.map((chunk, position) => ({ paperId, position, ...chunk })) }),
+    ]);
+}
+
+/**
+ * The paper's chunks in document order. Papers whose text was extracted before chunks
+ * were kept are chunked now; papers without extracted text have none.
+ */
+export async function getChunks(paperId: string): Promise<PaperChunk[]> {
+    const chunks: PaperChunk[] = await prisma.paperChunk.findMany({ where: { paperId }, orderBy: { position: 'asc' } });
+    if (chunks.length > 0) return chunks;
+
+    const content = await getPaperContent(paperId);
+    if (!content) return [];
+    await storeChunks(paperId, content);
+    return prisma.paperChunk.findMany({ where: { paperId }, orderBy: { position: 'asc' } });
+}
+
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'were', 'this', 'that', 'with', 'what', 'which', 'how', 'why', 'does', 'did',
+    'from', 'their', 'they', 'its', 'into', 'about', 'paper', 'authors', 'use', 'used', 'can', 'you', 'has', 'have',
+    'not', 'but', 'than', 'then', 'there', 'these', 'those', 'also', 'our', 'any', 'all', 'is', 'in', 'of', 'to', 'on',
+]);
+
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+        // Plurals match their singular
+        .map(token => token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+/**
+ * BM25 relevance of each document to `query`; 0 for documents sharing no terms with it.
+ */
+export function bm25Scores(query: string, texts: string[]): number[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const documents = texts.map(tokenize);
+    const averageLength = documents.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(documents.length, 1);
+    const k1 = 1.2;
+    const b = 0.75;
+
+    const idf = new Map(terms.map(term => {
+        const containing = documents.filter(tokens => tokens.includes(term)).length;
+        return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+    }));
+
+    return documents.map(tokens => {
+        let score = 0;
+        for (const term of terms) {
+            const frequency = tokens.filter(token => token === term).length;
+            if (frequency === 0) continue;
+            score += idf.get(term)! * (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * tokens.length / averageLength));
+        }
+        return score;
+    });
+}
+
+/**
+ * The `limit` chunks that best match `query` (BM25 over heading and text), best first.
+ * When nothing matches, e.g. "summarize this", the start of the paper is returned.
+ */
+export function rankChunks<T extends Pick<PaperChunk, 'heading' | 'text'>>(query: string, chunks: T[], limit: number): T[] {
+    const scores = bm25Scores(query, chunks.map(chunk => `${chunk.heading}\n${chunk.text}`));
+    const matches = chunks
+        .map((chunk, index) => ({ chunk, score: scores[index] }))
+        .filter(entry => entry.score > 0)
+        .sort((x, y) => y.score - x.score);
+    return (matches.length > 0 ? matches.map(entry => entry.chunk) : chunks).slice(0, limit);
+}
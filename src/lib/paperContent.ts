@@ -0,0 +1,53 @@
+import { prisma } from './db';
+import { ExtractedPaper, PaperSection } from './pdfText';
+
+/**
+ * Per-paper storage of the text extracted from its PDF (see pdfText.ts).
+ */
+
+export interface StoredPaperContent extends ExtractedPaper {
+    version: number | null;
+    extractedAt: Date;
+}
+
+interface PaperContentRow {
+    version: number | null;
+    title: string | null;
+    abstract: string | null;
+    sections: string;
+    references: string | null;
+    pageCount: number;
+    charCount: number;
+    extractedAt: Date;
+}
+
+export async function savePaperContent(paperId: string, content: ExtractedPaper, version: number | null): Promise<void> {
+    const data = {
+        version,
+        title: content.title,
+        abstract: content.abstract,
+        sections: JSON.stringify(content.sections),
+        references: JSON.stringify(content.references),
+        pageCount: content.pageCount,
+        charCount: content.charCount,
+        extractedAt: new Date(),
+    };
+    await prisma.paperContent.upsert({
+        where: { paperId },
+        update: data,
+        create: { paperId, ...data },
+    });
+    // Cut from the old text; rebuilt on next use (see paperChunks.ts)
+    await prisma.paperChunk.deleteMany({ where: { paperId } });
+}
+
+export async function getPaperContent(paperId: string): Promise<StoredPaperContent | null> {
+    const row: PaperContentRow | null = await prisma.paperContent.findUnique({ where: { paperId } });
+    if (!row) return null;
+
+    return {
+        ...row,
+        sections: JSON.parse(row.sections) as PaperSection[],
+        references: row.references ? JSON.parse(row.references) as string[] : [],
+    };
+}
@@ -0,0 +1,138 @@
+import { prisma } from './db';
+import { EditableField, EditableValues, FieldLockColumns, applyFieldLocks, decodeFieldLocks, encodeFieldLocks } from './fieldLocks';
+import { resolveTopic, resolveTopicIds } from './taxonomy';
+
+/**
+ * Hand edits of a paper's title, institution, summary and topics (see fieldLocks.ts).
+ *
+ * Edits lock the field on the shared catalog row. Everything that writes those fields
+ * automatically goes through lockAwareUpdate, which turns writes to locked fields into
+ * suggestions for a user to review.
+ */
+
+export class FieldEditError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FieldEditError';
+    }
+}
+
+export interface LockablePaper extends FieldLockColumns {
+    id: string;
+    title: string;
+    institution: string | null;
+    summary: string | null;
+    topics?: { name: string }[];
+}
+
+function currentValues(paper: LockablePaper): EditableValues {
+    return {
+        title: paper.title,
+        institution: paper.institution,
+        summary: paper.summary,
+        topics: paper.topics?.map(topic => topic.name) ?? [],
+    };
+}
+
+/**
+ * Update data for values from an analysis or a metadata refresh: unlocked fields are
+ * written (topics are added to the paper's), locked ones are kept as suggestions.
+ * `paper.topics` is only needed when topics are among the values.
+ */
+export async function lockAwareUpdate(paper: LockablePaper, incoming: EditableValues) {
+    const { writable, locks } = applyFieldLocks(decodeFieldLocks(paper), incoming, currentValues(paper));
+    const { topics, ...scalars } = writable;
+    return {
+        ...scalars,
+        ...encodeFieldLocks(locks),
+        ...(topics ? { topics: { connect: (await resolveTopicIds(topics)).map(id => ({ id })) } } : {}),
+    };
+}
+
+async function loadPaper(paperId: string): Promise<LockablePaper> {
+    const paper: LockablePaper | null = await prisma.paper.findUnique({ where: { id: paperId }, include: { topics: true } });
+    if (!paper) throw new FieldEditError('Paper not found');
+    return paper;
+}
+
+/**
+ * Writes a user's corrections and locks the edited fields. Topics replace the paper's
+ * topics and must be in the taxonomy.
+ */
+export async function editPaperFields(paperId: string, edits: EditableValues): Promise<void> {
+    const paper = await loadPaper(paperId);
+    const { topics, ...scalars } = edits;
+    if (scalars.title !== undefined && !scalars.title.trim()) throw new FieldEditError('The title cannot be empty');
+
+    let topicIds: string[] | undefined;
+    if (topics) {
+        topicIds = [];
+        for (const name of topics) {
+            const topic = await resolveTopic(name);
+            if (!topic || topic.archived) throw new FieldEditError(`"${name}" is not an active topic. Add it on the Topics page first.`);
+            topicIds.push(topic.id);
+        }
+    }
+
+    const locks = decodeFieldLocks(paper);
+    const edited = Object.keys(edits) as EditableField[];
+    edited.forEach(field => delete locks.suggestions[field]);
+    const locked = Array.from(new Set([...locks.locked, ...edited]));
+
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: {
+            ...Object.fromEntries(Object.entries(scalars).map(([field, value]) => [field, typeof value === 'string' ? value.trim() || null : value])),
+            ...encodeFieldLocks({ locked, suggestions: locks.suggestions }),
+            ...(topicIds ? { topics: { set: topicIds.map(id => ({ id })) } } : {}),
+        },
+    });
+}
+
+/**
+ * Accepts (writes) or rejects (drops) the pending suggestion for a locked field. The
+ * field stays locked either way.
+ */
+export async function reviewSuggestion(paperId: string, field: EditableField, accept: boolean): Promise<void> {
+    const paper = await loadPaper(paperId);
+    const locks = decodeFieldLocks(paper);
+    const value = locks.suggestions[field];
+    if (value === undefined) throw new FieldEditError('There is no suggestion for this field');
+    delete locks.suggestions[field];
+
+    let data: Record<string, unknown> = {};
+    if (accept && field === 'topics') {
+        data = { topics: { connect: (await resolveTopicIds(value as string[])).map(id => ({ id })) } };
+    } else if (accept) {
+        data = { [field]: value };
+    }
+    await prisma.paper.update({ where: { id: paperId }, data: { ...data, ...encodeFieldLocks(locks) } });
+}
+
+/**
+ * Hands a field back to the analyses: the next one writes it again.
+ */
+export async function unlockField(paperId: string, field: EditableField): Promise<void> {
+    const paper = await loadPaper(paperId);
+    const locks = decodeFieldLocks(paper);
+    delete locks.suggestions[field];
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: encodeFieldLocks({ locked: locks.locked.filter(name => name !== field), suggestions: locks.suggestions }),
+    });
+}
+
+/**
+ * Locks a field without changing it, for edits made elsewhere (adding or removing a
+ * topic on its own).
+ */
+export async function lockField(paperId: string, field: EditableField): Promise<void> {
+    const paper = await loadPaper(paperId);
+    const locks = decodeFieldLocks(paper);
+    if (locks.locked.includes(field)) return;
+    delete locks.suggestions[field];
+    await prisma.paper.update({
+        where: { id: paperId },
+        data: encodeFieldLocks({ locked: [...locks.locked, field], suggestions: locks.suggestions }),
+    });
+}
@@ -0,0 +1,306 @@
+import { extractText, getDocumentProxy } from 'unpdf';
+
+/**
+ * Local text extraction for paper PDFs.
+ *
+ * Pulls the text layer out with unpdf (PDF.js) and splits it into title, abstract,
+ * numbered body sections and reference entries using the layout conventions of
+ * typical papers. Nothing leaves the machine, so the LLM only ever sees text.
+ */
+
+export interface PaperSection {
+    heading: string;
+    level: number;  // 1 for "3 Method", 2 for "3.1 Setup", ...
+    text: string;
+    page?: number;          // Page the section starts on; missing for text extracted before pages were tracked
+    pageBreaks?: number[];  // Offsets in `text` where the following pages start
+}
+
+export interface ExtractedPaper {
+    title: string | null;
+    abstract: string | null;
+    sections: PaperSection[];  // Body sections in document order; abstract and references are split out
+    references: string[];
+    pageCount: number;
+    charCount: number;
+}
+
+export class PdfExtractionError extends Error {
+    // 'unreadable': not a PDF / corrupt / encrypted; 'no_text': no text layer (e.g. a scan)
+    reason: 'unreadable' | 'no_text';
+
+    constructor(message: string, reason: 'unreadable' | 'no_text') {
+        super(message);
+        this.name = 'PdfExtractionError';
+        this.reason = reason;
+    }
+}
+
+// Fewer characters per page than this means there's no usable text layer
+const MIN_CHARS_PER_PAGE = 200;
+
+// Put on a line of its own between pages so sections know which pages they span
+const PAGE_BREAK = '\uE000';
+
+const NAMED_HEADING = /^(?:abstract|introduction|related work|background|preliminaries|method(?:s|ology)?|experiments?|results|evaluation|discussion|limitations|conclusions?(?: and future work)?|future work|acknowledge?ments?|references|bibliography|appendix(?:\s+[A-Z])?|supplementary material)$/i;
+// "3 Method", "3.1. Setup", "IV. RESULTS", "A Proofs" (appendix letters)
+const NUMBERED_HEADING = /^((?:\d{1,2}(?:\.\d{1,2}){0,2})|[IVX]{1,5}|[A-H](?:\.\d{1,2})?)\.?\s+([A-Z][^\n]{1,80})$/;
+const REFERENCES_HEADING = /^(?:\d{1,2}\.?\s+)?(?:references|bibliography)$/i;
+const ABSTRACT_START = /^abstract\b[\s.:—–-]*/i;
+
+function cleanText(text: string): string {
+    return text
+        .replace(/\r/g, '')
+        .replace(/\u00ad/g, '')
+        // Re-join words hyphenated across lines
+        .replace(/([a-z])-\n([a-z])/g, '$1$2')
+        // Drop lone page numbers and the sideways arXiv stamp
+        .replace(/^\s*\d{1,3}\s*$/gm, '')
+        .replace(/^arXiv:\d{4}\.\d{4,5}(?:v\d+)?\s.*$/gm, '')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\n{3,}/g, '\n\n');
+}
+
+interface Heading {
+    heading: string;
+    level: number;
+    // Section number as integers ("3.1" -> [3, 1], "IV" -> [4], "B" -> [2]); empty for named headings
+    number: number[];
+    appendix: boolean;
+}
+
+function romanValue(numeral: string): number {
+    const values: Record<string, number> = { I: 1, V: 5, X: 10 };
+    let total = 0;
+    for (let i = 0; i < numeral.length; i++) {
+        const value = values[numeral[i]];
+        total += value < (values[numeral[i + 1]] ?? 0) ? -value : value;
+    }
+    return total;
+}
+
+function parseHeading(line: string): Heading | null {
+    const trimmed = line.trim();
+    if (trimmed.length < 3 || trimmed.length > 90 || /[.,;:]$/.test(trimmed)) return null;
+
+    if (NAMED_HEADING.test(trimmed)) {
+        return { heading: trimmed, level: 1, number: [], appendix: /^appendix/i.test(trimmed) };
+    }
+
+    const match = NUMBERED_HEADING.exec(trimmed);
+    if (!match) return null;
+    const [, label, title] = match;
+    // Headings are short; sentences that happen to start with a number are not
+    if (title.split(/\s+/).length > 10 || /\d{3,}/.test(title)) return null;
+
+    if (/^\d/.test(label)) {
+        const number = label.split('.').map(Number);
+        return { heading: trimmed, level: number.length, number, appendix: false };
+    }
+    if (/^[IVX]+$/.test(label) && label !== 'I' || label === 'I' && title === title.toUpperCase()) {
+        return { heading: trimmed, level: 1, number: [romanValue(label)], appendix: false };
+    }
+    const [letter, sub] = label.split('.');
+    const number = [letter.charCodeAt(0) - 64, ...(sub ? [Number(sub)] : [])];
+    return { heading: trimmed, level: number.length, number, appendix: true };
+}
+
+/**
+ * Numbered lines only count as headings when they continue the numbering so far:
+ * "4" after "3", or "3.2" inside section 3. Table rows and list items that happen to
+ * start with a number don't.
+ */
+function continuesNumbering(heading: Heading, previous: number[]): boolean {
+    if (heading.number.length === 0) return true;
+    const [top, ...rest] = heading.number;
+    if (rest.length === 0) return top === (previous[0] ?? 0) + 1 || (previous.length === 0 && top <= 1);
+    return top === previous[0];
+}
+
+/**
+ * Splits a reference list into entries, using "[n]" or "n." markers when the list
+ * is numbered and author-year line breaks otherwise.
+ */
+export function splitReferences(text: string): string[] {
+    const joined = text.trim();
+    if (!joined) return [];
+
+    let entries: string[];
+    if (/^\[\d+\]/m.test(joined)) {
+        entries = joined.split(/\n(?=\[\d+\]\s)/);
+    } else if (/^\d{1,3}\.\s+[A-Z]/m.test(joined)) {
+        entries = joined.split(/\n(?=\d{1,3}\.\s+[A-Z])/);
+    } else {
+        // Unnumbered: an entry ends with a line ending in a period after which a new author list starts
+        entries = joined.split(/(?<=\.)\n(?=[A-Z][A-Za-z'’-]+,?\s+(?:[A-Z]\.|[A-Z][a-z]+))/);
+    }
+    return entries.map(entry => entry.replace(/\s*\n\s*/g, ' ').trim()).filter(entry => entry.length > 10);
+}
+
+// A section's lines as trimmed text, with the lines that start a new page as offsets into it
+function joinLines(lines: string[], breaks: number[]): { text: string; pageBreaks: number[] } {
+    const joined = lines.join('\n');
+    const leading = joined.length - joined.trimStart().length;
+    const text = joined.trim();
+    const pageBreaks = breaks
+        .map(index => lines.slice(0, index).join('\n').length + (index > 0 ? 1 : 0) - leading)
+        .map(offset => Math.min(Math.max(offset, 0), text.length));
+    return { text, pageBreaks };
+}
+
+/**
+ * Splits cleaned paper text into title, abstract, sections and references.
+ */
+export function splitPaperText(text: string): Omit<ExtractedPaper, 'pageCount' | 'charCount'> {
+    const lines = cleanText(text).split('\n');
+
+    let title: string | null = null;
+    let abstract: string | null = null;
+    const sections: PaperSection[] = [];
+    const referenceLines: string[] = [];
+
+    let page = 1;
+    let current: { heading: string; level: number; lines: string[]; page: number; breaks: number[] } | null = null;
+    let inAbstract = false;
+    let inReferences = false;
+    let inAppendix = false;
+    let numbering: number[] = [];
+    const frontMatter: string[] = [];
+    const frontMatterBreaks: number[] = [];
+
+    // Appendices restart the numbering with letters
+    const acceptHeading = (heading: Heading | null): heading is Heading => {
+        if (!heading || /^abstract$/i.test(heading.heading)) return false;
+        if (heading.appendix && heading.number.length > 0 && !inAppendix) {
+            if (!inReferences && heading.number[0] !== 1) return false;
+            inAppendix = true;
+            numbering = [];
+        }
+        if (!continuesNumbering(heading, numbering)) return false;
+        if (heading.number.length > 0) numbering = heading.number;
+        if (heading.appendix) inAppendix = true;
+        return true;
+    };
+
+    const closeSection = () => {
+        if (inAbstract && current) {
+            abstract = current.lines.join('\n').trim() || null;
+        } else if (current) {
+            sections.push({ heading: current.heading, level: current.level, page: current.page, ...joinLines(current.lines, current.breaks) });
+        }
+        current = null;
+        inAbstract = false;
+    };
+
+    for (const line of lines) {
+        if (line.trim() === PAGE_BREAK) {
+            page++;
+            if (current && !inReferences) current.breaks.push(current.lines.length);
+            else if (!current && !inReferences) frontMatterBreaks.push(frontMatter.length);
+            continue;
+        }
+
+        if (inReferences) {
+            // Appendices after the bibliography are still part of the paper
+            const heading = parseHeading(line);
+            if (heading?.appendix && acceptHeading(heading)) {
+                inReferences = false;
+                current = { heading: heading.heading, level: heading.level, lines: [], page, breaks: [] };
+            } else {
+                referenceLines.push(line);
+            }
+            continue;
+        }
+
+        if (!current && !inAbstract && ABSTRACT_START.test(line.trim())) {
+            // "Abstract" on its own line, or "Abstract—We propose ..."
+            inAbstract = true;
+            current = { heading: 'Abstract', level: 1, lines: [line.trim().replace(ABSTRACT_START, '')], page, breaks: [] };
+            continue;
+        }
+
+        if (REFERENCES_HEADING.test(line.trim())) {
+            closeSection();
+            inReferences = true;
+            continue;
+        }
+
+        const heading = parseHeading(line);
+        if (acceptHeading(heading)) {
+            closeSection();
+            current = { heading: heading.heading, level: heading.level, lines: [], page, breaks: [] };
+            continue;
+        }
+
+        if (current) current.lines.push(line);
+        else frontMatter.push(line);
+    }
+    closeSection();
+
+    title = frontMatter.map(line => line.trim()).find(line => line.length > 10) ?? null;
+
+    // No recognizable headings: keep the body as a single section rather than losing it
+    if (sections.length === 0) {
+        const body = joinLines(frontMatter, frontMatterBreaks);
+        if (body.text) sections.push({ heading: 'Body', level: 1, page: 1, ...body });
+    }
+
+    return {
+        title,
+        abstract,
+        sections: sections.filter(section => section.text.length > 0),
+        references: splitReferences(referenceLines.join('\n')),
+    };
+}
+
+/**
+ * Extracts the text layer of a PDF and splits it into its parts.
+ * Throws PdfExtractionError when the file can't be read or has no text to extract.
+ */
+export async function extractPdfText(buffer: Buffer | Uint8Array): Promise<ExtractedPaper> {
+    let pages: string[];
+    let pageCount: number;
+    try {
+        // PDF.js may transfer (detach) the array it is given; callers keep using their buffer
+        const pdf = await getDocumentProxy(new Uint8Array(buffer));
+        const result = await extractText(pdf, { mergePages: false });
+        pages = result.text;
+        pageCount = result.totalPages;
+    } catch (error) {
+        throw new PdfExtractionError(`Could not read PDF: ${(error as Error).message}`, 'unreadable');
+    }
+
+    const charCount = pages.join('').replace(/\s+/g, '').length;
+    if (charCount < MIN_CHARS_PER_PAGE * Math.min(pageCount, 3)) {
+        throw new PdfExtractionError('PDF has no text layer (scanned?)', 'no_text');
+    }
+
+    return { ...splitPaperText(pages.join(`\n${PAGE_BREAK}\n`)), pageCount, charCount };
+}
+
+/**
+ * The paper as plain text, with headings, for prompts.
+ */
+export function paperToText(paper: Pick<ExtractedPaper, 'title' | 'abstract' | 'sections'>): string {
+    return [
+        paper.title && `Title: ${paper.title}`,
+        paper.abstract && `Abstract\n${paper.abstract}`,
+        ...paper.sections.map(section => `${section.heading}\n${section.text}`),
+    ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * A compact view of the paper for prompts that don't need all of it: title,
+ * abstract, the section outline, then the introduction and conclusion, cut to
+ * `maxChars`.
+ */
+export function paperDigest(paper: Pick<ExtractedPaper, 'title' | 'abstract' | 'sections'>, maxChars = 12_000): string {
+    const keySections = paper.sections.filter(section => /introduction|conclusion/i.test(section.heading));
+    const digest = [
+        paper.title && `Title: ${paper.title}`,
+        paper.abstract && `Abstract\n${paper.abstract}`,
+        paper.sections.length > 0 && `Sections:\n${paper.sections.map(section => `${'  '.repeat(section.level - 1)}${section.heading}`).join('\n')}`,
+        ...keySections.map(section => `${section.heading}\n${section.text}`),
+    ].filter(Boolean).join('\n\n');
+    return digest.slice(0, maxChars);
+}
@@ -0,0 +1,195 @@
+import { prisma } from './db';
+
+/**
+ * Prompt templates: named instructions for how the summary of an analysis is written
+ * ("TL;DR", "ELI5", "what does this mean for ads ranking"). The rest of the analysis
+ * (institution, topics, structured fields) is the same whatever the template.
+ *
+ * Built-in templates live here; users add their own in the PromptTemplate table, for
+ * themselves or shared with the team. Bodies can use {{title}}, {{abstract}} and
+ * {{taxonomy}}, filled in per paper.
+ */
+
+export const DEFAULT_TEMPLATE_ID = 'builtin:standard';
+export const TEMPLATE_VARIABLES = ['title', 'abstract', 'taxonomy'] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+export class PromptTemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PromptTemplateError';
+    }
+}
+
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    description: string | null;
+    body: string;
+    version: number;
+    shared: boolean;
+    builtIn: boolean;
+    owner: string | null;  // Name of the user who made it
+    editable: boolean;     // By the user asking
+}
+
+const BUILT_IN: Omit<PromptTemplate, 'version' | 'shared' | 'builtIn' | 'owner' | 'editable'>[] = [
+    {
+        id: DEFAULT_TEMPLATE_ID,
+        name: 'Standard',
+        description: 'Main contributions, methodology and key results',
+        body: 'A concise summary focusing on main contributions, methodology, and key results.',
+    },
+    {
+        id: 'builtin:tldr',
+        name: 'TL;DR',
+        description: 'Two or three sentences',
+        body: 'A TL;DR of at most three sentences: what the paper does and why it matters.',
+    },
+    {
+        id: 'builtin:methods',
+        name: 'Detailed methods review',
+        description: 'Model, training setup and evaluation in depth',
+        body: 'A detailed review of the methods in Markdown: the model or algorithm, the training setup, the experimental design, '
+            + 'and how well the evaluation supports the claims. Use headings and bullet points.',
+    },
+    {
+        id: 'builtin:eli5',
+        name: 'ELI5',
+        description: 'Plain language, no jargon',
+        body: 'An explanation a curious twelve-year-old could follow: plain language, no jargon, '
+            + 'and an everyday analogy for the main idea of "{{title}}".',
+    },
+    {
+        id: 'builtin:relevance',
+        name: 'Relevance to our topics',
+        description: 'Which of our research topics it bears on, and how',
+        body: 'A short summary of the paper followed by which of our research topics ({{taxonomy}}) it is most relevant to, '
+            + 'and what we could take from it for each.',
+    },
+];
+
+function builtIn(template: typeof BUILT_IN[number]): PromptTemplate {
+    return { ...template, version: 1, shared: true, builtIn: true, owner: null, editable: false };
+}
+
+interface TemplateRow {
+    id: string;
+    name: string;
+    description: string | null;
+    body: string;
+    version: number;
+    shared: boolean;
+    ownerId: string;
+    owner: { name: string | null; email: string };
+}
+
+function fromRow(row: TemplateRow, userId: string | null): PromptTemplate {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        body: row.body,
+        version: row.version,
+        shared: row.shared,
+        builtIn: false,
+        owner: row.owner.name || row.owner.email,
+        editable: row.ownerId === userId,
+    };
+}
+
+/**
+ * Templates a user can pick: the built-ins, their own and those shared by others.
+ */
+export async function listPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+    const rows: TemplateRow[] = await prisma.promptTemplate.findMany({
+        where: { OR: [{ ownerId: userId }, { shared: true }] },
+        include: { owner: { select: { name: true, email: true } } },
+        orderBy: { name: 'asc' },
+    });
+    return [...BUILT_IN.map(builtIn), ...rows.map(row => fromRow(row, userId))];
+}
+
+/**
+ * A template by ID, if `userId` may use it. Without a user (background jobs) any
+ * template is returned: access was checked when the job was queued.
+ */
+export async function getPromptTemplate(id: string, userId: string | null = null): Promise<PromptTemplate | null> {
+    const template = BUILT_IN.find(candidate => candidate.id === id);
+    if (template) return builtIn(template);
+
+    const row: TemplateRow | null = await prisma.promptTemplate.findUnique({
+        where: { id },
+        include: { owner: { select: { name: true, email: true } } },
+    });
+    if (!row || (userId && !row.shared && row.ownerId !== userId)) return null;
+    return fromRow(row, userId);
+}
+
+/**
+ * Fills in the template variables. Unknown placeholders are left as they are.
+ */
+export function renderPromptTemplate(body: string, values: Record<TemplateVariable, string>): string {
+    return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        (TEMPLATE_VARIABLES as readonly string[]).includes(name) ? values[name as TemplateVariable] : placeholder);
+}
+
+function validate(input: { name: string; body: string }): void {
+    if (!input.name.trim()) throw new PromptTemplateError('A template needs a name');
+    if (!input.body.trim()) throw new PromptTemplateError('A template needs instructions');
+    const unknown = Array.from(input.body.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+        .map(match => match[1])
+        .filter(name => !(TEMPLATE_VARIABLES as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+        throw new PromptTemplateError(`Unknown variable ${unknown.map(name => `{{${name}}}`).join(', ')}; use ${TEMPLATE_VARIABLES.map(name => `{{${name}}}`).join(', ')}`);
+    }
+}
+
+export interface PromptTemplateInput {
+    name: string;
+    description?: string | null;
+    body: string;
+    shared: boolean;
+}
+
+export async function createPromptTemplate(userId: string, input: PromptTemplateInput): Promise<void> {
+    validate(input);
+    await prisma.promptTemplate.create({
+        data: {
+            name: input.name.trim(),
+            description: input.description?.trim() || null,
+            body: input.body.trim(),
+            shared: input.shared,
+            ownerId: userId,
+        },
+    });
+}
+
+async function ownedTemplate(userId: string, id: string): Promise<{ body: string }> {
+    const template: { body: string; ownerId: string } | null = await prisma.promptTemplate.findUnique({ where: { id } });
+    if (!template) throw new PromptTemplateError('Template not found');
+    if (template.ownerId !== userId) throw new PromptTemplateError('Only the owner can change this template');
+    return template;
+}
+
+export async function updatePromptTemplate(userId: string, id: string, input: PromptTemplateInput): Promise<void> {
+    validate(input);
+    const current = await ownedTemplate(userId, id);
+    const body = input.body.trim();
+    await prisma.promptTemplate.update({
+        where: { id },
+        data: {
+            name: input.name.trim(),
+            description: input.description?.trim() || null,
+            body,
+            shared: input.shared,
+            ...(body !== current.body ? { version: { increment: 1 } } : {}),
+        },
+    });
+}
+
+export async function deletePromptTemplate(userId: string, id: string): Promise<void> {
+    await ownedTemplate(userId, id);
+    await prisma.promptTemplate.delete({ where: { id } });
+}
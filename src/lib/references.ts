@@ -0,0 +1,165 @@
+import { prisma } from './db';
+import { normalizeArxivId } from './arxivId';
+
+/**
+ * Bibliography entries of a paper, stored in the Reference table.
+ *
+ * Entries come from the reference list of the extracted PDF text (pdfText.ts). Each is
+ * parsed for a title, year, arXiv ID and DOI, then linked to a catalog Paper when one
+ * matches by arXiv ID, DOI or exact title. Entries with an arXiv ID that isn't in the
+ * catalog yet keep the ID and are matched by it when read, so they link up once the
+ * paper is saved or harvested.
+ */
+
+export interface ParsedReference {
+    raw: string;
+    title: string;
+    year: number | null;
+    arxivId: string | null;
+    doi: string | null;
+    url: string | null;
+}
+
+const ARXIV_IN_TEXT = /(?:arxiv(?:\.org\/(?:abs|pdf)\/|:\s*|\s+preprint\s+arxiv:\s*|\s+)|abs\/)((?:\d{4}\.\d{4,5}|[a-z-]+(?:\.[A-Z]{2})?\/\d{7})(?:v\d+)?)/i;
+const DOI_IN_TEXT = /\b(10\.\d{4,9}\/[^\s,;]+[^\s,;.)])/;
+const ARXIV_DOI = /^10\.48550\/arxiv\.(.+)$/i;
+const URL_IN_TEXT = /https?:\/\/[^\s,;]+[^\s,;.)]/;
+const YEAR = /\b(19[5-9]\d|20\d{2})[a-z]?\b/;
+
+// Pieces of an author list once split at periods: "Kang, W.-C", "M", "Parmar, et al", "(2018)"
+const AUTHOR_FRAGMENT = /(?:^|[\s,.-])[A-Z](?:\.-?[A-Z])*$|\bet al$|^\(?(?:19|20)\d{2}[a-z]?\)?$/;
+
+// "Title" in quotes (IEEE style), otherwise the first sentence after the author list
+function parseTitle(entry: string): string {
+    const quoted = /[“"]([^”"]{10,}?)[,.]?[”"]/.exec(entry);
+    if (quoted) return quoted[1].trim();
+
+    const [, ...rest] = entry.split(/\.\s+/).map(sentence => sentence.trim());
+    const title = rest.find(sentence => !AUTHOR_FRAGMENT.test(sentence) && sentence.split(/\s+/).length >= 2);
+    return title ?? entry.slice(0, 200);
+}
+
+export function parseReference(raw: string): ParsedReference {
+    const entry = raw.replace(/^\s*(?:\[\d+\]|\d{1,3}\.)\s*/, '').trim();
+
+    const doi = DOI_IN_TEXT.exec(entry)?.[1] ?? null;
+    const arxivMatch = ARXIV_IN_TEXT.exec(entry)?.[1] ?? (doi ? ARXIV_DOI.exec(doi)?.[1] : undefined);
+    const year = YEAR.exec(entry);
+
+    return {
+        raw,
+        title: parseTitle(entry),
+        year: year ? Number(year[1]) : null,
+        arxivId: arxivMatch ? normalizeArxivId(arxivMatch) : null,
+        // DOIs are case-insensitive; stored lowercased so they compare as strings
+        doi: doi && !ARXIV_DOI.test(doi) ? doi.toLowerCase() : null,
+        url: URL_IN_TEXT.exec(entry)?.[0] ?? null,
+    };
+}
+
+// Catalog rows the references point at, keyed by how they were matched
+async function findTargets(references: ParsedReference[]): Promise<Map<string, string>> {
+    const arxivIds = references.flatMap(ref => ref.arxivId ? [ref.arxivId] : []);
+    const dois = references.flatMap(ref => ref.doi ? [ref.doi] : []);
+    // Short titles ("Attention") would match unrelated papers
+    const titles = references.filter(ref => !ref.arxivId && !ref.doi && ref.title.length >= 20).map(ref => ref.title);
+
+    const papers: { id: string; doi: string | null; title: string }[] = await prisma.paper.findMany({
+        where: {
+            OR: [
+                { id: { in: arxivIds } },
+                // Catalog DOIs keep whatever case their source used
+                { doi: { in: dois, mode: 'insensitive' } },
+                ...titles.map(title => ({ title: { equals: title, mode: 'insensitive' } })),
+            ],
+        },
+        select: { id: true, doi: true, title: true },
+    });
+
+    const targets = new Map<string, string>();
+    for (const paper of papers) {
+        targets.set(`id:${paper.id}`, paper.id);
+        if (paper.doi) targets.set(`doi:${paper.doi.toLowerCase()}`, paper.id);
+        targets.set(`title:${paper.title.toLowerCase()}`, paper.id);
+    }
+    return targets;
+}
+
+/**
+ * Replaces the stored references of a paper with the given bibliography entries.
+ * Returns how many were linked to a catalog paper.
+ */
+export async function storeReferences(paperId: string, entries: string[]): Promise<number> {
+    const references = entries.map(parseReference);
+    const targets = references.length > 0 ? await findTargets(references) : new Map<string, string>();
+
+    const rows = references.map((ref, position) => {
+        const target = (ref.arxivId && targets.get(`id:${ref.arxivId}`))
+            || (ref.doi && targets.get(`doi:${ref.doi}`))
+            || targets.get(`title:${ref.title.toLowerCase()}`)
+            || null;
+        return {
+            sourcePaperId: paperId,
+            // A paper listing itself (e.g. an earlier version) isn't a reference
+            targetPaperId: target === paperId ? null : target,
+            position,
+            raw: ref.raw,
+            title: ref.title,
+            year: ref.year,
+            arxivId: ref.arxivId === paperId ? null : ref.arxivId,
+            doi: ref.doi,
+            url: ref.url,
+        };
+    });
+
+    await prisma.$transaction([
+        prisma.reference.deleteMany({ where: { sourcePaperId: paperId } }),
+        prisma.reference.createMany({ data: rows }),
+    ]);
+    return rows.filter(row => row.targetPaperId).length;
+}
+
+export interface ReferenceEntry {
+    id: string;
+    title: string;
+    raw: string;
+    year: number | null;
+    arxivId: string | null;
+    doi: string | null;
+    url: string | null;
+    paperId: string | null;  // Catalog paper the entry resolves to
+}
+
+/**
+ * The bibliography of a paper in order, resolved against the current catalog.
+ */
+export async function getReferences(paperId: string): Promise<ReferenceEntry[]> {
+    const rows: (Omit<ReferenceEntry, 'paperId'> & { targetPaperId: string | null })[] = await prisma.reference.findMany({
+        where: { sourcePaperId: paperId },
+        orderBy: { position: 'asc' },
+    });
+
+    const pending = rows.flatMap(row => !row.targetPaperId && row.arxivId ? [row.arxivId] : []);
+    const cataloged = new Set(
+        pending.length > 0
+            ? (await prisma.paper.findMany({ where: { id: { in: pending } }, select: { id: true } })).map((p: { id: string }) => p.id)
+            : []
+    );
+
+    return rows.map(({ targetPaperId, ...row }) => ({
+        ...row,
+        paperId: targetPaperId ?? (row.arxivId && cataloged.has(row.arxivId) ? row.arxivId : null),
+    }));
+}
+
+/**
+ * IDs of catalog papers whose bibliography cites the paper.
+ */
+export async function getCitingPaperIds(paperId: string): Promise<string[]> {
+    const rows: { sourcePaperId: string }[] = await prisma.reference.findMany({
+        where: { OR: [{ targetPaperId: paperId }, { arxivId: paperId }] },
+        select: { sourcePaperId: true },
+        distinct: ['sourcePaperId'],
+    });
+    return rows.map(row => row.sourcePaperId);
+}
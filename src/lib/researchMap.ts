@@ -0,0 +1,145 @@
+import { prisma } from './db';
+import { ArxivPaper } from './arxiv';
+import { CatalogPaper, toArxivPaper } from './catalog';
+import { dot, getVectors, normalize } from './embeddings';
+import { getEmbeddingConfig } from './llm';
+
+/**
+ * The research map: a user's library laid out in two dimensions so that papers about
+ * similar things sit close together.
+ *
+ * Each saved paper's embedding (see embeddings.ts) is projected onto the two principal
+ * components of the library's embeddings. PCA is deterministic, so the map only moves
+ * as much as the library changes. Papers without an embedding yet are left off. Each
+ * paper carries its cluster in the library and in the whole catalog (see clustering.ts),
+ * so the library can be seen within the catalog's grouping.
+ */
+
+export interface MapPoint {
+    paper: ArxivPaper;
+    x: number;  // 0..1
+    y: number;  // 0..1
+    topics: { id: string; name: string }[];
+    clusterId: string | null;
+    catalogClusterId: string | null;
+    citations: number;  // References to it from papers in the catalog
+}
+
+export interface MapCluster {
+    id: string;
+    name: string;
+    description: string | null;
+}
+
+export interface ResearchMap {
+    points: MapPoint[];
+    clusters: MapCluster[];
+    catalogClusters: MapCluster[];  // Only those holding papers on the map
+    unplaced: number;  // Saved papers without an embedding
+}
+
+interface MapPaperRow extends CatalogPaper {
+    topics: { id: string; name: string }[];
+    clusters: { id: string; userId: string | null }[];
+    _count: { referencedBy: number };
+}
+
+const POWER_ITERATIONS = 50;
+
+// The leading eigenvector of the covariance of `rows` (already centered), by power iteration
+function principalComponent(rows: Float32Array[], dimensions: number, seed: number): Float32Array {
+    // A fixed, spread-out start keeps the map the same between loads
+    let component = normalize(Float32Array.from({ length: dimensions }, (_, i) => Math.sin(seed + i * 12.9898)));
+    for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+        const next = new Float32Array(dimensions);
+        for (const row of rows) {
+            const projection = dot(row, component);
+            for (let d = 0; d < dimensions; d++) next[d] += projection * row[d];
+        }
+        component = normalize(next);
+    }
+    return component;
+}
+
+/**
+ * Coordinates of each vector on the top two principal components, scaled to 0..1.
+ */
+function project(vectors: Float32Array[]): [number, number][] {
+    const dimensions = vectors[0].length;
+    const mean = new Float32Array(dimensions);
+    vectors.forEach(vector => vector.forEach((value, d) => { mean[d] += value / vectors.length; }));
+    const centered = vectors.map(vector => vector.map((value, d) => value - mean[d]));
+
+    const first = principalComponent(centered, dimensions, 1);
+    // Take the first component out before looking for the second
+    const deflated = centered.map(row => {
+        const projection = dot(row, first);
+        return row.map((value, d) => value - projection * first[d]);
+    });
+    const second = principalComponent(deflated, dimensions, 2);
+
+    const coordinates = centered.map(row => [dot(row, first), dot(row, second)] as [number, number]);
+    // One scale for both axes, so distances on the map stay comparable in any direction
+    const bounds = (axis: 0 | 1) => {
+        const values = coordinates.map(point => point[axis]);
+        return { min: Math.min(...values), max: Math.max(...values) };
+    };
+    const [xs, ys] = [bounds(0), bounds(1)];
+    const range = Math.max(xs.max - xs.min, ys.max - ys.min) || 1;
+    // The narrower axis is centered
+    const offsetX = (range - (xs.max - xs.min)) / 2;
+    const offsetY = (range - (ys.max - ys.min)) / 2;
+    return coordinates.map(([x, y]) => [(x - xs.min + offsetX) / range, (y - ys.min + offsetY) / range]);
+}
+
+export async function getResearchMap(userId: string): Promise<ResearchMap> {
+    const saved: { paperId: string }[] = await prisma.savedPaper.findMany({ where: { userId }, select: { paperId: true } });
+    const vectors = await getVectors(saved.map(entry => entry.paperId));
+    const ids = Array.from(vectors.keys());
+    const { model } = getEmbeddingConfig();
+
+    const clusters: MapCluster[] = await prisma.cluster.findMany({
+        where: { userId, model },
+        select: { id: true, name: true, description: true },
+        orderBy: { size: 'desc' },
+    });
+    if (ids.length === 0) return { points: [], clusters, catalogClusters: [], unplaced: saved.length };
+
+    const papers: MapPaperRow[] = await prisma.paper.findMany({
+        where: { id: { in: ids } },
+        include: {
+            topics: { select: { id: true, name: true } },
+            clusters: { where: { model, OR: [{ userId }, { userId: null }] }, select: { id: true, userId: true } },
+            _count: { select: { referencedBy: true } },
+        },
+    });
+    const byId = new Map(papers.map(paper => [paper.id, paper]));
+    // A single paper has no spread to project; put it in the middle
+    const coordinates = ids.length > 1 ? project(ids.map(id => vectors.get(id)!)) : [[0.5, 0.5] as [number, number]];
+
+    const catalogClusterOf = new Map(papers.map(paper => [paper.id, paper.clusters.find(cluster => cluster.userId === null)?.id ?? null]));
+    const catalogClusters: MapCluster[] = await prisma.cluster.findMany({
+        where: { id: { in: Array.from(catalogClusterOf.values()).filter((id): id is string => id !== null) } },
+        select: { id: true, name: true, description: true },
+        orderBy: { size: 'desc' },
+    });
+
+    return {
+        points: ids.flatMap((id, index) => {
+            const paper = byId.get(id);
+            if (!paper) return [];
+            return [{
+                paper: toArxivPaper(paper),
+                x: coordinates[index][0],
+                y: coordinates[index][1],
+                topics: paper.topics,
+                clusterId: paper.clusters.find(cluster => cluster.userId === userId)?.id ?? null,
+                catalogClusterId: catalogClusterOf.get(id) ?? null,
+                citations: paper._count.referencedBy,
+            }];
+        }),
+        clusters,
+        catalogClusters,
+        unplaced: saved.length - ids.length,
+    };
+}
@@ -0,0 +1,118 @@
+import { prisma } from './db';
+import { ArxivPaper } from './arxiv';
+import { CatalogPaper, toArxivPaper } from './catalog';
+import { nearestPapers } from './embeddings';
+import { LlmError, isEmbeddingConfigured } from './llm';
+import { bm25Scores, tokenize } from './paperChunks';
+
+/**
+ * Search over saved and catalog papers by meaning as well as by words.
+ *
+ * Two rankings are fused: keyword matches (BM25 over title, abstract and AI summary)
+ * and nearest neighbours by embedding (see embeddings.ts). Reciprocal rank fusion
+ * needs no score calibration between the two, and rewards papers both rank well. When
+ * no embedding model is configured or it fails, results are keyword matches alone.
+ */
+
+export type SearchScope = 'library' | 'catalog';
+
+export type MatchKind = 'keyword' | 'meaning';
+
+export interface SemanticSearchResult {
+    paper: ArxivPaper;
+    aiSummary: string | null;
+    matchedBy: MatchKind[];
+}
+
+export interface SemanticSearchResponse {
+    results: SemanticSearchResult[];
+    semantic: boolean;  // Whether meaning took part; false means keyword matches only
+}
+
+// Candidates taken from each ranking before fusing
+const CANDIDATES = 200;
+// The usual reciprocal rank fusion constant: damps the difference between the first few ranks
+const RRF_K = 60;
+const MAX_QUERY_TERMS = 8;
+
+interface SearchablePaper extends CatalogPaper {
+    summary: string | null;
+}
+
+function searchableText(paper: Pick<SearchablePaper, 'title' | 'abstract' | 'summary'>): string {
+    return [paper.title, paper.abstract, paper.summary].filter(Boolean).join('\n');
+}
+
+// Papers containing any query term, best BM25 match first
+async function keywordMatches(query: string, savedIds: string[] | null): Promise<string[]> {
+    const terms = Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_TERMS);
+    if (terms.length === 0) return [];
+    const papers: Pick<SearchablePaper, 'id' | 'title' | 'abstract' | 'summary'>[] = await prisma.paper.findMany({
+        where: {
+            ...(savedIds ? { id: { in: savedIds } } : {}),
+            OR: terms.flatMap(term => ['title', 'abstract', 'summary'].map(field => ({ [field]: { contains: term, mode: 'insensitive' } }))),
+        },
+        select: { id: true, title: true, abstract: true, summary: true },
+        // Common terms match much of the catalog: only the newest matches are scored
+        orderBy: { publishedDate: 'desc' },
+        take: CANDIDATES * 5,
+    });
+    const scores = bm25Scores(query, papers.map(searchableText));
+    return papers
+        .map((paper, position) => ({ id: paper.id, score: scores[position] }))
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATES)
+        .map(entry => entry.id);
+}
+
+/**
+ * Searches the user's library or the whole catalog for `query`.
+ */
+export async function searchPapers(userId: string, query: string, scope: SearchScope, limit = 30): Promise<SemanticSearchResponse> {
+    const text = query.trim();
+    if (!text) return { results: [], semantic: false };
+
+    const saved: { paperId: string }[] = scope === 'library'
+        ? await prisma.savedPaper.findMany({ where: { userId }, select: { paperId: true } })
+        : [];
+    const restrictTo = scope === 'library' ? saved.map(entry => entry.paperId) : null;
+
+    const keyword = await keywordMatches(text, restrictTo);
+    let meaning: string[] = [];
+    let semantic = isEmbeddingConfigured();
+    if (semantic) {
+        try {
+            const nearest = await nearestPapers(text, { limit: CANDIDATES, paperIds: restrictTo ? new Set(restrictTo) : undefined });
+            meaning = nearest.map(entry => entry.paperId);
+        } catch (error) {
+            if (!(error instanceof LlmError)) throw error;
+            console.error('Semantic search failed, using keyword matches only:', error);
+            semantic = false;
+        }
+    }
+
+    const fused = new Map<string, { score: number; matchedBy: MatchKind[] }>();
+    const fuse = (ranking: string[], kind: MatchKind) => ranking.forEach((paperId, rank) => {
+        const entry = fused.get(paperId) ?? { score: 0, matchedBy: [] };
+        entry.score += 1 / (RRF_K + rank + 1);
+        entry.matchedBy.push(kind);
+        fused.set(paperId, entry);
+    });
+    fuse(keyword, 'keyword');
+    fuse(meaning, 'meaning');
+
+    const ranked = Array.from(fused, ([paperId, entry]) => ({ paperId, ...entry }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    const papers: SearchablePaper[] = await prisma.paper.findMany({ where: { id: { in: ranked.map(entry => entry.paperId) } } });
+    const byId = new Map(papers.map(paper => [paper.id, paper]));
+
+    return {
+        results: ranked.flatMap(entry => {
+            const paper = byId.get(entry.paperId);
+            return paper ? [{ paper: toArxivPaper(paper), aiSummary: paper.summary, matchedBy: entry.matchedBy }] : [];
+        }),
+        semantic,
+    };
+}
@@ -0,0 +1,33 @@
+import { PaperSource, SourcePaper } from './types';
+import { S2SearchResponse, fetchSemanticScholar, parseS2Paper } from './semanticScholar';
+
+/**
+ * The ACL Anthology has no search API, so this searches Semantic Scholar restricted to
+ * *ACL venues and keeps results that carry an Anthology ID.
+ */
+
+const ACL_VENUES = ['ACL', 'EMNLP', 'NAACL', 'EACL', 'COLING', 'TACL', 'Findings of ACL', 'CoNLL'];
+
+export function parseAclResponse(response: S2SearchResponse): SourcePaper[] {
+    return (response.data ?? [])
+        .filter(paper => paper.externalIds?.ACL)
+        .map(paper => {
+            const parsed = parseS2Paper(paper);
+            const aclId = paper.externalIds!.ACL!;
+            const hasArxiv = !!parsed.externalIds?.arxiv;
+            return {
+                ...parsed,
+                id: hasArxiv ? parsed.id : `acl:${aclId}`,
+                source: 'acl',
+                link: `https://aclanthology.org/${aclId}`,
+                pdfLink: `https://aclanthology.org/${aclId}.pdf`,
+            };
+        });
+}
+
+export const aclSource: PaperSource = {
+    id: 'acl',
+    async search(query, options) {
+        return parseAclResponse(await fetchSemanticScholar(query, options, { venue: ACL_VENUES.join(',') }));
+    },
+};
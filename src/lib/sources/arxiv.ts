@@ -0,0 +1,18 @@
+import { ArxivPaper, searchArxiv } from '../arxiv';
+import { PaperSource, SourcePaper } from './types';
+
+export function toSourcePaper(paper: ArxivPaper): SourcePaper {
+    return {
+        ...paper,
+        source: 'arxiv',
+        externalIds: { arxiv: paper.id, doi: paper.doi },
+    };
+}
+
+export const arxivSource: PaperSource = {
+    id: 'arxiv',
+    async search(query, options) {
+        const papers = await searchArxiv(query, options.maxResults, options.start, options.sortBy, 'descending');
+        return papers.map(toSourcePaper);
+    },
+};
@@ -0,0 +1,168 @@
+import { ArxivPaper } from '../arxiv';
+import { PaperSource, SourceId, SourcePaper, SourceSearchOptions } from './types';
+import { arxivSource, toSourcePaper } from './arxiv';
+import { parseSemanticScholarResponse, semanticScholarSource } from './semanticScholar';
+import { aclSource, parseAclResponse } from './acl';
+import { openAlexSource, parseOpenAlexResponse } from './openAlex';
+import { openReviewSource, parseOpenReviewResponse } from './openReview';
+import arxivFixture from './fixtures/arxiv.json';
+import semanticScholarFixture from './fixtures/semanticScholar.json';
+import aclFixture from './fixtures/acl.json';
+import openAlexFixture from './fixtures/openAlex.json';
+import openReviewFixture from './fixtures/openReview.json';
+
+export * from './types';
+
+const LIVE_SOURCES: Record<SourceId, PaperSource> = {
+    arxiv: arxivSource,
+    semanticScholar: semanticScholarSource,
+    acl: aclSource,
+    openAlex: openAlexSource,
+    openReview: openReviewSource,
+};
+
+/**
+ * Stand-in that answers from a recorded response instead of the network. Fixtures hold
+ * raw API payloads, so the same parsers run as in production.
+ */
+function createFixtureSource(id: SourceId, papers: SourcePaper[]): PaperSource {
+    return {
+        id,
+        async search(query, options) {
+            const terms = toPlainQuery(query).toLowerCase().split(/\s+/).filter(Boolean);
+            const matches = papers.filter(paper => {
+                const text = `${paper.title} ${paper.summary} ${paper.authors.join(' ')}`.toLowerCase();
+                return terms.length === 0 || terms.some(term => text.includes(term));
+            });
+            return matches.slice(options.start, options.start + options.maxResults);
+        },
+    };
+}
+
+const FIXTURE_SOURCES: Record<SourceId, PaperSource> = {
+    arxiv: createFixtureSource('arxiv', (arxivFixture as ArxivPaper[]).map(toSourcePaper)),
+    semanticScholar: createFixtureSource('semanticScholar', parseSemanticScholarResponse(semanticScholarFixture)),
+    acl: createFixtureSource('acl', parseAclResponse(aclFixture)),
+    openAlex: createFixtureSource('openAlex', parseOpenAlexResponse(openAlexFixture)),
+    openReview: createFixtureSource('openReview', parseOpenReviewResponse(openReviewFixture)),
+};
+
+/**
+ * Returns the provider for a source. Set PAPER_SOURCES_MODE=fixtures to develop offline.
+ */
+export function getPaperSource(id: SourceId): PaperSource {
+    return process.env.PAPER_SOURCES_MODE === 'fixtures' ? FIXTURE_SOURCES[id] : LIVE_SOURCES[id];
+}
+
+/**
+ * Strips arXiv-only syntax (field prefixes, categories, date ranges, boolean operators)
+ * so queries built for arXiv can be sent to keyword search APIs.
+ */
+export function toPlainQuery(query: string): string {
+    return query
+        .replace(/submittedDate:\[[^\]]*\]/g, ' ')
+        .replace(/\bcat:\S+/g, ' ')
+        .replace(/\b(?:all|ti|au|abs|co|jr):/g, ' ')
+        .replace(/\b(?:ANDNOT|AND|OR)\b/g, ' ')
+        .replace(/["()]/g, ' ')
+        .replace(/_/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function mergeInto(target: SourcePaper, other: SourcePaper): SourcePaper {
+    return {
+        ...target,
+        summary: target.summary || other.summary,
+        pdfLink: target.pdfLink ?? other.pdfLink,
+        journalRef: target.journalRef ?? other.journalRef,
+        doi: target.doi ?? other.doi,
+        affiliations: target.affiliations ?? other.affiliations,
+        sources: Array.from(new Set([...(target.sources ?? [target.source]), ...(other.sources ?? [other.source])])),
+        externalIds: { ...other.externalIds, ...target.externalIds },
+    };
+}
+
+/**
+ * Merges result lists from several sources, collapsing papers that share an arXiv ID,
+ * DOI or title. When arXiv returned the paper its record wins, since that's the one
+ * the catalog stores.
+ */
+export function mergeSourceResults(lists: SourcePaper[][]): SourcePaper[] {
+    const merged: SourcePaper[] = [];
+    const indexByKey = new Map<string, number>();
+
+    // Round-robin so each source's best matches stay near the top
+    const longest = Math.max(0, ...lists.map(list => list.length));
+    const interleaved: SourcePaper[] = [];
+    for (let i = 0; i < longest; i++) {
+        for (const list of lists) {
+            if (list[i]) interleaved.push(list[i]);
+        }
+    }
+
+    for (const paper of interleaved) {
+        const keys = [
+            paper.externalIds?.arxiv && `arxiv:${paper.externalIds.arxiv}`,
+            paper.doi && `doi:${paper.doi.toLowerCase()}`,
+            paper.title && `title:${normalizeTitle(paper.title)}`,
+        ].filter((key): key is string => !!key);
+
+        const existingIndex = keys.map(key => indexByKey.get(key)).find(index => index !== undefined);
+        if (existingIndex === undefined) {
+            merged.push({ ...paper, sources: paper.sources ?? [paper.source] });
+            keys.forEach(key => indexByKey.set(key, merged.length - 1));
+            continue;
+        }
+
+        const existing = merged[existingIndex];
+        merged[existingIndex] = paper.source === 'arxiv' && existing.source !== 'arxiv'
+            ? mergeInto(paper, existing)
+            : mergeInto(existing, paper);
+        keys.forEach(key => indexByKey.set(key, existingIndex));
+    }
+
+    return merged;
+}
+
+export interface MultiSourceResult {
+    papers: SourcePaper[];
+    errors: Partial<Record<SourceId, string>>;
+}
+
+/**
+ * Queries several sources in parallel. A failing source is reported in `errors`
+ * rather than failing the whole search.
+ */
+export async function searchSources(
+    query: string,
+    sourceIds: SourceId[],
+    options: SourceSearchOptions
+): Promise<MultiSourceResult> {
+    const plainQuery = toPlainQuery(query);
+
+    const settled = await Promise.allSettled(sourceIds.map(id =>
+        getPaperSource(id).search(id === 'arxiv' ? query : plainQuery, options)
+    ));
+
+    const errors: Partial<Record<SourceId, string>> = {};
+    const lists: SourcePaper[][] = [];
+    settled.forEach((result, i) => {
+        if (result.status === 'fulfilled') {
+            lists.push(result.value);
+        } else {
+            console.error(`Search failed for source ${sourceIds[i]}:`, result.reason);
+            errors[sourceIds[i]] = (result.reason as Error).message;
+        }
+    });
+
+    let papers = mergeSourceResults(lists);
+    if (options.sortBy === 'submittedDate') {
+        papers = papers.sort((a, b) => (b.published || '').localeCompare(a.published || ''));
+    }
+    return { papers, errors };
+}
@@ -0,0 +1,83 @@
+import axios from 'axios';
+import { arxivAbsUrl, arxivPdfUrl, parseArxivId } from '../arxivId';
+import { PaperSource, SourcePaper } from './types';
+
+const OPENALEX_WORKS_URL = 'https://api.openalex.org/works';
+
+export interface OpenAlexWork {
+    id: string; // https://openalex.org/W...
+    doi?: string | null; // https://doi.org/...
+    title?: string | null;
+    publication_date?: string | null;
+    authorships?: { author: { display_name: string }; institutions?: { display_name: string }[] }[];
+    abstract_inverted_index?: Partial<Record<string, number[]>> | null;
+    primary_location?: { landing_page_url?: string | null; pdf_url?: string | null; source?: { display_name?: string } | null } | null;
+    locations?: { landing_page_url?: string | null }[];
+}
+
+export interface OpenAlexResponse {
+    results?: OpenAlexWork[];
+}
+
+/**
+ * OpenAlex ships abstracts as word -> positions maps for licensing reasons.
+ */
+function rebuildAbstract(index: Partial<Record<string, number[]>> | null | undefined): string {
+    if (!index) return '';
+    const words: string[] = [];
+    for (const [word, positions] of Object.entries(index)) {
+        for (const position of positions ?? []) words[position] = word;
+    }
+    return words.filter(Boolean).join(' ');
+}
+
+export function parseOpenAlexWork(work: OpenAlexWork): SourcePaper {
+    const openAlexId = work.id.replace('https://openalex.org/', '');
+    const doi = work.doi?.replace(/^https:\/\/doi\.org\//, '') || undefined;
+    const arxivId = (work.locations ?? [])
+        .map(location => location.landing_page_url?.includes('arxiv.org') ? parseArxivId(location.landing_page_url) : null)
+        .find(id => id)?.base;
+
+    const affiliations: Record<string, string[]> = {};
+    for (const authorship of work.authorships ?? []) {
+        const institutions = (authorship.institutions ?? []).map(i => i.display_name);
+        if (institutions.length > 0) affiliations[authorship.author.display_name] = institutions;
+    }
+
+    return {
+        id: arxivId ?? `openalex:${openAlexId}`,
+        source: 'openAlex',
+        title: work.title ?? '',
+        summary: rebuildAbstract(work.abstract_inverted_index),
+        authors: (work.authorships ?? []).map(a => a.author.display_name),
+        published: work.publication_date ?? '',
+        link: arxivId ? arxivAbsUrl(arxivId) : work.primary_location?.landing_page_url ?? work.id,
+        pdfLink: work.primary_location?.pdf_url ?? (arxivId ? arxivPdfUrl(arxivId) : undefined),
+        journalRef: work.primary_location?.source?.display_name,
+        doi,
+        affiliations: Object.keys(affiliations).length > 0 ? affiliations : undefined,
+        externalIds: { openAlex: openAlexId, doi, arxiv: arxivId },
+    };
+}
+
+export function parseOpenAlexResponse(response: OpenAlexResponse): SourcePaper[] {
+    return (response.results ?? []).filter(work => work.title).map(parseOpenAlexWork);
+}
+
+export const openAlexSource: PaperSource = {
+    id: 'openAlex',
+    async search(query, options) {
+        const response = await axios.get<OpenAlexResponse>(OPENALEX_WORKS_URL, {
+            params: {
+                search: query,
+                'per-page': options.maxResults,
+                page: Math.floor(options.start / options.maxResults) + 1,
+                ...(options.sortBy === 'submittedDate' ? { sort: 'publication_date:desc' } : {}),
+                // Requests with a contact address get OpenAlex's faster "polite pool"
+                ...(process.env.OPENALEX_MAILTO ? { mailto: process.env.OPENALEX_MAILTO } : {}),
+            },
+            timeout: 15000,
+        });
+        return parseOpenAlexResponse(response.data);
+    },
+};
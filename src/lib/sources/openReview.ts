@@ -0,0 +1,63 @@
+import axios from 'axios';
+import { PaperSource, SourcePaper } from './types';
+
+const OPENREVIEW_SEARCH_URL = 'https://api2.openreview.net/notes/search';
+
+type Field<T> = { value?: T } | undefined;
+
+export interface OpenReviewNote {
+    id: string;
+    forum: string;
+    cdate?: number;
+    pdate?: number | null;
+    content: {
+        title?: Field<string>;
+        abstract?: Field<string>;
+        authors?: Field<string[]>;
+        venue?: Field<string>;
+        pdf?: Field<string>;
+    };
+}
+
+export interface OpenReviewResponse {
+    notes?: OpenReviewNote[];
+}
+
+export function parseOpenReviewNote(note: OpenReviewNote): SourcePaper {
+    const timestamp = note.pdate ?? note.cdate;
+    const pdf = note.content.pdf?.value;
+    return {
+        id: `openreview:${note.forum}`,
+        source: 'openReview',
+        title: note.content.title?.value ?? '',
+        summary: note.content.abstract?.value ?? '',
+        authors: note.content.authors?.value ?? [],
+        published: timestamp ? new Date(timestamp).toISOString() : '',
+        link: `https://openreview.net/forum?id=${note.forum}`,
+        pdfLink: pdf ? `https://openreview.net${pdf}` : undefined,
+        journalRef: note.content.venue?.value,
+        externalIds: { openReview: note.forum },
+    };
+}
+
+export function parseOpenReviewResponse(response: OpenReviewResponse): SourcePaper[] {
+    return (response.notes ?? []).filter(note => note.content.title?.value).map(parseOpenReviewNote);
+}
+
+export const openReviewSource: PaperSource = {
+    id: 'openReview',
+    async search(query, options) {
+        const response = await axios.get<OpenReviewResponse>(OPENREVIEW_SEARCH_URL, {
+            params: {
+                term: query,
+                type: 'terms',
+                content: 'all',
+                source: 'forum',
+                limit: options.maxResults,
+                offset: options.start,
+            },
+            timeout: 15000,
+        });
+        return parseOpenReviewResponse(response.data);
+    },
+};
@@ -0,0 +1,76 @@
+import axios from 'axios';
+import { arxivAbsUrl, arxivPdfUrl, normalizeArxivId } from '../arxivId';
+import { PaperSource, SourcePaper, SourceSearchOptions } from './types';
+
+const S2_SEARCH_URL = 'https://api.semanticscholar.org/graph/v1/paper/search';
+const S2_FIELDS = 'paperId,externalIds,title,abstract,authors,year,publicationDate,venue,openAccessPdf,url';
+
+export interface S2Paper {
+    paperId: string;
+    externalIds?: { ArXiv?: string; DOI?: string; ACL?: string } | null;
+    title: string;
+    abstract?: string | null;
+    authors?: { name: string }[];
+    year?: number | null;
+    publicationDate?: string | null;
+    venue?: string | null;
+    openAccessPdf?: { url: string } | null;
+    url?: string;
+}
+
+export interface S2SearchResponse {
+    total?: number;
+    data?: S2Paper[];
+}
+
+export function parseS2Paper(paper: S2Paper): SourcePaper {
+    const arxivId = paper.externalIds?.ArXiv ? normalizeArxivId(paper.externalIds.ArXiv) : null;
+    return {
+        id: arxivId ?? `s2:${paper.paperId}`,
+        source: 'semanticScholar',
+        title: paper.title,
+        summary: paper.abstract ?? '',
+        authors: (paper.authors ?? []).map(a => a.name),
+        published: paper.publicationDate ?? (paper.year ? `${paper.year}-01-01` : ''),
+        link: arxivId ? arxivAbsUrl(arxivId) : paper.url ?? `https://www.semanticscholar.org/paper/${paper.paperId}`,
+        pdfLink: paper.openAccessPdf?.url ?? (arxivId ? arxivPdfUrl(arxivId) : undefined),
+        journalRef: paper.venue || undefined,
+        doi: paper.externalIds?.DOI,
+        externalIds: {
+            semanticScholar: paper.paperId,
+            arxiv: arxivId ?? undefined,
+            doi: paper.externalIds?.DOI,
+            acl: paper.externalIds?.ACL,
+        },
+    };
+}
+
+export function parseSemanticScholarResponse(response: S2SearchResponse): SourcePaper[] {
+    return (response.data ?? []).map(parseS2Paper);
+}
+
+export async function fetchSemanticScholar(
+    query: string,
+    options: SourceSearchOptions,
+    extraParams: Record<string, string> = {}
+): Promise<S2SearchResponse> {
+    const response = await axios.get<S2SearchResponse>(S2_SEARCH_URL, {
+        params: {
+            query,
+            fields: S2_FIELDS,
+            offset: options.start,
+            limit: options.maxResults,
+            ...extraParams,
+        },
+        headers: process.env.SEMANTIC_SCHOLAR_API_KEY ? { 'x-api-key': process.env.SEMANTIC_SCHOLAR_API_KEY } : {},
+        timeout: 15000,
+    });
+    return response.data;
+}
+
+export const semanticScholarSource: PaperSource = {
+    id: 'semanticScholar',
+    async search(query, options) {
+        return parseSemanticScholarResponse(await fetchSemanticScholar(query, options));
+    },
+};
@@ -0,0 +1,44 @@
+import type { ArxivPaper } from '../arxiv';
+
+export type SourceId = 'arxiv' | 'semanticScholar' | 'openAlex' | 'acl' | 'openReview';
+
+export const SOURCE_LABELS: Record<SourceId, string> = {
+    arxiv: 'arXiv',
+    semanticScholar: 'Semantic Scholar',
+    openAlex: 'OpenAlex',
+    acl: 'ACL Anthology',
+    openReview: 'OpenReview',
+};
+
+export const SOURCE_IDS = Object.keys(SOURCE_LABELS) as SourceId[];
+
+export interface ExternalIds {
+    arxiv?: string;
+    doi?: string;
+    semanticScholar?: string;
+    openAlex?: string;
+    acl?: string;
+    openReview?: string;
+}
+
+/**
+ * A search result from any catalog. Papers that have an arXiv ID use it as their `id`
+ * so they line up with the shared catalog; everything else is prefixed with its
+ * source (e.g. `openalex:W4385245566`).
+ */
+export interface SourcePaper extends ArxivPaper {
+    source: SourceId;
+    sources?: SourceId[]; // Every catalog that returned this paper, after de-duplication
+    externalIds?: ExternalIds;
+}
+
+export interface SourceSearchOptions {
+    maxResults: number;
+    start: number;
+    sortBy: 'relevance' | 'submittedDate';
+}
+
+export interface PaperSource {
+    id: SourceId;
+    search(query: string, options: SourceSearchOptions): Promise<SourcePaper[]>;
+}
@@ -0,0 +1,279 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+/**
+ * The topic taxonomy papers are tagged with.
+ *
+ * Topics form a hierarchy (parentId) and carry a description and aliases. Models only
+ * get to pick from active (non-archived) topics, and names they return are resolved
+ * through names and aliases, so free-form labels never create new topics. Renames and
+ * merges keep the old name as an alias so earlier outputs still resolve.
+ *
+ * The taxonomy is shared by everyone. When TAXONOMY_CURATORS lists email addresses,
+ * only those users may change it; every change is recorded as a TopicChange.
+ */
+
+// The original hard-coded list, used to seed an empty taxonomy
+const DEFAULT_TOPICS = [
+    "Distributed Machine Learning",
+    "Model Performance Optimization",
+    "Personalized Advertising",
+    "Recommendation System",
+    "Generative Recommendation",
+    "Reinforcement Learning",
+    "Agent",
+    "Large Language Models",
+    "Model Architecture"
+];
+
+export class TaxonomyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TaxonomyError';
+    }
+}
+
+export type TopicChangeAction = 'create' | 'update' | 'archive' | 'restore' | 'add_alias' | 'remove_alias' | 'merge';
+
+export function isTaxonomyCurator(email: string): boolean {
+    const curators = (process.env.TAXONOMY_CURATORS ?? '').split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+    // Without a list, every signed-in user curates, as before curators existed
+    return curators.length === 0 || curators.includes(email.toLowerCase());
+}
+
+export async function recordTopicChange(userId: string, action: TopicChangeAction, topicId: string | null, detail: object): Promise<void> {
+    await prisma.topicChange.create({ data: { userId, action, topicId, detail: JSON.stringify(detail) } });
+}
+
+export interface TaxonomyTopic {
+    id: string;
+    name: string;
+    description: string | null;
+    parentId: string | null;
+    archived: boolean;
+    aliases: string[];
+    paperCount: number;
+}
+
+interface TopicRow {
+    id: string;
+    name: string;
+    description: string | null;
+    parentId: string | null;
+    archived: boolean;
+    aliases: { name: string }[];
+    _count: { papers: number };
+}
+
+function normalizeAlias(name: string): string {
+    return name.trim().toLowerCase();
+}
+
+async function ensureSeeded(): Promise<void> {
+    if (await prisma.topic.count() > 0) return;
+    await prisma.topic.createMany({
+        data: DEFAULT_TOPICS.map(name => ({ name })),
+        skipDuplicates: true,
+    });
+}
+
+/**
+ * Every topic with its aliases and paper count, ordered by name.
+ */
+export async function getTaxonomy(options: { includeArchived?: boolean } = {}): Promise<TaxonomyTopic[]> {
+    await ensureSeeded();
+    const topics: TopicRow[] = await prisma.topic.findMany({
+        where: options.includeArchived ? {} : { archived: false },
+        include: { aliases: true, _count: { select: { papers: true } } },
+        orderBy: { name: 'asc' },
+    });
+
+    return topics.map(topic => ({
+        id: topic.id,
+        name: topic.name,
+        description: topic.description,
+        parentId: topic.parentId,
+        archived: topic.archived,
+        aliases: topic.aliases.map(alias => alias.name),
+        paperCount: topic._count.papers,
+    }));
+}
+
+/**
+ * Renders the active taxonomy as the "Allowed Topics" block of a prompt. Each option
+ * is a "- Name" line; the indented line under it gives the parent and description.
+ */
+export function formatTopicsForPrompt(topics: TaxonomyTopic[]): string {
+    const byId = new Map(topics.map(topic => [topic.id, topic]));
+    return topics.map(topic => {
+        const parent = topic.parentId ? byId.get(topic.parentId) : undefined;
+        const details = [
+            parent && `Subtopic of ${parent.name}.`,
+            topic.description,
+            topic.aliases.length > 0 && `Also known as: ${topic.aliases.join(', ')}.`,
+        ].filter(Boolean).join(' ');
+        return details ? `- ${topic.name}\n  ${details}` : `- ${topic.name}`;
+    }).join('\n');
+}
+
+/**
+ * Finds the topic a name refers to, by exact name or alias, ignoring case.
+ */
+export async function resolveTopic(name: string): Promise<{ id: string; name: string; archived: boolean } | null> {
+    const trimmed = name.trim();
+    if (!trimmed) return null;
+
+    const byName = await prisma.topic.findFirst({
+        where: { name: { equals: trimmed, mode: 'insensitive' } },
+    });
+    if (byName) return byName;
+
+    const alias = await prisma.topicAlias.findUnique({
+        where: { name: normalizeAlias(trimmed) },
+        include: { topic: true },
+    });
+    return alias?.topic ?? null;
+}
+
+/**
+ * Resolves model output to active topic IDs, dropping names that aren't in the taxonomy.
+ */
+export async function resolveTopicIds(names: string[]): Promise<string[]> {
+    const ids = new Set<string>();
+    for (const name of names) {
+        const topic = await resolveTopic(name);
+        if (topic && !topic.archived) ids.add(topic.id);
+        else console.warn(`Ignoring topic outside the taxonomy: ${name}`);
+    }
+    return Array.from(ids);
+}
+
+async function assertNameAvailable(name: string, exceptTopicId?: string): Promise<void> {
+    const existing = await resolveTopic(name);
+    if (existing && existing.id !== exceptTopicId) {
+        throw new TaxonomyError(`"${name}" is already used by the topic "${existing.name}"`);
+    }
+}
+
+// Whether `topicId` is `ancestorId` itself or sits somewhere below it
+async function isWithin(topicId: string, ancestorId: string): Promise<boolean> {
+    for (let id: string | null = topicId; id; ) {
+        if (id === ancestorId) return true;
+        const topic: { parentId: string | null } | null = await prisma.topic.findUnique({ where: { id }, select: { parentId: true } });
+        id = topic?.parentId ?? null;
+    }
+    return false;
+}
+
+async function assertValidParent(topicId: string | null, parentId: string | null | undefined): Promise<void> {
+    if (!parentId || !topicId) return;
+    if (await isWithin(parentId, topicId)) {
+        throw new TaxonomyError('A topic cannot be nested under itself or one of its subtopics');
+    }
+}
+
+export async function createTopic(input: { name: string; description?: string | null; parentId?: string | null }): Promise<void> {
+    const name = input.name.trim();
+    if (!name) throw new TaxonomyError('Topic name is required');
+    await assertNameAvailable(name);
+    await assertValidParent(null, input.parentId);
+
+    await prisma.topic.create({
+        data: { name, description: input.description?.trim() || null, parentId: input.parentId || null },
+    });
+}
+
+/**
+ * Updates a topic. Renaming keeps the old name as an alias.
+ */
+export async function updateTopic(
+    topicId: string,
+    input: { name?: string; description?: string | null; parentId?: string | null }
+): Promise<void> {
+    const topic = await prisma.topic.findUnique({ where: { id: topicId } });
+    if (!topic) throw new TaxonomyError('Topic not found');
+
+    const name = input.name?.trim();
+    const renamed = name !== undefined && name !== topic.name;
+    if (renamed) {
+        if (!name) throw new TaxonomyError('Topic name is required');
+        await assertNameAvailable(name, topicId);
+    }
+    if (input.parentId !== undefined) await assertValidParent(topicId, input.parentId);
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        if (renamed) {
+            // The new name may have been an alias of this topic
+            await tx.topicAlias.deleteMany({ where: { name: normalizeAlias(name!) } });
+            await tx.topicAlias.upsert({
+                where: { name: normalizeAlias(topic.name) },
+                update: { topicId },
+                create: { name: normalizeAlias(topic.name), topicId },
+            });
+        }
+        await tx.topic.update({
+            where: { id: topicId },
+            data: {
+                ...(renamed ? { name } : {}),
+                ...(input.description !== undefined ? { description: input.description?.trim() || null } : {}),
+                ...(input.parentId !== undefined ? { parentId: input.parentId || null } : {}),
+            },
+        });
+    });
+}
+
+export async function setTopicArchived(topicId: string, archived: boolean): Promise<void> {
+    await prisma.topic.update({ where: { id: topicId }, data: { archived } });
+}
+
+export async function addTopicAlias(topicId: string, alias: string): Promise<void> {
+    const name = alias.trim();
+    if (!name) throw new TaxonomyError('Alias is required');
+    await assertNameAvailable(name, topicId);
+    await prisma.topicAlias.upsert({
+        where: { name: normalizeAlias(name) },
+        update: {},
+        create: { name: normalizeAlias(name), topicId },
+    });
+}
+
+export async function removeTopicAlias(topicId: string, alias: string): Promise<void> {
+    await prisma.topicAlias.deleteMany({ where: { topicId, name: normalizeAlias(alias) } });
+}
+
+/**
+ * Folds `sourceId` into `targetId`: every paper tagged with the source is tagged with
+ * the target, subtopics and aliases move across, and the source's name becomes an
+ * alias of the target before the source is deleted.
+ */
+export async function mergeTopics(sourceId: string, targetId: string): Promise<void> {
+    if (await isWithin(targetId, sourceId)) {
+        throw new TaxonomyError('Cannot merge a topic into itself or one of its own subtopics');
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const source = await tx.topic.findUnique({ where: { id: sourceId }, include: { papers: { select: { id: true } } } });
+        const target = await tx.topic.findUnique({ where: { id: targetId } });
+        if (!source || !target) throw new TaxonomyError('Topic not found');
+
+        for (const paper of source.papers) {
+            await tx.paper.update({
+                where: { id: paper.id },
+                data: { topics: { connect: { id: targetId }, disconnect: { id: sourceId } } },
+            });
+        }
+
+        await tx.topic.updateMany({ where: { parentId: sourceId }, data: { parentId: targetId } });
+        await tx.topicAlias.updateMany({ where: { topicId: sourceId }, data: { topicId: targetId } });
+        await tx.topicAlias.upsert({
+            where: { name: normalizeAlias(source.name) },
+            update: { topicId: targetId },
+            create: { name: normalizeAlias(source.name), topicId: targetId },
+        });
+        await tx.topic.update({
+            where: { id: targetId },
+            data: { description: target.description ?? source.description },
+        });
+        await tx.topic.delete({ where: { id: sourceId } });
+    });
+}
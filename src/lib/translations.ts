@@ -0,0 +1,239 @@
+import { prisma } from './db';
+import { StructuredAnalysis } from './analysisFields';
+import { SOURCE_LANGUAGE, SUMMARY_LANGUAGES, SummaryLanguage, isSummaryLanguage } from './languages';
+import { JsonSchema, generateStructured } from './llm';
+
+/**
+ * Translations of AI output for users who read summaries in another language.
+ *
+ * A paper's current analysis (the summary and the prose fields) is translated into one
+ * PaperTranslation per language, shared by everyone who reads in it. Each translation
+ * keeps the text it was made from, so it goes stale when the analysis is regenerated,
+ * reverted or edited. Topic names are translated the same way, a language at a time.
+ */
+
+export class TranslationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranslationError';
+    }
+}
+
+export type TranslatedFields = Pick<StructuredAnalysis, 'problem' | 'method' | 'results' | 'limitations'>;
+
+export interface PaperTranslationEntry {
+    language: SummaryLanguage;
+    summary: string;
+    fields: TranslatedFields;
+    stale: boolean;  // The paper's analysis changed since
+    provider: string | null;
+    model: string | null;
+    updatedAt: Date;
+}
+
+interface TranslatableAnalysis extends TranslatedFields {
+    title: string;
+    summary: string | null;
+}
+
+interface TranslationRow {
+    paperId: string;
+    language: string;
+    summary: string;
+    fields: string;
+    sourceText: string;
+    provider: string | null;
+    model: string | null;
+    updatedAt: Date;
+}
+
+const ANALYSIS_SELECT = { title: true, summary: true, problem: true, method: true, results: true, limitations: true };
+
+// What a translation is made from, in a fixed order so it can be compared
+function sourceText(paper: TranslatableAnalysis): string {
+    return JSON.stringify([paper.summary, paper.problem, paper.method, paper.results, paper.limitations]);
+}
+
+function toEntry(row: TranslationRow, paper: TranslatableAnalysis): PaperTranslationEntry {
+    return {
+        language: row.language as SummaryLanguage,
+        summary: row.summary,
+        fields: JSON.parse(row.fields) as TranslatedFields,
+        stale: row.sourceText !== sourceText(paper),
+        provider: row.provider,
+        model: row.model,
+        updatedAt: row.updatedAt,
+    };
+}
+
+const nullableText: JsonSchema = { type: 'string', nullable: true };
+
+const ANALYSIS_TRANSLATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        summary: { type: 'string', minLength: 1 },
+        problem: nullableText,
+        method: nullableText,
+        results: nullableText,
+        limitations: nullableText,
+    },
+    required: ['summary', 'problem', 'method', 'results', 'limitations'],
+};
+
+/**
+ * Translates a paper's current analysis into `language`, or returns the translation
+ * made earlier if the analysis hasn't changed since.
+ */
+export async function translatePaper(paperId: string, language: string): Promise<PaperTranslationEntry> {
+    if (!isSummaryLanguage(language)) throw new TranslationError(`Unsupported language "${language}"`);
+    if (language === SOURCE_LANGUAGE) throw new TranslationError('Summaries are written in English');
+
+    const paper: TranslatableAnalysis | null = await prisma.paper.findUnique({ where: { id: paperId }, select: ANALYSIS_SELECT });
+    if (!paper) throw new TranslationError('Paper not found');
+    if (!paper.summary) throw new TranslationError('This paper has no summary to translate yet');
+
+    const existing: TranslationRow | null = await prisma.paperTranslation.findUnique({
+        where: { paperId_language: { paperId, language } },
+    });
+    if (existing && existing.sourceText === sourceText(paper)) return toEntry(existing, paper);
+
+    const { data, response } = await generateStructured<{ summary: string } & TranslatedFields>('translation', {
+        parts: [{
+            type: 'text',
+            text: `Translate this analysis of the research paper "${paper.title}" into ${SUMMARY_LANGUAGES[language].name}.
+        Keep the Markdown formatting, numbers, and names of models, datasets and methods. Leave technical terms that are
+        usually written in English as they are. Fields that are null stay null.
+
+        ${JSON.stringify({ summary: paper.summary, problem: paper.problem, method: paper.method, results: paper.results, limitations: paper.limitations }, null, 2)}`,
+        }],
+    }, ANALYSIS_TRANSLATION_SCHEMA);
+
+    const translation = {
+        summary: data.summary,
+        fields: JSON.stringify({ problem: data.problem, method: data.method, results: data.results, limitations: data.limitations }),
+        sourceText: sourceText(paper),
+        provider: response.provider,
+        model: response.model,
+    };
+    const row: TranslationRow = await prisma.paperTranslation.upsert({
+        where: { paperId_language: { paperId, language } },
+        update: translation,
+        create: { paperId, language, ...translation },
+    });
+    return toEntry(row, paper);
+}
+
+/**
+ * Every translation of a paper's analysis, stale ones included.
+ */
+export async function getPaperTranslations(paperId: string): Promise<PaperTranslationEntry[]> {
+    const paper: (TranslatableAnalysis & { translations: TranslationRow[] }) | null = await prisma.paper.findUnique({
+        where: { id: paperId },
+        select: { ...ANALYSIS_SELECT, translations: { orderBy: { language: 'asc' } } },
+    });
+    return paper ? paper.translations.map(row => toEntry(row, paper)) : [];
+}
+
+/**
+ * Up-to-date translated summaries of the given papers, by paper ID.
+ */
+export async function getTranslatedSummaries(paperIds: string[], language: SummaryLanguage): Promise<Map<string, string>> {
+    if (language === SOURCE_LANGUAGE || paperIds.length === 0) return new Map();
+    const rows: (TranslationRow & { paper: TranslatableAnalysis })[] = await prisma.paperTranslation.findMany({
+        where: { language, paperId: { in: paperIds } },
+        include: { paper: { select: ANALYSIS_SELECT } },
+    });
+    return new Map(rows
+        .filter(row => row.sourceText === sourceText(row.paper))
+        .map(row => [row.paperId, row.summary]));
+}
+
+/**
+ * Translates the analyses of the given papers into the user's preferred language,
+ * one at a time. Failures are logged and skipped: the English summary stays readable.
+ */
+export async function translateForUser(userId: string | null, paperIds: string[]): Promise<void> {
+    if (!userId) return;
+    const user: { summaryLanguage: string | null } | null = await prisma.user.findUnique({ where: { id: userId } });
+    const language = user?.summaryLanguage;
+    if (!language || language === SOURCE_LANGUAGE || !isSummaryLanguage(language)) return;
+
+    for (const paperId of paperIds) {
+        try {
+            await translatePaper(paperId, language);
+        } catch (error) {
+            if (error instanceof TranslationError) continue;
+            console.error(`Translating ${paperId} into ${language} failed:`, error);
+        }
+    }
+}
+
+interface TopicTranslationRow {
+    topicId: string;
+    name: string;
+    sourceName: string;
+    topic: { name: string };
+}
+
+/**
+ * Translates the topic names that have no up-to-date translation into `language`.
+ */
+export async function translateTopics(language: SummaryLanguage): Promise<void> {
+    if (language === SOURCE_LANGUAGE) return;
+    const topics: { id: string; name: string; translations: { sourceName: string }[] }[] = await prisma.topic.findMany({
+        include: { translations: { where: { language } } },
+    });
+    const missing = topics.filter(topic => topic.translations[0]?.sourceName !== topic.name);
+    if (missing.length === 0) return;
+
+    const schema: JsonSchema = {
+        type: 'object',
+        properties: {
+            names: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        name: { type: 'string', enum: missing.map(topic => topic.name) },
+                        translation: { type: 'string', minLength: 1 },
+                    },
+                    required: ['name', 'translation'],
+                },
+            },
+        },
+        required: ['names'],
+    };
+    const { data } = await generateStructured<{ names: { name: string; translation: string }[] }>('translation', {
+        parts: [{
+            type: 'text',
+            text: `Translate these research topic names into ${SUMMARY_LANGUAGES[language].name}. Keep acronyms and
+        terms that are usually written in English as they are.
+
+        ${missing.map(topic => `- ${topic.name}`).join('\n')}`,
+        }],
+    }, schema);
+
+    for (const { name, translation } of data.names) {
+        const topic = missing.find(candidate => candidate.name === name);
+        if (!topic) continue;
+        await prisma.topicTranslation.upsert({
+            where: { topicId_language: { topicId: topic.id, language } },
+            update: { name: translation.trim(), sourceName: topic.name },
+            create: { topicId: topic.id, language, name: translation.trim(), sourceName: topic.name },
+        });
+    }
+}
+
+/**
+ * Up-to-date topic name translations, by topic ID.
+ */
+export async function getTopicTranslations(language: SummaryLanguage): Promise<Record<string, string>> {
+    if (language === SOURCE_LANGUAGE) return {};
+    const rows: TopicTranslationRow[] = await prisma.topicTranslation.findMany({
+        where: { language },
+        include: { topic: { select: { name: true } } },
+    });
+    return Object.fromEntries(rows
+        .filter(row => row.sourceName === row.topic.name)
+        .map(row => [row.topicId, row.name]));
+}
@@ -0,0 +1,141 @@
+import { prisma } from './db';
+import { ArxivPaper, fetchArxivPapersByIds } from './arxiv';
+import { SEARCH_CACHE_TTL_MS } from './arxivClient';
+import { parseArxivId } from './arxivId';
+import { LockablePaper, lockAwareUpdate } from './paperOverrides';
+
+/**
+ * Detection of new arXiv versions for papers that someone has saved.
+ *
+ * Paper.arxivVersion tracks the latest known version, Paper.analyzedVersion the one
+ * the AI summary was generated from, and SavedPaper.seenVersion the one each user
+ * last acknowledged. Every version we learn about gets a PaperVersion row.
+ */
+
+export interface VersionCheckResult {
+    checked: number;
+    updated: string[]; // Paper IDs with a newer version than before
+}
+
+function normalizeText(text: string | null | undefined): string {
+    return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+interface TrackedPaper extends LockablePaper {
+    abstract: string | null;
+    updatedDate: Date | null;
+    publishedDate: Date | null;
+    arxivVersion: number | null;
+}
+
+/**
+ * Records versions (knownVersion, latest.version] for one paper and moves the
+ * catalog row to the latest metadata. Intermediate versions are looked up by
+ * versioned ID so the history has their dates and abstracts too.
+ */
+async function recordNewVersions(paper: TrackedPaper, latest: ArxivPaper): Promise<void> {
+    const knownVersion = paper.arxivVersion ?? 1;
+    const latestVersion = latest.version ?? knownVersion;
+
+    // Make sure the history starts from the snapshot we already had
+    await prisma.paperVersion.upsert({
+        where: { paperId_version: { paperId: paper.id, version: knownVersion } },
+        update: {},
+        create: {
+            paperId: paper.id,
+            version: knownVersion,
+            updatedDate: paper.updatedDate ?? paper.publishedDate,
+            title: paper.title,
+            abstract: paper.abstract,
+        },
+    });
+
+    const intermediate = latestVersion - knownVersion > 1
+        ? await fetchArxivPapersByIds(
+            Array.from({ length: latestVersion - knownVersion - 1 }, (_, i) => `${paper.id}v${knownVersion + i + 1}`)
+        )
+        : [];
+    const snapshots = [...intermediate, latest].sort((a, b) => (a.version ?? 0) - (b.version ?? 0));
+
+    let previousAbstract = paper.abstract;
+    for (const snapshot of snapshots) {
+        if (!snapshot.version || snapshot.version <= knownVersion) continue;
+        await prisma.paperVersion.upsert({
+            where: { paperId_version: { paperId: paper.id, version: snapshot.version } },
+            update: {},
+            create: {
+                paperId: paper.id,
+                version: snapshot.version,
+                updatedDate: snapshot.updated ? new Date(snapshot.updated) : null,
+                title: snapshot.title,
+                abstract: snapshot.summary,
+                abstractChanged: normalizeText(snapshot.summary) !== normalizeText(previousAbstract),
+            },
+        });
+        previousAbstract = snapshot.summary;
+    }
+
+    // Revisions often add "Accepted at ..." comments or a journal ref, so refresh those too.
+    // A title a user corrected by hand is only suggested.
+    await prisma.paper.update({
+        where: { id: paper.id },
+        data: {
+            ...await lockAwareUpdate(paper, { title: latest.title }),
+            abstract: latest.summary,
+            updatedDate: latest.updated ? new Date(latest.updated) : null,
+            arxivVersion: latestVersion,
+            comment: latest.comment ?? null,
+            journalRef: latest.journalRef ?? null,
+            doi: latest.doi ?? null,
+            versionCheckedAt: new Date(),
+        },
+    });
+}
+
+/**
+ * Checks every saved arXiv paper (or just `paperIds`) for versions newer than the one we know.
+ */
+export async function checkForNewVersions(paperIds?: string[]): Promise<VersionCheckResult> {
+    const papers: TrackedPaper[] = await prisma.paper.findMany({
+        where: {
+            savedBy: { some: {} },
+            ...(paperIds ? { id: { in: paperIds } } : {}),
+        },
+        select: {
+            id: true,
+            title: true,
+            institution: true,
+            summary: true,
+            lockedFields: true,
+            fieldSuggestions: true,
+            abstract: true,
+            updatedDate: true,
+            publishedDate: true,
+            arxivVersion: true,
+        },
+    });
+
+    const arxivPapers = papers.filter(p => parseArxivId(p.id)?.base === p.id);
+    const latestById = new Map(
+        // Unversioned lookups resolve to the latest version, so keep their cache short
+        (await fetchArxivPapersByIds(arxivPapers.map(p => p.id), SEARCH_CACHE_TTL_MS)).map(latest => [latest.id, latest])
+    );
+
+    const updated: string[] = [];
+    for (const paper of arxivPapers) {
+        const latest = latestById.get(paper.id);
+        if (!latest?.version) continue;
+
+        if (latest.version > (paper.arxivVersion ?? 1)) {
+            await recordNewVersions(paper, latest);
+            updated.push(paper.id);
+        } else {
+            await prisma.paper.update({
+                where: { id: paper.id },
+                data: { arxivVersion: latest.version, versionCheckedAt: new Date() },
+            });
+        }
+    }
+
+    return { checked: arxivPapers.length, updated };
+}
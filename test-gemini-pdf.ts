@@ -51,7 +51,7 @@ async function test() {
         const summary = await analyzePdfBuffer(pdfBuffer);
         console.log('Summary:', summary);
 
-        const summaryText = typeof summary === 'string' ? summary : summary.summary;
+        const summaryText = summary.analysis.summary;
         if (summaryText && !summaryText.startsWith('Error') && !summaryText.startsWith('Failed')) {
             console.log('SUCCESS: PDF analyzed correctly by Gemini.');
         } else {